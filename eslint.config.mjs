@@ -20,6 +20,31 @@ const eslintConfig = [
       "@typescript-eslint/no-namespace": "off",
     },
   },
+  {
+    // Modules bundled for the browser: the client code and the lib modules it shares with the API routes
+    files: [
+      "src/components/**",
+      "src/hooks/**",
+      "src/lib/api/{index,schema,contract}.ts",
+      "src/lib/i18n/{index,locales,format,translate}.ts",
+      "src/lib/i18n/messages/**",
+      "src/lib/{chapters,errors,formats,playlists,urls}.ts",
+    ],
+    rules: {
+      "@typescript-eslint/no-restricted-imports": ["error", {
+        patterns: [{
+          group: [
+            "fs", "path", "crypto", "child_process", "stream", "events", "os", "node:*",
+            "next/server", "youtube-dl-exec", "youtubei.js", "archiver", "@aws-sdk/*", "@vercel/blob",
+            "@/lib/*", "!@/lib/api", "!@/lib/i18n", "!@/lib/chapters", "!@/lib/errors", "!@/lib/formats", "!@/lib/playlists", "!@/lib/urls",
+            "./server", "../server",
+          ],
+          allowTypeImports: true,
+          message: "Server-only module: client code and the modules it shares may only import its types.",
+        }],
+      }],
+    },
+  },
 ];
 
 export default eslintConfig;
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    // Thumbnails come from the CDN of each supported site, they are shown as served instead of allow-listing every host
+    unoptimized: true,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,148 @@
+import { NextRequest, after } from 'next/server';
+import { createJobResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { BatchItem, createJob, isQueueFull, parseDownloadOptions, QUEUE_RETRY_AFTER_SECONDS, runBatchJob } from '@/lib/jobs';
+import { rateLimitRequest, tooManyRequests } from '@/lib/limits';
+import { classifyError, RETRYABLE_ERRORS } from '@/lib/errors';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { MAX_PLAYLIST_ENTRIES } from '@/lib/ytdlp';
+import { parseVideoUrl } from '@/lib/urls';
+
+/**
+ * Handles POST requests to download several playlist or channel entries as one job
+ * - Applies the per-client rate limit and the queue size (429 with Retry-After)
+ * - Validates entries and download options
+ * - Creates a batch job and runs it after the response is sent
+ * - Returns the job id right away, per-entry progress is available from /api/jobs/:id
+ */
+export async function POST(request: NextRequest) {
+  const t = getRequestTranslator(request);
+
+  try {
+    const limited = rateLimitRequest(request);
+    if (limited) return limited;
+
+    // A body that is not a JSON object is the client's mistake
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return respondError({
+        error: 'Invalid request body',
+        message: t('api.invalidBody')
+      }, 400);
+    }
+
+    const { url, title, entries, packaging = 'zip' } = body;
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return respondError({
+        error: 'Entries are required',
+        message: t('api.batch.entriesRequired')
+      }, 400);
+    }
+
+    if (entries.length > MAX_PLAYLIST_ENTRIES) {
+      return respondError({
+        error: 'Too many entries',
+        message: t('api.batch.tooMany', { max: MAX_PLAYLIST_ENTRIES })
+      }, 400);
+    }
+
+    const invalidEntry = entries.find((entry: { url?: unknown }) =>
+      typeof entry?.url !== 'string' || !parseVideoUrl(entry.url)
+    );
+    if (invalidEntry) {
+      return respondError({
+        error: 'Invalid URL',
+        message: t('api.batch.invalidEntry')
+      }, 400);
+    }
+
+    if (packaging !== 'zip' && packaging !== 'files') {
+      return respondError({
+        error: 'Invalid packaging',
+        message: t('api.batch.packaging')
+      }, 400);
+    }
+
+    // Validate format, mode and audio format
+    const parsed = parseDownloadOptions(body, t);
+    if (!parsed.valid) {
+      return respondError({
+        error: parsed.error,
+        message: parsed.message
+      }, 400);
+    }
+
+    // Batch items only keep their media file
+    if (parsed.options.subtitles) {
+      return respondError({
+        error: 'Invalid subtitles',
+        message: t('api.batch.subtitles')
+      }, 400);
+    }
+
+    // One range cannot apply to every video of a playlist
+    if (parsed.options.clip) {
+      return respondError({
+        error: 'Invalid clip',
+        message: t('api.batch.clip')
+      }, 400);
+    }
+
+    if (parsed.options.splitChapters) {
+      return respondError({
+        error: 'Invalid chapters',
+        message: t('api.batch.chapters')
+      }, 400);
+    }
+
+    if (parsed.options.live) {
+      return respondError({
+        error: 'Invalid live recording',
+        message: t('api.batch.live')
+      }, 400);
+    }
+
+    // Entries are downloaded from their canonical URL
+    const items: BatchItem[] = entries.map((entry: { url: string; title?: unknown }) => ({
+      url: parseVideoUrl(entry.url)!.url,
+      title: typeof entry.title === 'string' ? entry.title : entry.url,
+      phase: 'queued',
+    }));
+
+    if (isQueueFull()) {
+      return tooManyRequests(t('api.queueFull'), QUEUE_RETRY_AFTER_SECONDS);
+    }
+
+    const job = createJob(typeof url === 'string' ? url : items[0].url, parsed.options, {
+      title: typeof title === 'string' && title ? title : 'playlist',
+      packaging,
+      items,
+    });
+    after(() => runBatchJob(job));
+
+    console.log(`Batch job created: ${job.id} (${items.length} entries, ${packaging})`);
+
+    return respond(createJobResponseSchema, {
+      success: true,
+      message: t('api.batch.created'),
+      jobId: job.id,
+      statusUrl: `/api/jobs/${job.id}`,
+      eventsUrl: `/api/jobs/${job.id}/events`,
+      job,
+      timestamp: new Date().toISOString()
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error in batch POST handler:', error);
+    const message = error instanceof Error ? error.message : t('errors.unknown');
+    const code = classifyError(message);
+
+    return respondError({
+      error: 'Internal Server Error',
+      message,
+      code,
+      retryable: RETRYABLE_ERRORS[code]
+    }, 500);
+  }
+}
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createJobResponseSchema, errorResponseSchema, JobResult, parse } from '@/lib/api';
+
+const VIDEO_URL = 'https://vimeo.com/76979871';
+const PATHNAME = '1700000000000_video.mp4';
+
+let storageDir: string;
+let route: typeof import('./route');
+
+function post(body: unknown, headers?: Record<string, string>) {
+  return route.POST(new NextRequest('http://localhost/api/download', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+}
+
+/**
+ * Stores a file and caches it as the finished download of VIDEO_URL, as a previous job would have
+ */
+async function cacheDownload(body: Record<string, unknown>) {
+  const { createJob, parseDownloadOptions } = await import('@/lib/jobs');
+  const { withDownloadCache } = await import('@/lib/jobs/cache');
+  const { createFileLinks } = await import('@/lib/signing');
+  const { createTranslator } = await import('@/lib/i18n');
+
+  fs.writeFileSync(path.join(storageDir, PATHNAME), 'video');
+  const parsed = parseDownloadOptions(body, createTranslator('en'));
+  if (!parsed.valid) throw new Error(parsed.message);
+
+  const job = createJob(VIDEO_URL, parsed.options);
+  const file = { filename: PATHNAME, originalFilename: 'video.mp4', size: 5, contentType: 'video/mp4', ...createFileLinks(PATHNAME, job.id) };
+  const result: JobResult = {
+    videoInfo: { title: 'Video', duration: 60, quality: '720p', author: 'Channel', viewCount: 0, fileSize: 5, chapters: [] },
+    file,
+    downloadUrl: file.downloadUrl,
+  };
+  await withDownloadCache(job, VIDEO_URL, async () => result);
+}
+
+beforeAll(async () => {
+  // Read when the storage and signing modules load
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tubechain-download-route-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = storageDir;
+  process.env.FILE_SIGNING_SECRET = 'download-route-test-secret';
+
+  route = await import('./route');
+});
+
+afterAll(() => {
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('POST /api/download', () => {
+  it('answers invalid requests with the error contract, in the language of the request', async () => {
+    const missing = await post({}, { 'Accept-Language': 'en' });
+    expect(missing.status).toBe(400);
+    expect(parse(errorResponseSchema, await missing.json(), 'POST /api/download').message).toBe('Please provide a valid video URL');
+
+    const badFormat = await post({ url: VIDEO_URL, format: '$(rm -rf /)' });
+    expect(badFormat.status).toBe(400);
+    expect(parse(errorResponseSchema, await badFormat.json(), 'POST /api/download').success).toBe(false);
+  });
+
+  it('answers a body that is not a JSON object with 400, not 500', async () => {
+    for (const body of ['{"url": ', 'null']) {
+      const response = await post(body, { 'Accept-Language': 'en' });
+      expect(response.status).toBe(400);
+      expect(parse(errorResponseSchema, await response.json(), 'POST /api/download').message).toBe('The request body must be a JSON object');
+    }
+  });
+
+  it('returns a cached download as a finished job of the contract', async () => {
+    await cacheDownload({ mode: 'video' });
+
+    const response = await post({ url: VIDEO_URL, mode: 'video' });
+    expect(response.status).toBe(200);
+
+    const body = parse(createJobResponseSchema, await response.json(), 'POST /api/download');
+    expect(body.cached).toBe(true);
+    expect(body.job.phase).toBe('done');
+    expect(body.job.result?.file.filename).toBe(PATHNAME);
+    expect(body.job.result?.file.deleteUrl).toBeUndefined();
+    expect(body.statusUrl).toBe(`/api/jobs/${body.jobId}`);
+  });
+});
@@ -1,196 +1,157 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { put } from '@vercel/blob';
-
-// Interfaces para el tipo de respuesta
-interface VideoInfo {
-  id: string;
-  title: string;
-  description: string;
-  duration: number;
-  durationFormatted: string;
-  thumbnail: string;
-  author: {
-    name: string;
-    channelId: string;
-  };
-  viewCount: number;
-  uploadDate: string;
-  quality: string;
-  format: string;
-  fileSize: number;
-}
-
-// Configuración del backend NestJS
-const BACKEND_URL = process.env.BACKEND_URL!;
-
-// Función para sanitizar nombres de archivo
-function sanitizeFilename(filename: string): string {
-  return filename
-    .replace(/[^\w\s-\.]/g, '')
-    .replace(/\s+/g, '_')
-    .replace(/_{2,}/g, '_')
-    .substring(0, 100);
-}
+import { NextRequest, after } from 'next/server';
+import { createJobResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import {
+  createJob,
+  findCachedResult,
+  getCacheKey,
+  isQueueFull,
+  parseDownloadOptions,
+  QUEUE_RETRY_AFTER_SECONDS,
+  runDownloadJob,
+  updateJob
+} from '@/lib/jobs';
+import { localizedMessage } from '@/lib/downloader';
+import { rateLimitRequest, tooManyRequests } from '@/lib/limits';
+import { classifyError, RETRYABLE_ERRORS } from '@/lib/errors';
+import { createTranslator } from '@/lib/i18n';
+import { getRequestLocale } from '@/lib/i18n/server';
+import { checkVideoUrl, describeUrlError } from '@/lib/urls';
 
 /**
- * Handles POST requests to download a video using the NestJS backend
- * - Validates input URL
- * - Makes request to NestJS backend
- * - Uploads video to Vercel Blob Storage
- * - Returns JSON response with video details and blob URL
+ * Handles POST requests to download a video using the configured downloader
+ * - Applies the per-client rate limit (429 with Retry-After)
+ * - Validates the video URL (YouTube, Vimeo, Dailymotion...) and downloads its canonical form
+ * - Creates a download job and runs it after the response is sent
+ * - Returns the job id right away, progress is available from /api/jobs/:id
+ * - Videos already stored in the same format are returned immediately as a finished job (200)
+ * - Premieres and live streams sent without a recording fail the job once it starts (premiere, live-in-progress)
+ * - Rejects new jobs with 429 while the wait queue is full
  */
 export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+  const t = createTranslator(locale);
+
   try {
     console.log('POST request received for video download');
 
-    // Parse request body
-    const body = await request.json();
-    const { url } = body;
+    const limited = rateLimitRequest(request);
+    if (limited) return limited;
+
+    // Parse request body, one that is not a JSON object is the client's mistake
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return respondError({
+        error: 'Invalid request body',
+        message: t('api.invalidBody')
+      }, 400);
+    }
 
     // Validate URL
-    if (!url) {
-      return NextResponse.json({
-        success: false,
+    if (!body.url || typeof body.url !== 'string') {
+      return respondError({
         error: 'URL is required',
-        message: 'Please provide a valid YouTube URL'
-      }, { status: 400 });
+        message: t('api.urlRequired')
+      }, 400);
     }
 
-    // Validate YouTube URL format
-    const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+/;
-    if (!youtubeRegex.test(url)) {
-      return NextResponse.json({
-        success: false,
+    // Validate the URL against the supported sites, tracking parameters are dropped
+    const check = checkVideoUrl(body.url);
+    if (!check.valid) {
+      return respondError({
         error: 'Invalid URL',
-        message: 'Please provide a valid YouTube URL'
-      }, { status: 400 });
+        message: describeUrlError(check, t)
+      }, 400);
     }
-
-    console.log(`Processing YouTube URL: ${url}`);
-
-    // Make request to NestJS backend
-    console.log(`Making request to backend: ${BACKEND_URL}/youtube/download`);
-    
-    const backendResponse = await fetch(`${BACKEND_URL}/youtube/download`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ url }),
-    });
-
-    console.log(`Backend response status: ${backendResponse.status}`);
-
-    if (!backendResponse.ok) {
-      // Handle backend errors
-      let errorMessage = 'Error downloading video from backend';
-      let errorDetails = {};
-
-      try {
-        const errorData = await backendResponse.json();
-        errorMessage = errorData.message || errorMessage;
-        errorDetails = errorData;
-      } catch (parseError) {
-        console.error('Error parsing backend error response:', parseError);
-      }
-
-      return NextResponse.json({
-        success: false,
-        error: 'Backend Error',
-        message: errorMessage,
-        details: errorDetails,
-        status: backendResponse.status
-      }, { status: backendResponse.status });
+    const { video } = check;
+    const { url } = video;
+
+    // Validate format, mode and audio format
+    const parsed = parseDownloadOptions(body, t);
+    if (!parsed.valid) {
+      return respondError({
+        error: parsed.error,
+        message: parsed.message
+      }, 400);
     }
 
-    // Get video info from headers
-    const videoInfoHeader = backendResponse.headers.get('X-Video-Info');
-    let videoInfo: Partial<VideoInfo> = {};
+    const { options } = parsed;
 
-    if (videoInfoHeader) {
-      try {
-        videoInfo = JSON.parse(videoInfoHeader);
-      } catch (parseError) {
-        console.error('Error parsing video info from header:', parseError);
-      }
-    }
+    console.log(`Processing ${video.site} URL: ${url} (${options.mode}${options.format ? `, format ${options.format}` : ''}${options.live ? ', live recording' : ''})`);
 
-    // Get filename from Content-Disposition header
-    const contentDisposition = backendResponse.headers.get('Content-Disposition');
-    let originalFilename = 'downloaded_video.mp4';
-    
-    if (contentDisposition) {
-      const filenameMatch = contentDisposition.match(/filename[^;=\n]*=([^;\n]*)/);
-      if (filenameMatch && filenameMatch[1]) {
-        originalFilename = filenameMatch[1].replace(/['"]/g, '');
-      }
-    }
+    const job = createJob(url, options, undefined, video);
 
-    // Sanitize filename and ensure it's unique
-    const sanitizedFilename = sanitizeFilename(originalFilename);
-    const timestamp = Date.now();
-    const uniqueFilename = `${timestamp}_${sanitizedFilename}`;
+    // Serve a previous download of the same video and format without a new job run
+    const cacheKey = getCacheKey(url, options);
+    const cached = cacheKey ? await findCachedResult(cacheKey, job.id) : null;
 
-    console.log(`Uploading video to Blob Storage as: ${uniqueFilename}`);
+    if (cached) {
+      console.log(`Cache hit for ${cacheKey}, job ${job.id} finished immediately`);
 
-    // Convert response to stream for Vercel Blob
-    const videoStream = backendResponse.body;
-    
-    if (!videoStream) {
-      throw new Error('No video stream received from backend');
+      const finished = updateJob(job.id, {
+        phase: 'done',
+        bytesTransferred: cached.file.size,
+        totalBytes: cached.file.size,
+        result: cached
+      });
+
+      return respond(createJobResponseSchema, {
+        success: true,
+        message: t('api.download.cached'),
+        cached: true,
+        jobId: job.id,
+        statusUrl: `/api/jobs/${job.id}`,
+        eventsUrl: `/api/jobs/${job.id}/events`,
+        job: finished ?? job,
+        timestamp: new Date().toISOString()
+      }, { status: 200 });
     }
 
-    // Upload to Vercel Blob Storage
-    const blobResult = await put(uniqueFilename, videoStream, {
-      access: 'public',
-      contentType: backendResponse.headers.get('Content-Type') || 'video/mp4',
-    });
+    if (isQueueFull()) {
+      const message = t('api.queueFull');
+      updateJob(job.id, {
+        phase: 'failed',
+        error: {
+          error: 'Too Many Requests',
+          message,
+          localized: localizedMessage('api.queueFull'),
+          status: 429,
+          code: 'backend-unavailable',
+          retryable: true
+        }
+      });
+      return tooManyRequests(message, QUEUE_RETRY_AFTER_SECONDS);
+    }
 
-    console.log(`Video uploaded successfully to Blob Storage: ${blobResult.url}`);
+    after(() => runDownloadJob(job));
 
-    // Get file size from response headers or calculate from stream
-    const contentLength = backendResponse.headers.get('Content-Length');
-    const fileSize = contentLength ? parseInt(contentLength, 10) : 0;
+    console.log(`Download job created: ${job.id}`);
 
-    // Return success response with video info and blob details
-    const response = {
+    return respond(createJobResponseSchema, {
       success: true,
-      message: 'Video downloaded and saved successfully to Blob Storage',
-      videoInfo: {
-        title: videoInfo.title || 'Unknown Title',
-        duration: videoInfo.duration || 'Unknown Duration',
-        quality: videoInfo.quality || 'Unknown Quality',
-        author: videoInfo.author || 'Unknown Author',
-        viewCount: videoInfo.viewCount || 0,
-        fileSize: fileSize,
-        ...videoInfo
-      },
-      file: {
-        filename: uniqueFilename,
-        originalFilename: originalFilename,
-        size: fileSize,
-        url: blobResult.url,
-        downloadUrl: blobResult.downloadUrl,
-        contentType: backendResponse.headers.get('Content-Type') || 'video/mp4'
-      },
-      downloadUrl: blobResult.url,
+      message: t('api.download.created'),
+      cached: false,
+      jobId: job.id,
+      statusUrl: `/api/jobs/${job.id}`,
+      eventsUrl: `/api/jobs/${job.id}/events`,
+      job,
       timestamp: new Date().toISOString()
-    };
-
-    console.log('Download and upload completed successfully');
-    return NextResponse.json(response, { status: 200 });
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Error in POST handler:', error);
+    const message = error instanceof Error ? error.message : t('errors.unknown');
+    const code = classifyError(message);
 
-    return NextResponse.json({
-      success: false,
+    return respondError({
       error: 'Internal Server Error',
-      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      message,
+      code,
+      retryable: RETRYABLE_ERRORS[code],
       details: {
         timestamp: new Date().toISOString(),
         errorType: error instanceof Error ? error.constructor.name : 'Unknown'
       }
-    }, { status: 500 });
+    }, 500);
   }
-}
\ No newline at end of file
+}
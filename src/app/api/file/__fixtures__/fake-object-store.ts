@@ -0,0 +1,125 @@
+/**
+ * In-memory object store for the storage route tests, served over HTTP on localhost
+ * - Speaks enough of the S3 API (path-style HEAD/GET /<bucket>/<key>) for S3_ENDPOINT
+ * - and of the Vercel Blob API (list, head, blob reads under /blobs/) for VERCEL_BLOB_API_URL
+ * - Reads honour Range, unless ignoreRange is set (like stores and CDNs that always send the whole file)
+ */
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface FakeObject {
+  body: Buffer;
+  contentType: string;
+  uploadedAt: Date;
+}
+
+export interface FakeObjectStore {
+  url: string;
+  objects: Map<string, FakeObject>;   // Keyed by the full key, prefix included
+  reads: { key: string; range?: string }[];
+  ignoreRange: boolean;
+  close(): Promise<void>;
+}
+
+export const FAKE_BUCKET = 'bucket';
+
+function sendObject(store: FakeObjectStore, key: string, request: http.IncomingMessage, response: http.ServerResponse) {
+  const object = store.objects.get(key);
+  if (!object) {
+    response.writeHead(404, { 'Content-Type': 'application/xml' });
+    response.end(request.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code></Error>');
+    return;
+  }
+
+  const headers = {
+    'Content-Type': object.contentType,
+    'Last-Modified': object.uploadedAt.toUTCString(),
+    'ETag': `"${object.body.length}"`,
+  };
+
+  if (request.method === 'HEAD') {
+    response.writeHead(200, { ...headers, 'Content-Length': object.body.length });
+    response.end();
+    return;
+  }
+
+  const range = request.headers.range;
+  store.reads.push({ key, range });
+
+  const match = range?.match(/^bytes=(\d+)-(\d+)$/);
+  if (match && !store.ignoreRange) {
+    const start = Number(match[1]);
+    const end = Math.min(Number(match[2]), object.body.length - 1);
+    response.writeHead(206, {
+      ...headers,
+      'Content-Length': end - start + 1,
+      'Content-Range': `bytes ${start}-${end}/${object.body.length}`,
+    });
+    response.end(object.body.subarray(start, end + 1));
+    return;
+  }
+
+  response.writeHead(200, { ...headers, 'Content-Length': object.body.length });
+  response.end(object.body);
+}
+
+function describeBlob(store: FakeObjectStore, key: string) {
+  const object = store.objects.get(key)!;
+  const url = `${store.url}/blobs/${key}`;
+  return { url, downloadUrl: `${url}?download=1`, pathname: key, size: object.body.length, uploadedAt: object.uploadedAt.toISOString() };
+}
+
+function handleBlobApi(store: FakeObjectStore, searchParams: URLSearchParams, response: http.ServerResponse) {
+  response.setHeader('Content-Type', 'application/json');
+
+  const url = searchParams.get('url');
+  if (url) {
+    const key = decodeURIComponent(new URL(url).pathname.replace(/^\/blobs\//, ''));
+    if (!store.objects.has(key)) {
+      response.writeHead(404);
+      response.end(JSON.stringify({ error: { code: 'not_found', message: 'The requested blob does not exist' } }));
+      return;
+    }
+    response.end(JSON.stringify({ ...describeBlob(store, key), contentType: store.objects.get(key)!.contentType }));
+    return;
+  }
+
+  const prefix = searchParams.get('prefix') ?? '';
+  const limit = Number(searchParams.get('limit') || 1000);
+  const keys = [...store.objects.keys()].filter(key => key.startsWith(prefix)).sort();
+  response.end(JSON.stringify({
+    blobs: keys.slice(0, limit).map(key => describeBlob(store, key)),
+    hasMore: keys.length > limit,
+  }));
+}
+
+export async function startFakeObjectStore(): Promise<FakeObjectStore> {
+  const server = http.createServer((request, response) => {
+    const { pathname, searchParams } = new URL(request.url!, 'http://localhost');
+
+    if (pathname === '/') {
+      handleBlobApi(store, searchParams, response);
+    } else if (pathname.startsWith('/blobs/')) {
+      sendObject(store, decodeURIComponent(pathname.slice('/blobs/'.length)), request, response);
+    } else if (pathname.startsWith(`/${FAKE_BUCKET}/`)) {
+      sendObject(store, decodeURIComponent(pathname.slice(FAKE_BUCKET.length + 2)), request, response);
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const store: FakeObjectStore = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    objects: new Map(),
+    reads: [],
+    ignoreRange: false,
+    close: () => new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }),
+  };
+  return store;
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { FAKE_BUCKET, FakeObjectStore, startFakeObjectStore } from './__fixtures__/fake-object-store';
+
+const PATHNAME = '1700000000000_video.mp4';
+const KEY = `tubechain/${PATHNAME}`;
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+let store: FakeObjectStore;
+let route: typeof import('./route');
+let links: import('@/lib/signing').SignedFileLinks;
+
+function get(url: string, headers?: Record<string, string>, method = 'GET') {
+  const request = new NextRequest(new URL(url, 'http://localhost'), { method, headers });
+  return method === 'HEAD' ? route.HEAD(request) : route.GET(request);
+}
+
+beforeAll(async () => {
+  store = await startFakeObjectStore();
+  store.objects.set(KEY, { body: CONTENT, contentType: 'video/mp4', uploadedAt: new Date('2024-01-01T00:00:00Z') });
+
+  // Read when the storage and signing modules load
+  process.env.STORAGE_BACKEND = 's3';
+  process.env.S3_BUCKET = FAKE_BUCKET;
+  process.env.S3_ENDPOINT = store.url;
+  process.env.S3_FORCE_PATH_STYLE = 'true';
+  process.env.S3_ACCESS_KEY_ID = 'test-key';
+  process.env.S3_SECRET_ACCESS_KEY = 'test-secret';
+  process.env.FILE_SIGNING_SECRET = 'file-route-test-secret';
+
+  route = await import('./route');
+  const { createFileLinks } = await import('@/lib/signing');
+  links = createFileLinks(PATHNAME, 'job-1');
+});
+
+beforeEach(() => {
+  store.reads = [];
+});
+
+afterAll(async () => {
+  await store.close();
+});
+
+describe('GET /api/file on S3', () => {
+  it('redirects a full GET to a bucket URL expiring with the link', async () => {
+    const response = await get(links.url);
+
+    expect(response.status).toBe(302);
+    const location = new URL(response.headers.get('Location')!);
+    expect(`${location.origin}${location.pathname}`).toBe(`${store.url}/${FAKE_BUCKET}/${KEY}`);
+    expect(location.searchParams.get('X-Amz-Signature')).toBeTruthy();
+    expect(Number(location.searchParams.get('X-Amz-Expires'))).toBeLessThanOrEqual((Date.parse(links.expiresAt) - Date.now()) / 1000 + 1);
+    expect(location.searchParams.get('response-content-disposition')).toBe(`inline; filename="${PATHNAME}"`);
+    expect(store.reads).toEqual([]);
+  });
+
+  it('proxies ranges from the bucket', async () => {
+    const response = await get(links.url, { Range: 'bytes=10-19' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe(`bytes 10-19/${CONTENT.length}`);
+    expect(await response.text()).toBe('abcdefghij');
+    expect(store.reads).toEqual([{ key: KEY, range: 'bytes=10-19' }]);
+  });
+
+  it('answers conditional requests itself instead of redirecting', async () => {
+    const { headers } = await get(links.url, undefined, 'HEAD');
+
+    expect((await get(links.url, { 'If-None-Match': headers.get('ETag')! })).status).toBe(304);
+    expect((await get(links.url, { 'If-Match': '"stale"' })).status).toBe(412);
+    expect(store.reads).toEqual([]);
+  });
+
+  it('proxies HEAD and redirect=false', async () => {
+    const head = await get(links.url, undefined, 'HEAD');
+    expect(head.status).toBe(200);
+    expect(head.headers.get('Content-Length')).toBe(String(CONTENT.length));
+
+    const proxied = await get(`${links.downloadUrl}&redirect=false`);
+    expect(proxied.status).toBe(200);
+    expect(proxied.headers.get('Content-Disposition')).toBe(`attachment; filename="${PATHNAME}"`);
+    expect(Buffer.from(await proxied.arrayBuffer())).toEqual(CONTENT);
+  });
+});
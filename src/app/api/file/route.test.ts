@@ -0,0 +1,195 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { deleteFileResponseSchema, errorResponseSchema, parse } from '@/lib/api';
+
+const PATHNAME = '1700000000000_video.mp4';
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+let storageDir: string;
+let route: typeof import('./route');
+let links: import('@/lib/signing').SignedFileLinks;
+let createFileLinks: typeof import('@/lib/signing').createFileLinks;
+
+function request(url: string, { method = 'GET', headers }: { method?: string; headers?: Record<string, string> } = {}) {
+  return new NextRequest(new URL(url, 'http://localhost'), { method, headers });
+}
+
+function get(url: string, headers?: Record<string, string>) {
+  return route.GET(request(url, { headers }));
+}
+
+function head(url: string, headers?: Record<string, string>) {
+  return route.HEAD(request(url, { method: 'HEAD', headers }));
+}
+
+beforeAll(async () => {
+  // Read when the storage and signing modules load
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tubechain-file-route-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = storageDir;
+  process.env.FILE_SIGNING_SECRET = 'file-route-test-secret';
+
+  fs.writeFileSync(path.join(storageDir, PATHNAME), CONTENT);
+
+  route = await import('./route');
+  ({ createFileLinks } = await import('@/lib/signing'));
+  links = createFileLinks(PATHNAME, 'job-1');
+});
+
+afterAll(() => {
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('GET /api/file authorization', () => {
+  it('requires a token', async () => {
+    expect((await get('/api/file')).status).toBe(401);
+  });
+
+  it('rejects forged tokens and delete tokens', async () => {
+    expect((await get(`${links.url}x`)).status).toBe(403);
+    expect((await get(links.deleteUrl)).status).toBe(403);
+  });
+
+  it('answers 410 once the link expired', async () => {
+    const expired = createFileLinks(PATHNAME, 'job-1', Date.now() - 24 * 60 * 60 * 1000);
+    expect((await get(expired.url)).status).toBe(410);
+  });
+
+  it('answers 404 when the file is gone', async () => {
+    const missing = createFileLinks('missing.mp4', 'job-1');
+    expect((await get(missing.url)).status).toBe(404);
+  });
+});
+
+describe('GET /api/file', () => {
+  it('streams the full file with its validators', async () => {
+    const response = await get(links.url);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('video/mp4');
+    expect(response.headers.get('Content-Length')).toBe(String(CONTENT.length));
+    expect(response.headers.get('Content-Disposition')).toBe(`inline; filename="${PATHNAME}"`);
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(response.headers.get('ETag')).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+    expect(response.headers.get('Last-Modified')).toBeTruthy();
+    expect(response.headers.get('Cache-Control')).toMatch(/^private, max-age=\d+$/);
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(CONTENT);
+  });
+
+  it('forces a download with download=1, and proxies with redirect=false', async () => {
+    const download = await get(links.downloadUrl);
+    expect(download.headers.get('Content-Disposition')).toBe(`attachment; filename="${PATHNAME}"`);
+
+    const proxied = await get(`${links.downloadUrl}&redirect=false`);
+    expect(proxied.status).toBe(200);
+    expect(Buffer.from(await proxied.arrayBuffer())).toEqual(CONTENT);
+  });
+
+  it('sends one range as 206', async () => {
+    const response = await get(links.url, { Range: 'bytes=10-19' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe(`bytes 10-19/${CONTENT.length}`);
+    expect(response.headers.get('Content-Length')).toBe('10');
+    expect(await response.text()).toBe('abcdefghij');
+  });
+
+  it('sends suffix and open-ended ranges', async () => {
+    const suffix = await get(links.url, { Range: 'bytes=-4' });
+    expect(suffix.headers.get('Content-Range')).toBe(`bytes 32-35/${CONTENT.length}`);
+    expect(await suffix.text()).toBe('wxyz');
+
+    const openEnded = await get(links.url, { Range: 'bytes=30-' });
+    expect(await openEnded.text()).toBe('uvwxyz');
+  });
+
+  it('sends several ranges as multipart/byteranges', async () => {
+    const response = await get(links.url, { Range: 'bytes=0-1, 34-' });
+    const body = await response.text();
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Type')).toMatch(/^multipart\/byteranges; boundary=/);
+    expect(response.headers.get('Content-Length')).toBe(String(Buffer.byteLength(body)));
+    expect(body).toContain(`Content-Range: bytes 0-1/${CONTENT.length}\r\n\r\n01\r\n`);
+    expect(body).toContain(`Content-Range: bytes 34-35/${CONTENT.length}\r\n\r\nyz\r\n`);
+  });
+
+  it('answers 416 when no range overlaps the file', async () => {
+    const response = await get(links.url, { Range: 'bytes=100-200' });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe(`bytes */${CONTENT.length}`);
+  });
+
+  it('answers 304 and 412 from the preconditions', async () => {
+    const { headers } = await get(links.url);
+    const etag = headers.get('ETag')!;
+
+    expect((await get(links.url, { 'If-None-Match': etag })).status).toBe(304);
+    expect((await get(links.url, { 'If-Modified-Since': headers.get('Last-Modified')! })).status).toBe(304);
+    expect((await get(links.url, { 'If-Match': '"stale"' })).status).toBe(412);
+    expect((await get(links.url, { 'If-Match': etag, Range: 'bytes=0-0' })).status).toBe(206);
+  });
+
+  it('sends the full file when If-Range is stale', async () => {
+    const { headers } = await get(links.url);
+
+    const fresh = await get(links.url, { Range: 'bytes=0-3', 'If-Range': headers.get('ETag')! });
+    expect(fresh.status).toBe(206);
+
+    const stale = await get(links.url, { Range: 'bytes=0-3', 'If-Range': '"stale"' });
+    expect(stale.status).toBe(200);
+    expect(Buffer.from(await stale.arrayBuffer())).toEqual(CONTENT);
+  });
+});
+
+describe('HEAD /api/file', () => {
+  it('sends the GET headers without a body', async () => {
+    const response = await head(links.url);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Length')).toBe(String(CONTENT.length));
+    expect(response.headers.get('ETag')).toBe((await get(links.url)).headers.get('ETag'));
+    expect(response.body).toBeNull();
+  });
+
+  it('sends range and error statuses without a body', async () => {
+    const range = await head(links.url, { Range: 'bytes=0-9' });
+    expect(range.status).toBe(206);
+    expect(range.headers.get('Content-Range')).toBe(`bytes 0-9/${CONTENT.length}`);
+    expect(range.body).toBeNull();
+
+    const multipart = await head(links.url, { Range: 'bytes=0-1, 5-6' });
+    expect(multipart.status).toBe(206);
+    expect(multipart.body).toBeNull();
+
+    const unauthorized = await head('/api/file');
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.body).toBeNull();
+  });
+});
+
+describe('DELETE /api/file', () => {
+  it('keeps the delete link working after the read links expired', async () => {
+    const pathname = '1700000000000_owned.mp4';
+    fs.writeFileSync(path.join(storageDir, pathname), CONTENT);
+
+    const owned = createFileLinks(pathname, 'job-2', Date.now() - 2 * 60 * 60 * 1000);
+    expect(Date.parse(owned.deleteExpiresAt)).toBeGreaterThan(Date.parse(owned.expiresAt));
+    expect((await get(owned.url)).status).toBe(410);
+
+    const response = await route.DELETE(request(owned.deleteUrl, { method: 'DELETE' }));
+    expect(response.status).toBe(200);
+    parse(deleteFileResponseSchema, await response.json(), 'DELETE /api/file');
+    expect(fs.existsSync(path.join(storageDir, pathname))).toBe(false);
+  });
+
+  it('rejects read tokens', async () => {
+    const response = await route.DELETE(request(links.url, { method: 'DELETE' }));
+    expect(response.status).toBe(403);
+    parse(errorResponseSchema, await response.json(), 'DELETE /api/file');
+  });
+});
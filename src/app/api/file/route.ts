@@ -1,261 +1,270 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { head, list } from '@vercel/blob';
+import { deleteFileResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { getContentTypeFromFilename } from '@/lib/file-system';
+import { getStorage, StorageBackend, StoredFile } from '@/lib/storage';
+import { createMultipartBody, formatContentRange, parseRangeHeader } from '@/lib/http/range';
+import { evaluatePreconditions, getETag, getLastModified, isRangeFresh } from '@/lib/http/conditional';
+import { FileAction, FileToken, verifyFileToken } from '@/lib/signing';
+import { invalidateCachedFile } from '@/lib/jobs';
+import { forgetFileAccess, recordFileAccess } from '@/lib/retention';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import type { Translator } from '@/lib/i18n';
+
+interface ServeOptions {
+  redirect: boolean;        // Full-file GETs may redirect to a signed backend URL
+  attachment: boolean;      // Force a download instead of inline playback
+  expiresAt: number;        // Expiry of the token, responses and signed URLs must not outlive it
+}
+
+/**
+ * Sends a stored file honouring Range and conditional headers
+ * - 304 / 412 from If-None-Match, If-Modified-Since, If-Match, If-Unmodified-Since
+ * - 206 for one range, multipart/byteranges for several, 416 when none overlaps the file
+ * - If-Range falls back to the full file when the client's copy is stale
+ * - Full-file GETs redirect to a backend URL expiring with the token when the backend signs them (S3), unless redirect=false
+ * - Everything else is proxied, permanent public URLs are never handed out
+ * - HEAD gets the same headers as GET, without body and without redirect
+ */
+async function serveFile(
+  request: NextRequest,
+  storage: StorageBackend,
+  fileInfo: StoredFile,
+  { redirect, attachment, expiresAt }: ServeOptions
+): Promise<NextResponse> {
+  const filename = fileInfo.pathname;
+  const isHead = request.method === 'HEAD';
+
+  // Determine content type, from the filename if storage did not record one
+  let contentType = fileInfo.contentType || 'application/octet-stream';
+  if (contentType === 'application/octet-stream') {
+    contentType = getContentTypeFromFilename(filename, 'video/mp4'); // Default to mp4
+  }
+
+  // Responses must not outlive the link that fetched them
+  const maxAge = Math.max(Math.floor((expiresAt - Date.now()) / 1000), 0);
+  const contentDisposition = `${attachment ? 'attachment' : 'inline'}; filename="${filename}"`;
+
+  const validators = {
+    'ETag': getETag(fileInfo),
+    'Last-Modified': getLastModified(fileInfo),
+    'Cache-Control': `private, max-age=${maxAge}`,
+    'Accept-Ranges': 'bytes',
+  };
+
+  const precondition = evaluatePreconditions(request.headers, request.method, fileInfo);
+  if (precondition === 'not-modified') {
+    return new NextResponse(null, { status: 304, headers: validators });
+  }
+  if (precondition === 'precondition-failed') {
+    return new NextResponse(null, { status: 412, headers: validators });
+  }
+
+  // Check if client wants range requests (for video streaming)
+  const range = request.headers.get('range');
+
+  const rangeRequest = range && isRangeFresh(request.headers, fileInfo)
+    ? parseRangeHeader(range, fileInfo.size)
+    : { type: 'none' as const };
+
+  if (rangeRequest.type === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: {
+        ...validators,
+        'Content-Range': formatContentRange(null, fileInfo.size),
+      },
+    });
+  }
+
+  if (rangeRequest.type === 'ranges') {
+    const { ranges } = rangeRequest;
+
+    if (ranges.length === 1) {
+      // Handle range requests for video streaming
+      const [{ start, end }] = ranges;
+      const body = isHead ? null : await storage.read(filename, { start, end });
+
+      return new NextResponse(body, {
+        status: 206,
+        headers: {
+          ...validators,
+          'Content-Range': formatContentRange({ start, end }, fileInfo.size),
+          'Content-Length': (end - start + 1).toString(),
+          'Content-Type': contentType,
+        },
+      });
+    }
+
+    const multipart = createMultipartBody(ranges, fileInfo.size, contentType, part => storage.read(filename, part));
+    if (isHead) {
+      await multipart.body.cancel();
+    }
+
+    return new NextResponse(isHead ? null : multipart.body, {
+      status: 206,
+      headers: {
+        ...validators,
+        'Content-Length': multipart.length.toString(),
+        'Content-Type': multipart.contentType,
+      },
+    });
+  }
+
+  // For non-range requests
+  // Let the backend send the file itself, through a URL that expires with the token
+  if (!isHead && redirect && storage.getSignedUrl) {
+    const signedUrl = await storage.getSignedUrl(filename, { expiresAt: new Date(expiresAt), contentDisposition });
+    return NextResponse.redirect(signedUrl, 302);
+  }
+
+  // Proxy the file through our API (less efficient but more control)
+  const body = isHead ? null : await storage.read(filename);
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      ...validators,
+      'Content-Type': contentType,
+      'Content-Length': fileInfo.size.toString(),
+      'Content-Disposition': contentDisposition,
+    },
+  });
+}
 
 /**
- * API Route for serving video files from Vercel Blob Storage with detailed debugging
+ * Reads and verifies the signed token of a request
+ * - 401 without token, 403 for a forged or misused token, 410 once it expired
+ * @returns The token, or the error response to send
+ */
+function authorizeRequest(url: URL, action: FileAction, t: Translator): { token: FileToken } | { response: NextResponse } {
+  const value = url.searchParams.get('token');
+
+  if (!value) {
+    return {
+      response: respondError({
+        error: 'Token is required',
+        message: t('api.file.tokenRequired')
+      }, 401)
+    };
+  }
+
+  const verification = verifyFileToken(value, action);
+  if (!verification.valid) {
+    console.log(`Rejected ${action} token: ${verification.reason}`);
+
+    if (verification.reason === 'expired') {
+      return {
+        response: respondError({
+          error: 'Link expired',
+          message: t('api.file.expired')
+        }, 410)
+      };
+    }
+
+    return {
+      response: respondError({
+        error: 'Invalid token',
+        message: t('api.file.invalidToken')
+      }, 403)
+    };
+  }
+
+  return { token: verification.token };
+}
+
+/**
+ * API Route for serving video files from the configured storage backend
+ * - Files are addressed by a signed read token (see createFileLinks), never by filename
+ * - download=1 forces a download, redirect=false proxies instead of redirecting
  */
 export async function GET(request: NextRequest) {
   try {
-    console.log('Blob file request received:', request.url);
-    
-    // Get the URL and parse it
     const url = new URL(request.url);
-    console.log('Parsed URL:', url.toString());
-    console.log('Search params:', Object.fromEntries(url.searchParams.entries()));
-    
-    // Try to get filename from query parameters first
-    let filename = url.searchParams.get('filename');
-    console.log('Filename from query params:', filename);
-    
-    // If not found in query, try to extract from the URL path
-    if (!filename) {
-      const pathParts = url.pathname.split('/');
-      console.log('Path parts:', pathParts);
-      
-      filename = pathParts[pathParts.length - 1];
-      console.log('Filename from path:', filename);
-      
-      // If the last path segment is 'file', there's no filename in the path
-      if (filename === 'file') {
-        filename = null;
-      }
-    }
-    
-    if (!filename) {
-      console.log('No filename found');
-      return NextResponse.json({
-        error: 'Filename is required',
-        message: 'No filename found in path or query parameters'
-      }, { status: 400 });
-    }
 
-    console.log('Looking for blob file:', filename);
+    const t = getRequestTranslator(request);
 
-    try {
-      // First, try to get file metadata from Blob Storage
-      const { blobs } = await list({
-        prefix: filename,
-        limit: 1
-      });
+    const auth = authorizeRequest(url, 'read', t);
+    if ('response' in auth) return auth.response;
 
-      console.log('Blob search results:', blobs);
-
-      if (blobs.length === 0) {
-        // If exact match not found, try to list all files for debugging
-        console.log('Exact match not found, listing all files...');
-        
-        try {
-          const { blobs: allBlobs } = await list({ limit: 100 });
-          console.log('All blobs in storage:', allBlobs.map(b => b.pathname));
-          
-          // Try to find a partial match
-          const partialMatch = allBlobs.find(blob => 
-            blob.pathname.includes(filename!) || filename!.includes(blob.pathname)
-          );
-          
-          if (partialMatch) {
-            console.log('Found partial match:', partialMatch.pathname);
-            filename = partialMatch.pathname;
-          } else {
-            return NextResponse.json({
-              error: 'File not found in Blob Storage',
-              filename: filename,
-              availableFiles: allBlobs.map(b => b.pathname).slice(0, 10) // Show first 10 files
-            }, { status: 404 });
-          }
-        } catch (listError) {
-          console.error('Error listing blobs:', listError);
-          return NextResponse.json({
-            error: 'File not found and could not list available files',
-            filename: filename,
-            details: listError instanceof Error ? listError.message : String(listError)
-          }, { status: 404 });
-        }
-      } else {
-        // Use the exact match
-        filename = blobs[0].pathname;
-        console.log('Using exact match:', filename);
-      }
-
-      // Get file metadata
-      const blobInfo = await head(filename);
-      console.log('Blob info:', {
-        url: blobInfo.url,
-        size: blobInfo.size,
-        contentType: blobInfo.contentType,
-        pathname: blobInfo.pathname
-      });
+    const { pathname, expiresAt } = auth.token;
+    const storage = getStorage();
 
-      // Determine content type
-      let contentType = blobInfo.contentType || 'application/octet-stream';
-      
-      // If content type is not set, determine from filename
-      if (contentType === 'application/octet-stream') {
-        const extension = filename.split('.').pop()?.toLowerCase();
-        console.log('File extension:', extension);
-        
-        switch (extension) {
-          case 'mp4': contentType = 'video/mp4'; break;
-          case 'webm': contentType = 'video/webm'; break;
-          case 'mov': contentType = 'video/quicktime'; break;
-          case 'avi': contentType = 'video/x-msvideo'; break;
-          case 'mkv': contentType = 'video/x-matroska'; break;
-          default: contentType = 'video/mp4'; // Default to mp4
-        }
-      }
-      
-      console.log('Final content type:', contentType);
-
-      // Check if client wants range requests (for video streaming)
-      const range = request.headers.get('range');
-      console.log('Range header:', range);
-
-      if (range && blobInfo.size) {
-        // Handle range requests for video streaming
-        const parts = range.replace(/bytes=/, '').split('-');
-        const start = parseInt(parts[0], 10);
-        const end = parts[1] ? parseInt(parts[1], 10) : blobInfo.size - 1;
-        const chunkSize = end - start + 1;
-        
-        console.log(`Streaming range: ${start}-${end}/${blobInfo.size}`);
-        
-        // For range requests, we need to fetch the blob and slice it
-        // Note: This is not the most efficient for large files
-        // For production, consider using a CDN or direct blob URL
-        
-        try {
-          const response = await fetch(blobInfo.url, {
-            headers: {
-              'Range': `bytes=${start}-${end}`
-            }
-          });
-
-          if (response.status === 206 || response.status === 200) {
-            const headers = {
-              'Content-Range': `bytes ${start}-${end}/${blobInfo.size}`,
-              'Accept-Ranges': 'bytes',
-              'Content-Length': chunkSize.toString(),
-              'Content-Type': contentType,
-              'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
-            };
-
-            return new NextResponse(response.body, {
-              status: 206,
-              headers: headers,
-            });
-          } else {
-            throw new Error(`Failed to fetch range from blob: ${response.status}`);
-          }
-        } catch (rangeError) {
-          console.error('Error handling range request:', rangeError);
-          // Fallback to full file if range request fails
-        }
-      }
-
-      // For non-range requests or when range request fails
-      // Redirect to the blob URL directly (most efficient)
-      const shouldRedirect = url.searchParams.get('redirect') !== 'false';
-      
-      if (shouldRedirect) {
-        console.log('Redirecting to blob URL:', blobInfo.url);
-        return NextResponse.redirect(blobInfo.url, 302);
-      } else {
-        // Proxy the file through our API (less efficient but more control)
-        console.log('Proxying file through API');
-        
-        const blobResponse = await fetch(blobInfo.url);
-        
-        if (!blobResponse.ok) {
-          throw new Error(`Failed to fetch blob: ${blobResponse.status} ${blobResponse.statusText}`);
-        }
-
-        const headers = {
-          'Content-Type': contentType,
-          'Content-Length': blobInfo.size?.toString() || '',
-          'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
-          'Content-Disposition': `inline; filename="${filename}"`,
-        };
-
-        return new NextResponse(blobResponse.body, {
-          status: 200,
-          headers: headers,
-        });
-      }
-
-    } catch (blobError) {
-      console.error('Error accessing blob:', blobError);
-      
-      // Try to list available files for debugging
-      try {
-        const { blobs } = await list({ limit: 10 });
-        return NextResponse.json({
-          error: 'Error accessing blob file',
-          filename: filename,
-          details: blobError instanceof Error ? blobError.message : String(blobError),
-          availableFiles: blobs.map(b => b.pathname)
-        }, { status: 500 });
-      } catch (listError) {
-        return NextResponse.json({
-          error: 'Error accessing blob file and could not list files',
-          filename: filename,
-          details: blobError instanceof Error ? blobError.message : String(blobError)
-        }, { status: 500 });
-      }
+    // Get file metadata
+    const fileInfo: StoredFile | null = await storage.head(pathname);
+    if (!fileInfo) {
+      return respondError({
+        error: 'File not found',
+        message: t('api.file.notFound')
+      }, 404);
     }
 
+    // Least recently accessed files are evicted first when storage is over quota
+    recordFileAccess(pathname);
+
+    return await serveFile(request, storage, fileInfo, {
+      redirect: url.searchParams.get('redirect') !== 'false',
+      attachment: url.searchParams.get('download') === '1',
+      expiresAt,
+    });
+
   } catch (error) {
-    console.error('Error serving video from blob:', error);
-    return NextResponse.json({
-      error: 'Failed to serve video file from Blob Storage',
+    console.error('Error serving video from storage:', error);
+    return respondError({
+      error: 'Failed to serve video file from storage',
       details: error instanceof Error ? error.message : String(error)
-    }, { status: 500 });
+    }, 500);
+  }
+}
+
+/**
+ * HEAD requests share the GET lookup, serveFile drops the body
+ * - Error bodies are dropped too, only the status is kept
+ */
+export async function HEAD(request: NextRequest) {
+  const response = await GET(request);
+
+  if (response.body) {
+    return new NextResponse(null, { status: response.status, headers: response.headers });
   }
+
+  return response;
 }
 
 /**
- * Handle DELETE requests to remove files from Blob Storage
+ * Handle DELETE requests to remove files from storage
+ * - Requires the signed delete capability issued with the job that created the file
+ * - Drops the download cache entries that pointed at the file
  */
 export async function DELETE(request: NextRequest) {
   try {
     const url = new URL(request.url);
-    const filename = url.searchParams.get('filename');
-    
-    if (!filename) {
-      return NextResponse.json({
-        error: 'Filename is required for deletion'
-      }, { status: 400 });
-    }
 
-    console.log('Attempting to delete blob:', filename);
+    const t = getRequestTranslator(request);
+
+    const auth = authorizeRequest(url, 'delete', t);
+    if ('response' in auth) return auth.response;
 
-    // Import del method dynamically
-    const { del } = await import('@vercel/blob');
-    
-    await del(filename);
-    
-    console.log('Successfully deleted blob:', filename);
-    
-    return NextResponse.json({
+    const { pathname, jobId } = auth.token;
+    const storage = getStorage();
+    console.log(`Deleting file of job ${jobId} from ${storage.name} storage:`, pathname);
+
+    await storage.delete(pathname);
+    invalidateCachedFile(pathname);
+    forgetFileAccess(pathname);
+
+    console.log('Successfully deleted file:', pathname);
+
+    return respond(deleteFileResponseSchema, {
       success: true,
-      message: 'File deleted successfully',
-      filename: filename
+      message: t('api.file.deleted')
     });
 
   } catch (error) {
-    console.error('Error deleting blob:', error);
-    return NextResponse.json({
+    console.error('Error deleting file:', error);
+    return respondError({
       error: 'Failed to delete file',
       details: error instanceof Error ? error.message : String(error)
-    }, { status: 500 });
+    }, 500);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { errorResponseSchema, parse } from '@/lib/api';
+import { FakeObjectStore, startFakeObjectStore } from './__fixtures__/fake-object-store';
+
+const PATHNAME = '1700000000000_video.mp4';
+const KEY = `tubechain/${PATHNAME}`;
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+let store: FakeObjectStore;
+let route: typeof import('./route');
+let links: import('@/lib/signing').SignedFileLinks;
+
+function get(url: string, headers?: Record<string, string>) {
+  return route.GET(new NextRequest(new URL(url, 'http://localhost'), { headers }));
+}
+
+beforeAll(async () => {
+  store = await startFakeObjectStore();
+  store.objects.set(KEY, { body: CONTENT, contentType: 'video/mp4', uploadedAt: new Date('2024-01-01T00:00:00Z') });
+
+  // Read when the storage and signing modules load
+  process.env.STORAGE_BACKEND = 'vercel-blob';
+  process.env.BLOB_READ_WRITE_TOKEN = 'vercel_blob_rw_store_secret';
+  process.env.VERCEL_BLOB_API_URL = store.url;
+  process.env.FILE_SIGNING_SECRET = 'file-route-test-secret';
+
+  route = await import('./route');
+  const { createFileLinks } = await import('@/lib/signing');
+  links = createFileLinks(PATHNAME, 'job-1');
+});
+
+beforeEach(() => {
+  store.reads = [];
+  store.ignoreRange = false;
+});
+
+afterAll(async () => {
+  await store.close();
+});
+
+describe('GET /api/file on Vercel Blob', () => {
+  it('proxies the full file, blob URLs are never handed out', async () => {
+    const response = await get(links.url);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Location')).toBeNull();
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(CONTENT);
+    expect(store.reads).toEqual([{ key: KEY, range: undefined }]);
+  });
+
+  it('reads one range, or each part of a multipart response, from the store', async () => {
+    const single = await get(links.url, { Range: 'bytes=10-19' });
+    expect(single.status).toBe(206);
+    expect(await single.text()).toBe('abcdefghij');
+
+    const multipart = await get(links.url, { Range: 'bytes=0-1, 34-' });
+    const body = await multipart.text();
+    expect(body).toContain(`Content-Range: bytes 0-1/${CONTENT.length}\r\n\r\n01\r\n`);
+    expect(body).toContain(`Content-Range: bytes 34-35/${CONTENT.length}\r\n\r\nyz\r\n`);
+
+    expect(store.reads.map(read => read.range)).toEqual(['bytes=10-19', 'bytes=0-1', 'bytes=34-35']);
+  });
+
+  it('fails instead of sending the whole blob as a range when the store ignores Range', async () => {
+    store.ignoreRange = true;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await get(links.url, { Range: 'bytes=10-19' });
+
+    expect(response.status).toBe(500);
+    const body = parse(errorResponseSchema, await response.json(), 'GET /api/file');
+    expect(body.details).toMatch(/ignored range request/);
+  });
+});
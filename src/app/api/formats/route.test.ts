@@ -0,0 +1,40 @@
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { errorResponseSchema, formatsResponseSchema, parse } from '@/lib/api';
+
+const FAKE_YTDLP = path.join(process.cwd(), 'src/lib/downloader/__fixtures__/fake-yt-dlp.mjs');
+
+let route: typeof import('./route');
+
+function get(query: string) {
+  return route.GET(new NextRequest(`http://localhost/api/formats${query}`, { headers: { 'Accept-Language': 'en' } }));
+}
+
+beforeAll(async () => {
+  // YTDLP_PATH is read when '@/lib/ytdlp' loads
+  process.env.YTDLP_PATH = FAKE_YTDLP;
+  route = await import('./route');
+});
+
+describe('GET /api/formats', () => {
+  it('lists the formats of a video with the presets', async () => {
+    const response = await get(`?url=${encodeURIComponent('https://youtu.be/dQw4w9WgXcQ')}`);
+
+    expect(response.status).toBe(200);
+    const body = parse(formatsResponseSchema, await response.json(), 'GET /api/formats');
+    expect(body.videoId).toBe('dQw4w9WgXcQ');
+    expect(body.formats.map(format => [format.formatId, format.kind])).toEqual([['137', 'video'], ['140', 'audio']]);
+    expect(body.presets.map(preset => preset.id)).toEqual(['best', 'smallest']);
+  });
+
+  it('answers missing and unsupported URLs with the error contract', async () => {
+    const missing = await get('');
+    expect(missing.status).toBe(400);
+    parse(errorResponseSchema, await missing.json(), 'GET /api/formats');
+
+    const unsupported = await get(`?url=${encodeURIComponent('https://example.com/video')}`);
+    expect(unsupported.status).toBe(400);
+    parse(errorResponseSchema, await unsupported.json(), 'GET /api/formats');
+  });
+});
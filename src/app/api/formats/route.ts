@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { formatsResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { toFormatList, FORMAT_PRESETS } from '@/lib/formats';
+import { getVideoMetadata } from '@/lib/ytdlp';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { checkVideoUrl, describeUrlError } from '@/lib/urls';
+
+/**
+ * Lists the available video and audio formats for a video URL of any supported site
+ * - Uses yt-dlp metadata, nothing is downloaded
+ * - Each format carries the selector to send back to POST /api/download
+ */
+export async function GET(request: NextRequest) {
+  const input = request.nextUrl.searchParams.get('url');
+  const t = getRequestTranslator(request);
+
+  if (!input) {
+    return respondError({
+      error: 'URL is required',
+      message: t('api.urlRequired')
+    }, 400);
+  }
+
+  const check = checkVideoUrl(input);
+  if (!check.valid) {
+    return respondError({
+      error: 'Invalid URL',
+      message: describeUrlError(check, t)
+    }, 400);
+  }
+  const { url } = check.video;
+
+  try {
+    console.log(`Listing formats for: ${url}`);
+    const formatList = toFormatList(await getVideoMetadata(url));
+
+    return respond(formatsResponseSchema, {
+      success: true,
+      ...formatList,
+      presets: [...FORMAT_PRESETS]
+    });
+  } catch (error) {
+    console.error('Error listing formats:', error);
+
+    return respondError({
+      error: 'Format lookup failed',
+      message: error instanceof Error ? error.message : t('errors.unknown')
+    }, 502);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { errorResponseSchema, infoResponseSchema, parse } from '@/lib/api';
+import type { VideoDetails } from '@/lib/innertube';
+import { GET } from './route';
+
+const DETAILS: VideoDetails = {
+  videoId: 'dQw4w9WgXcQ',
+  title: 'Fake video',
+  author: 'Fake Channel',
+  duration: 212,
+  thumbnail: null,
+  viewCount: 42,
+  uploadDate: '2024-01-01T00:00:00.000Z',
+  description: '',
+  isLive: false,
+  scheduledStart: null,
+  downloadable: true,
+  unavailableReason: null,
+  unavailableMessage: null,
+};
+
+// YouTube's internal API is not reachable from the tests
+vi.mock('@/lib/innertube', () => ({
+  getVideoDetails: async (videoId: string) => videoId === DETAILS.videoId ? DETAILS : null,
+}));
+
+function get(url: string) {
+  return GET(new NextRequest(`http://localhost/api/info?url=${encodeURIComponent(url)}`, { headers: { 'Accept-Language': 'en' } }));
+}
+
+describe('GET /api/info', () => {
+  it('sends the details of a YouTube video', async () => {
+    const response = await get('https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+
+    expect(response.status).toBe(200);
+    expect(parse(infoResponseSchema, await response.json(), 'GET /api/info').video).toEqual(DETAILS);
+  });
+
+  it('answers unknown videos and other sites with the error contract', async () => {
+    const missing = await get('https://www.youtube.com/watch?v=aaaaaaaaaaa');
+    expect(missing.status).toBe(404);
+    parse(errorResponseSchema, await missing.json(), 'GET /api/info');
+
+    const otherSite = await get('https://vimeo.com/76979871');
+    expect(otherSite.status).toBe(422);
+    parse(errorResponseSchema, await otherSite.json(), 'GET /api/info');
+  });
+});
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { infoResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { getVideoDetails } from '@/lib/innertube';
+import { checkVideoUrl, describeUrlError } from '@/lib/urls';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+/**
+ * Returns the details of a YouTube video before downloading it
+ * - Title, author, duration, thumbnail, views, upload date and description
+ * - Tells whether the video can be downloaded (not private, age-gated or upcoming), and whether it is live
+ * - Uses YouTube's internal API through youtubei.js, nothing is downloaded
+ * - Videos of the other supported sites have no preview (422), they are downloaded directly
+ */
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get('url');
+  const t = getRequestTranslator(request);
+
+  if (!url) {
+    return respondError({
+      error: 'URL is required',
+      message: t('api.urlRequired')
+    }, 400);
+  }
+
+  const check = checkVideoUrl(url);
+  if (!check.valid) {
+    return respondError({
+      error: 'Invalid URL',
+      message: describeUrlError(check, t)
+    }, 400);
+  }
+
+  const { site, videoId } = check.video;
+  if (site !== 'youtube') {
+    return respondError({
+      error: 'Preview Not Available',
+      message: t('api.info.youtubeOnly')
+    }, 422);
+  }
+
+  try {
+    console.log(`Looking up video info for: ${videoId}`);
+    const video = await getVideoDetails(videoId);
+
+    if (!video) {
+      return respondError({
+        error: 'Video not found',
+        message: t('api.info.notFound')
+      }, 404);
+    }
+
+    return respond(infoResponseSchema, {
+      success: true,
+      video
+    });
+  } catch (error) {
+    console.error('Error looking up video info:', error);
+
+    return respondError({
+      error: 'Info lookup failed',
+      message: error instanceof Error ? error.message : t('errors.unknown')
+    }, 502);
+  }
+}
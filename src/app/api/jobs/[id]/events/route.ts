@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { respondError } from '@/lib/api/server';
+import { getJob, isTerminalPhase, localizeJob, subscribeToJob, Job } from '@/lib/jobs';
+import { getRequestLocale, getRequestTranslator } from '@/lib/i18n/server';
+
+// Keeps proxies from closing idle connections while the backend is working
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Streams job updates as Server-Sent Events
+ * - Sends the current state first, then every change
+ * - Closes the stream once the job is done or failed
+ * - Error messages are in the language of the request
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!getJob(id)) {
+    return respondError({
+      error: 'Job not found',
+      message: getRequestTranslator(request)('api.job.notFound', { id })
+    }, 404);
+  }
+
+  const locale = getRequestLocale(request);
+  const encoder = new TextEncoder();
+  // Set once the stream is closed by us or cancelled by the client, nothing is written after that
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = (job: Job) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(localizeJob(job, locale))}\n\n`));
+        if (isTerminalPhase(job.phase)) close();
+      };
+
+      const unsubscribe = subscribeToJob(id, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', close);
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      // The job may have changed (or finished) between the lookup and the subscription
+      const current = getJob(id);
+      if (current) send(current);
+      else close();
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
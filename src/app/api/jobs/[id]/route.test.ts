@@ -0,0 +1,107 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { errorResponseSchema, jobResponseSchema, jobSchema, parse } from '@/lib/api';
+import { limitExceededError } from '@/lib/downloader';
+import { createJob, updateJob } from '@/lib/jobs';
+import { toJobError } from '@/lib/jobs/download-job';
+import { createFileLinks } from '@/lib/signing';
+
+const VIDEO_URL = 'https://vimeo.com/76979871';
+
+let route: typeof import('./route');
+let events: typeof import('./events/route');
+
+function request(path: string, headers?: Record<string, string>) {
+  return new NextRequest(new URL(path, 'http://localhost'), { headers });
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+/**
+ * Reads the first event of a Server-Sent Events response
+ */
+async function readFirstEvent(response: Response): Promise<unknown> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let text = '';
+  while (!text.includes('\n\n')) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+  }
+  await reader.cancel();
+  return JSON.parse(text.slice(text.indexOf('data: ') + 6, text.indexOf('\n\n')));
+}
+
+function finishedJob() {
+  const job = createJob(VIDEO_URL);
+  const file = { filename: '1700000000000_video.mp4', originalFilename: 'video.mp4', size: 5, contentType: 'video/mp4', ...createFileLinks('1700000000000_video.mp4', job.id) };
+  return updateJob(job.id, {
+    phase: 'done',
+    bytesTransferred: 5,
+    totalBytes: 5,
+    result: {
+      videoInfo: { title: 'Video', duration: 60, quality: '720p', author: 'Channel', viewCount: 0, fileSize: 5, chapters: [] },
+      file,
+      downloadUrl: file.downloadUrl,
+    },
+  })!;
+}
+
+function failedJob() {
+  const job = createJob(VIDEO_URL);
+  return updateJob(job.id, { phase: 'failed', error: toJobError(limitExceededError('duration', 7200, 600)) })!;
+}
+
+beforeAll(async () => {
+  process.env.FILE_SIGNING_SECRET = 'jobs-route-test-secret';
+  route = await import('./route');
+  events = await import('./events/route');
+});
+
+describe('GET /api/jobs/:id', () => {
+  it('sends finished jobs in the contract', async () => {
+    const job = finishedJob();
+    const response = await route.GET(request(`/api/jobs/${job.id}`), params(job.id));
+
+    const body = parse(jobResponseSchema, await response.json(), 'GET /api/jobs/:id');
+    expect(body.job.phase).toBe('done');
+    expect(body.job.result?.file.deleteUrl).toBe(job.result?.file.deleteUrl);
+  });
+
+  it('sends failed jobs in the contract, their message in the language of the request', async () => {
+    const job = failedJob();
+    const response = await route.GET(request(`/api/jobs/${job.id}`, { 'Accept-Language': 'es' }), params(job.id));
+
+    const body = parse(jobResponseSchema, await response.json(), 'GET /api/jobs/:id');
+    expect(body.job.error?.code).toBe('too-large');
+    expect(body.job.error?.message).toBe('El video es demasiado largo (2:00:00), el límite es 10:00');
+  });
+
+  it('answers unknown jobs with the error contract', async () => {
+    const response = await route.GET(request('/api/jobs/missing'), params('missing'));
+
+    expect(response.status).toBe(404);
+    parse(errorResponseSchema, await response.json(), 'GET /api/jobs/:id');
+  });
+});
+
+describe('GET /api/jobs/:id/events', () => {
+  it('streams job snapshots in the contract', async () => {
+    const job = failedJob();
+    const response = await events.GET(request(`/api/jobs/${job.id}/events`, { 'Accept-Language': 'en' }), params(job.id));
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const snapshot = parse(jobSchema, await readFirstEvent(response), 'job event');
+    expect(snapshot.phase).toBe('failed');
+    expect(snapshot.error?.message).toBe('The video is too long (2:00:00), the limit is 10:00');
+  });
+
+  it('answers unknown jobs with the error contract', async () => {
+    const response = await events.GET(request('/api/jobs/missing/events'), params('missing'));
+
+    expect(response.status).toBe(404);
+    parse(errorResponseSchema, await response.json(), 'GET /api/jobs/:id/events');
+  });
+});
@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { jobResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { getJob, localizeJob } from '@/lib/jobs';
+import { getRequestLocale, getRequestTranslator } from '@/lib/i18n/server';
+
+/**
+ * Returns the current state of a download job
+ * - Error messages are in the language of the request
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return respondError({
+      error: 'Job not found',
+      message: getRequestTranslator(request)('api.job.notFound', { id })
+    }, 404);
+  }
+
+  return respond(jobResponseSchema, { success: true, job: localizeJob(job, getRequestLocale(request)) });
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { jobResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { getJob, stopRecording } from '@/lib/jobs';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+/**
+ * Stops a live recording on demand
+ * - The part recorded so far is processed and stored, the job then finishes as usual
+ * - Returns 409 when the job is not recording
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const t = getRequestTranslator(request);
+
+  const job = getJob(id);
+  if (!job) {
+    return respondError({
+      error: 'Job not found',
+      message: t('api.job.notFound', { id })
+    }, 404);
+  }
+
+  if (!stopRecording(id)) {
+    return respondError({
+      error: 'Not Recording',
+      message: t('api.job.notRecording')
+    }, 409);
+  }
+
+  return respond(jobResponseSchema, { success: true, job: getJob(id) ?? job });
+}
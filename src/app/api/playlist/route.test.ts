@@ -0,0 +1,36 @@
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { errorResponseSchema, parse, playlistResponseSchema } from '@/lib/api';
+
+const FAKE_YTDLP = path.join(process.cwd(), 'src/lib/downloader/__fixtures__/fake-yt-dlp.mjs');
+
+let route: typeof import('./route');
+
+function get(query: string) {
+  return route.GET(new NextRequest(`http://localhost/api/playlist${query}`, { headers: { 'Accept-Language': 'en' } }));
+}
+
+beforeAll(async () => {
+  // YTDLP_PATH is read when '@/lib/ytdlp' loads
+  process.env.YTDLP_PATH = FAKE_YTDLP;
+  route = await import('./route');
+});
+
+describe('GET /api/playlist', () => {
+  it('lists the entries of a playlist', async () => {
+    const response = await get(`?url=${encodeURIComponent('https://www.youtube.com/playlist?list=PLfake')}`);
+
+    expect(response.status).toBe(200);
+    const body = parse(playlistResponseSchema, await response.json(), 'GET /api/playlist');
+    expect(body).toMatchObject({ id: 'PLfake', type: 'playlist', title: 'Fake playlist', truncated: false });
+    expect(body.entries.map(entry => entry.unavailable)).toEqual([false, true]);
+  });
+
+  it('answers URLs that are not a playlist or channel with the error contract', async () => {
+    const response = await get(`?url=${encodeURIComponent('https://www.youtube.com/watch?v=dQw4w9WgXcQ')}`);
+
+    expect(response.status).toBe(400);
+    parse(errorResponseSchema, await response.json(), 'GET /api/playlist');
+  });
+});
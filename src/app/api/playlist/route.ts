@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { playlistResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { getCollectionType } from '@/lib/playlists';
+import { getPlaylist } from '@/lib/ytdlp';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+/**
+ * Lists the entries of a YouTube playlist or channel
+ * - Titles and durations only, nothing is downloaded
+ * - Entries can then be sent to POST /api/batch
+ */
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get('url');
+  const t = getRequestTranslator(request);
+
+  if (!url) {
+    return respondError({
+      error: 'URL is required',
+      message: t('api.playlist.urlRequired')
+    }, 400);
+  }
+
+  if (!getCollectionType(url)) {
+    return respondError({
+      error: 'Invalid URL',
+      message: t('api.playlist.urlRequired')
+    }, 400);
+  }
+
+  try {
+    console.log(`Listing playlist entries for: ${url}`);
+    const playlist = await getPlaylist(url);
+
+    return respond(playlistResponseSchema, { success: true, ...playlist });
+  } catch (error) {
+    console.error('Error listing playlist:', error);
+
+    return respondError({
+      error: 'Playlist lookup failed',
+      message: error instanceof Error ? error.message : t('errors.unknown')
+    }, 502);
+  }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { errorResponseSchema, parse, retentionResponseSchema, sweepResponseSchema } from '@/lib/api';
+
+const ADMIN_TOKEN = 'retention-test-token';
+
+let workDir: string;
+let route: typeof import('./route');
+
+function request(method: string, token?: string, body?: unknown) {
+  return new NextRequest('http://localhost/api/retention', {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  // Read when the storage and sweeper modules load
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tubechain-retention-route-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = path.join(workDir, 'storage');
+  process.env.RETENTION_REPORT_DIR = path.join(workDir, 'reports');
+  process.env.RETENTION_QUOTA = '1KB';
+
+  fs.mkdirSync(process.env.LOCAL_STORAGE_DIR);
+  fs.writeFileSync(path.join(process.env.LOCAL_STORAGE_DIR, '1700000000000_video.mp4'), Buffer.alloc(2048));
+
+  route = await import('./route');
+});
+
+afterAll(() => {
+  delete process.env.RETENTION_ADMIN_TOKEN;
+  delete process.env.RETENTION_QUOTA;
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('/api/retention', () => {
+  it('is disabled without an admin token, and requires it once set', async () => {
+    const disabled = await route.GET(request('GET'));
+    expect(disabled.status).toBe(404);
+    parse(errorResponseSchema, await disabled.json(), 'GET /api/retention');
+
+    process.env.RETENTION_ADMIN_TOKEN = ADMIN_TOKEN;
+    const unauthorized = await route.GET(request('GET', 'wrong'));
+    expect(unauthorized.status).toBe(401);
+    parse(errorResponseSchema, await unauthorized.json(), 'GET /api/retention');
+  });
+
+  it('runs a dry-run sweep and lists its report', async () => {
+    process.env.RETENTION_ADMIN_TOKEN = ADMIN_TOKEN;
+
+    const sweep = await route.POST(request('POST', ADMIN_TOKEN, { dryRun: true }));
+    expect(sweep.status).toBe(200);
+    const { report } = parse(sweepResponseSchema, await sweep.json(), 'POST /api/retention');
+    expect(report.dryRun).toBe(true);
+    expect(report.removed.filter(file => file.target === 'storage')).toMatchObject([{ target: 'storage', pathname: '1700000000000_video.mp4', reason: 'quota' }]);
+    expect(fs.existsSync(path.join(workDir, 'storage', '1700000000000_video.mp4'))).toBe(true);
+
+    const status = await route.GET(request('GET', ADMIN_TOKEN));
+    const body = parse(retentionResponseSchema, await status.json(), 'GET /api/retention');
+    expect(body.policy.quotaBytes).toBe(1024);
+    expect(body.reports[0].startedAt).toBe(report.startedAt);
+  });
+});
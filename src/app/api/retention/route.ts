@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { retentionResponseSchema, sweepResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { getRetentionPolicy, getSweepReports, sweepStorage } from '@/lib/retention';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+/**
+ * Checks the admin bearer token
+ * - The route is disabled (404) while RETENTION_ADMIN_TOKEN is not set
+ * @returns The error response to send, or null when authorized
+ */
+function authorize(request: NextRequest): NextResponse | null {
+  const adminToken = process.env.RETENTION_ADMIN_TOKEN;
+  const t = getRequestTranslator(request);
+
+  if (!adminToken) {
+    return respondError({
+      error: 'Not Found',
+      message: t('api.retention.disabled')
+    }, 404);
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${adminToken}`) {
+    return respondError({
+      error: 'Unauthorized',
+      message: t('api.retention.unauthorized')
+    }, 401);
+  }
+
+  return null;
+}
+
+/**
+ * Handles GET requests for the retention policy and the latest sweep reports
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  return respond(retentionResponseSchema, {
+    success: true,
+    policy: getRetentionPolicy(),
+    reports: getSweepReports()
+  });
+}
+
+/**
+ * Handles POST requests to run a sweep now
+ * - { "dryRun": true } reports what would be removed without removing it
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const dryRun = typeof body.dryRun === 'boolean' ? body.dryRun : undefined;
+
+    const report = await sweepStorage({ dryRun, trigger: 'manual' });
+
+    return respond(sweepResponseSchema, {
+      success: true,
+      report
+    });
+
+  } catch (error) {
+    console.error('Error running retention sweep:', error);
+
+    return respondError({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : getRequestTranslator(request)('errors.unknown')
+    }, 500);
+  }
+}
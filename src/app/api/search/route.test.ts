@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { errorResponseSchema, parse, searchResponseSchema } from '@/lib/api';
+import type { SearchPage } from '@/lib/innertube';
+import { GET } from './route';
+
+const PAGE: SearchPage = {
+  query: 'fake',
+  results: [{
+    videoId: 'dQw4w9WgXcQ',
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    title: 'Fake video',
+    channel: 'Fake Channel',
+    duration: 212,
+    thumbnail: null,
+    isLive: false,
+  }],
+  nextPageToken: 'next',
+};
+
+// YouTube's internal API is not reachable from the tests
+vi.mock('@/lib/innertube', () => ({
+  searchVideos: async (query: string, pageToken?: string | null) => pageToken === 'expired' ? null : { ...PAGE, query },
+}));
+
+function get(query: string) {
+  return GET(new NextRequest(`http://localhost/api/search?${query}`, { headers: { 'Accept-Language': 'en' } }));
+}
+
+describe('GET /api/search', () => {
+  it('sends one page of results', async () => {
+    const response = await get('q=fake');
+
+    expect(response.status).toBe(200);
+    expect(parse(searchResponseSchema, await response.json(), 'GET /api/search')).toEqual({ success: true, ...PAGE });
+  });
+
+  it('answers missing queries and expired pages with the error contract', async () => {
+    const missing = await get('q=%20');
+    expect(missing.status).toBe(400);
+    parse(errorResponseSchema, await missing.json(), 'GET /api/search');
+
+    const expired = await get('q=fake&pageToken=expired');
+    expect(expired.status).toBe(410);
+    parse(errorResponseSchema, await expired.json(), 'GET /api/search');
+  });
+});
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { searchResponseSchema } from '@/lib/api';
+import { respond, respondError } from '@/lib/api/server';
+import { searchVideos } from '@/lib/innertube';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+// Longest query accepted, YouTube ignores the rest anyway
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Searches YouTube videos by keywords
+ * - Returns one page of results (thumbnail, title, channel, duration)
+ * - Send nextPageToken back, with the same q, to get the following page
+ * - Uses YouTube's internal API through youtubei.js, nothing is downloaded
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q')?.trim();
+  const pageToken = request.nextUrl.searchParams.get('pageToken');
+  const t = getRequestTranslator(request);
+
+  if (!query) {
+    return respondError({
+      error: 'Query is required',
+      message: t('api.search.queryRequired')
+    }, 400);
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return respondError({
+      error: 'Invalid query',
+      message: t('api.search.queryTooLong', { max: MAX_QUERY_LENGTH })
+    }, 400);
+  }
+
+  try {
+    console.log(`Searching videos for: ${query}${pageToken ? ' (next page)' : ''}`);
+    const page = await searchVideos(query, pageToken);
+
+    if (!page) {
+      return respondError({
+        error: 'Invalid page token',
+        message: t('api.search.expired')
+      }, 410);
+    }
+
+    return respond(searchResponseSchema, {
+      success: true,
+      ...page
+    });
+  } catch (error) {
+    console.error('Error searching videos:', error);
+
+    return respondError({
+      error: 'Search failed',
+      message: error instanceof Error ? error.message : t('errors.unknown')
+    }, 502);
+  }
+}
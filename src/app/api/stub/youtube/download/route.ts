@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { getStubBackendConfig, handleStubDownload } from '@/lib/stub-backend';
+
+/**
+ * Stub of the NestJS backend's download endpoint, for offline development and demos
+ * - Only served with STUB_BACKEND=true, answers 404 like an unknown route otherwise
+ * - Same contract as the real backend: { url, format } in, the video stream out with X-Video-Info and Content-Disposition
+ */
+export async function POST(request: NextRequest) {
+  if (!getStubBackendConfig().enabled) {
+    return new Response(null, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => null);
+  return handleStubDownload(body);
+}
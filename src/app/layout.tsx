@@ -2,6 +2,10 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import Navbar from "@/components/NavBar";
+import { DownloadProvider } from "@/hooks/useYoutube";
+import { I18nProvider } from "@/hooks/useI18n";
+import { createTranslator } from "@/lib/i18n";
+import { getServerLocale } from "@/lib/i18n/server";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,23 +17,32 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "TubeChain",
-  description: "Descarga vídeos de YouTube con facilidad",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getServerLocale());
+  return {
+    title: "TubeChain",
+    description: t('meta.description'),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getServerLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <Navbar />
-        {children}
+        <I18nProvider initialLocale={locale}>
+          <DownloadProvider>
+            <Navbar />
+            {children}
+          </DownloadProvider>
+        </I18nProvider>
       </body>
     </html>
   );
@@ -1,18 +1,35 @@
 "use client";
 
-import useYoutube from "@/hooks/useYoutube";
+import useYoutube, { detailsToVideoInfo } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
 import LoadSpinner from "@/components/LoadSpinner";
 import VideoResult from "@/components/VideoResult";
+import PlaylistResult from "@/components/PlaylistResult";
 import SearchBox from "@/components/SearchBox";
 import ErrorMessage from "@/components/ErrorMessage";
 import Header from "@/components/Header";
+import DownloadHistory from "@/components/DownloadHistory";
+import DownloadSessions from "@/components/DownloadSessions";
+import SearchResults from "@/components/SearchResults";
 
 export default function Home() {
   const {
     isLoading,
     videoInfo,
+    videoDetails,
+    searchResults,
     error,
+    errorCode,
+    retrySession,
+    downloadStatus,
+    downloadProgress,
+    jobPhase,
+    queuePosition,
+    recording,
+    stopRecording,
+    playlist,
   } = useYoutube();
+  const { t } = useI18n();
 
   return (
     <main className="min-h-screen bg-slate-50 text-slate-800">
@@ -25,17 +42,32 @@ export default function Home() {
           <SearchBox />
 
           {/* Error Message - Suavizado */}
-          {error && <ErrorMessage error={error} />}
+          {error && <ErrorMessage error={error} code={errorCode} onRetry={retrySession} />}
+
+          {/* Descargas en curso y terminadas, cada una con su estado */}
+          <DownloadSessions />
 
           {/* Loading Indicator - Más elegante */}
-          {isLoading && <LoadSpinner />}
+          {(isLoading || downloadStatus === 'processing') && <LoadSpinner progress={downloadProgress} phase={jobPhase} queuePosition={queuePosition} recording={recording} onStop={stopRecording} />}
 
           {/* Video Result - Diseño minimalista y suave */}
           {videoInfo && <VideoResult videoInfo={videoInfo} />}
 
+          {/* Vista previa - datos del video antes de descargarlo */}
+          {!videoInfo && videoDetails && <VideoResult videoInfo={detailsToVideoInfo(videoDetails)} details={videoDetails} />}
+
+          {/* Resultados de búsqueda por palabras clave */}
+          {searchResults && <div className="mt-6"><SearchResults searchResults={searchResults} /></div>}
+
+          {/* Playlist o canal - selección de entradas y descarga por lotes */}
+          {playlist && <PlaylistResult playlist={playlist} />}
+
+          {/* Historial de descargas guardado en el navegador */}
+          <DownloadHistory />
+
           {/* Footer - Más minimalista */}
           <footer className="mt-12 text-center text-slate-400 text-xs">
-            <p>TubeChain · Máxima calidad</p>
+            <p>TubeChain · {t('footer.tagline')}</p>
           </footer>
         </div>
       </div>
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import Image from "next/image";
+import { Play, Pause, Music } from "lucide-react";
+import useI18n from "@/hooks/useI18n";
+
+interface AudioPreviewProps {
+  audioSource: string;  // URL of the audio file
+  contentType: string;  // MIME type of the audio file
+  thumbnail: string;    // Cover art URL
+  title: string;        // Track title
+  uploader?: string;    // Optional uploader name
+}
+
+const AudioPreview = ({ audioSource, contentType, thumbnail, title, uploader }: AudioPreviewProps) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isError, setIsError] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const { t } = useI18n();
+
+  // Reset state when source changes
+  useEffect(() => {
+    setIsError(false);
+    setIsPlaying(false);
+  }, [audioSource]);
+
+  const handlePlayClick = () => {
+    const audio = audioRef.current;
+    if (!audio || isError) return;
+
+    if (isPlaying) {
+      audio.pause();
+    } else {
+      audio.play().catch(error => {
+        console.error("Play error:", error);
+        setIsError(true);
+      });
+    }
+  };
+
+  return (
+    <div className="relative w-full aspect-video bg-slate-900 overflow-hidden rounded-lg">
+      {/* Cover art */}
+      {thumbnail ? (
+        <Image src={thumbnail} alt={title} width={1280} height={720} className="w-full h-full object-cover opacity-60" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <Music size={48} className="text-white/30" />
+        </div>
+      )}
+
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-4">
+        <button
+          className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors disabled:opacity-50"
+          onClick={handlePlayClick}
+          disabled={isError}
+        >
+          {isPlaying ? <Pause size={32} /> : <Play size={32} />}
+        </button>
+
+        {isError && (
+          <p className="text-white text-sm text-center">
+            {t('preview.audioError')}
+          </p>
+        )}
+      </div>
+
+      {/* Bottom bar with native controls for seeking */}
+      <div className="absolute bottom-0 left-0 right-0 p-3 bg-gradient-to-t from-black/80 to-transparent">
+        <div className="mb-2">
+          <h3 className="text-white font-medium truncate text-center">{title}</h3>
+          {uploader && (
+            <p className="text-white/70 text-xs text-center truncate">{uploader}</p>
+          )}
+        </div>
+        <audio
+          ref={audioRef}
+          className="w-full h-8"
+          controls
+          controlsList="nodownload"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onError={() => setIsError(true)}
+        >
+          <source src={audioSource} type={contentType} />
+          {t('preview.unsupportedAudio')}
+        </audio>
+      </div>
+    </div>
+  );
+};
+
+export default AudioPreview;
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import useYoutube from "@/hooks/useYoutube";
+import useDownloadHistory, { HistoryEntry } from "@/hooks/useDownloadHistory";
+import useI18n from "@/hooks/useI18n";
+import { Check, Download, History, Link2, RefreshCw, Trash2, Youtube } from "lucide-react";
+
+function DownloadHistory() {
+    const {
+        entries,
+        error,
+        notice,
+        deleteEntry,
+        redownloadEntry,
+        copyEntryLink,
+        clearHistory,
+        isExpired,
+        canDelete,
+    } = useDownloadHistory();
+    const { submitDownload, isLoading, formatFileSize } = useYoutube();
+    const { t, formatDate } = useI18n();
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    if (entries.length === 0) return null;
+
+    // Muestra la confirmación de copiado durante un momento
+    const handleCopy = async (entry: HistoryEntry) => {
+        if (await copyEntryLink(entry)) {
+            setCopiedId(entry.id);
+            setTimeout(() => setCopiedId(current => current === entry.id ? null : current), 2000);
+        }
+    };
+
+    // Vuelve a procesar el video con las mismas opciones, el resultado sustituye a la entrada caducada
+    const handleRefetch = (entry: HistoryEntry) => {
+        if (typeof entry.request.url !== 'string') return;
+        void submitDownload({ ...entry.request, url: entry.request.url });
+    };
+
+    const actionClass = "w-8 h-8 rounded-full flex items-center justify-center text-slate-500 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+    return (
+        <section className="mt-10 rounded-xl bg-white overflow-hidden">
+            <div className="flex items-center justify-between px-5 pt-5 pb-3">
+                <h2 className="flex items-center gap-2 text-slate-600 font-medium">
+                    <History size={18} />
+                    {t('history.title')}
+                </h2>
+                <button
+                    onClick={clearHistory}
+                    className="text-xs text-slate-400 hover:text-slate-600 transition-colors"
+                >
+                    {t('history.clear')}
+                </button>
+            </div>
+
+            {error && <p className="px-5 pb-3 text-sm text-red-500">{error}</p>}
+            {notice && <p className="px-5 pb-3 text-sm text-slate-500">{notice}</p>}
+
+            <ul className="divide-y divide-slate-100">
+                {entries.map(entry => {
+                    const expired = isExpired(entry);
+
+                    return (
+                        <li key={entry.id} className="flex items-center gap-3 px-5 py-3">
+                            {entry.thumbnail ? (
+                                <Image
+                                    src={entry.thumbnail}
+                                    alt={entry.title}
+                                    width={160}
+                                    height={90}
+                                    className={`w-20 aspect-video object-cover rounded-md shrink-0 ${expired ? 'opacity-50' : ''}`}
+                                />
+                            ) : (
+                                <div className="w-20 aspect-video rounded-md bg-slate-100 flex items-center justify-center shrink-0">
+                                    <Youtube size={20} className="text-slate-300" />
+                                </div>
+                            )}
+
+                            <div className="min-w-0 flex-grow">
+                                <p className={`text-sm truncate ${expired ? 'text-slate-400' : 'text-slate-700'}`}>{entry.title}</p>
+                                <p className="text-xs text-slate-400 truncate">
+                                    {[entry.format, formatFileSize(entry.size), formatDate(entry.createdAt, true)]
+                                        .filter(Boolean)
+                                        .join(' · ')}
+                                </p>
+                                {expired && (
+                                    <span className="inline-block mt-1 px-2 py-0.5 rounded-full bg-amber-50 text-amber-600 text-xs">
+                                        {t('history.expired')}
+                                    </span>
+                                )}
+                            </div>
+
+                            <div className="flex items-center gap-1 shrink-0">
+                                {expired ? (
+                                    <button
+                                        onClick={() => handleRefetch(entry)}
+                                        disabled={isLoading}
+                                        className={actionClass}
+                                        title={t('history.refetch')}
+                                    >
+                                        <RefreshCw size={16} />
+                                    </button>
+                                ) : (
+                                    <>
+                                        <button
+                                            onClick={() => redownloadEntry(entry)}
+                                            className={actionClass}
+                                            title={t('history.redownload')}
+                                        >
+                                            <Download size={16} />
+                                        </button>
+                                        <button
+                                            onClick={() => handleCopy(entry)}
+                                            className={actionClass}
+                                            title={t('history.copyLink')}
+                                        >
+                                            {copiedId === entry.id ? <Check size={16} className="text-emerald-500" /> : <Link2 size={16} />}
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    onClick={() => deleteEntry(entry)}
+                                    className={actionClass}
+                                    title={canDelete(entry) ? t('history.deleteFile') : t('history.remove')}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+}
+
+export default DownloadHistory;
@@ -0,0 +1,75 @@
+"use client";
+
+import useYoutube, { DownloadSession } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+import type { Translator } from "@/lib/i18n";
+import { phaseLabel } from "./LoadSpinner";
+import { CheckCircle2, Loader2, X, XCircle } from "lucide-react";
+
+// Texto de estado de cada descarga de la lista
+function sessionLabel(t: Translator, session: DownloadSession): string {
+    if (session.status === 'error') return session.error || t('sessions.error');
+    if (session.status === 'processing') return phaseLabel(t, session.phase, session.queuePosition);
+    return session.cached ? t('sessions.readyCached') : t('sessions.ready');
+}
+
+function DownloadSessions() {
+    const { sessions, activeSession, selectSession, dismissSession } = useYoutube();
+    const { t } = useI18n();
+
+    // Una sola descarga se muestra directamente en el resultado
+    if (sessions.length < 2) return null;
+
+    return (
+        <ul className="mb-8 rounded-xl bg-white divide-y divide-slate-100 overflow-hidden">
+            {sessions.map(session => {
+                const isActive = session.id === activeSession?.id;
+                const isProcessing = session.status === 'processing';
+
+                return (
+                    <li
+                        key={session.id}
+                        className={`flex items-center gap-3 px-4 py-3 cursor-pointer transition-colors ${isActive ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+                        onClick={() => selectSession(session.id)}
+                    >
+                        {isProcessing ? (
+                            <Loader2 size={16} className="text-slate-400 animate-spin shrink-0" />
+                        ) : session.status === 'error' ? (
+                            <XCircle size={16} className="text-red-400 shrink-0" />
+                        ) : (
+                            <CheckCircle2 size={16} className="text-emerald-500 shrink-0" />
+                        )}
+
+                        <div className="min-w-0 flex-grow">
+                            <p className="text-sm text-slate-700 truncate">{session.videoInfo?.title || session.url}</p>
+                            <p className={`text-xs truncate ${session.status === 'error' ? 'text-red-400' : 'text-slate-400'}`}>
+                                {sessionLabel(t, session)}
+                            </p>
+                            {isProcessing && session.progress != null && (
+                                <div className="h-1 mt-1.5 bg-slate-200 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-slate-500 rounded-full transition-all duration-300"
+                                        style={{ width: `${session.progress}%` }}
+                                    ></div>
+                                </div>
+                            )}
+                        </div>
+
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                dismissSession(session.id);
+                            }}
+                            className="p-1.5 rounded-full text-slate-400 hover:bg-slate-200 transition-colors shrink-0"
+                            title={t('sessions.dismiss')}
+                        >
+                            <X size={14} />
+                        </button>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
+
+export default DownloadSessions;
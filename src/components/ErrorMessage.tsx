@@ -1,10 +1,61 @@
-function ErrorMessage({ error }: { error: string }) {
+"use client";
+
+import { RETRYABLE_ERRORS } from "@/lib/errors";
+import type { ErrorCode } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
+import { RefreshCw } from "lucide-react";
+
+// Explicación y siguiente paso para cada causa de error conocida
+export const ERROR_EXPLANATIONS: Record<ErrorCode, { title: MessageKey; hint: MessageKey }> = {
+    'private': { title: 'errorCode.private.title', hint: 'errorCode.private.hint' },
+    'age-restricted': { title: 'errorCode.ageRestricted.title', hint: 'errorCode.ageRestricted.hint' },
+    'geo-blocked': { title: 'errorCode.geoBlocked.title', hint: 'errorCode.geoBlocked.hint' },
+    'members-only': { title: 'errorCode.membersOnly.title', hint: 'errorCode.membersOnly.hint' },
+    'removed': { title: 'errorCode.removed.title', hint: 'errorCode.removed.hint' },
+    'live-in-progress': { title: 'errorCode.liveInProgress.title', hint: 'errorCode.liveInProgress.hint' },
+    'premiere': { title: 'errorCode.premiere.title', hint: 'errorCode.premiere.hint' },
+    'too-large': { title: 'errorCode.tooLarge.title', hint: 'errorCode.tooLarge.hint' },
+    'backend-unavailable': { title: 'errorCode.backendUnavailable.title', hint: 'errorCode.backendUnavailable.hint' },
+    'storage-failure': { title: 'errorCode.storageFailure.title', hint: 'errorCode.storageFailure.hint' },
+    'unknown': { title: 'errorCode.unknown.title', hint: 'errorCode.unknown.hint' },
+};
+
+// code: causa clasificada por el servidor, sin ella solo se muestra el mensaje
+function ErrorMessage({ error, code, onRetry }: { error: string; code?: ErrorCode | null; onRetry?: () => void }) {
+    const { t } = useI18n();
+
+    if (!code) {
+        return (
+            <div className="p-3 mb-8 bg-red-50 text-red-500 rounded-lg flex items-center text-sm">
+                <div className="w-1.5 h-1.5 bg-red-400 rounded-full mr-2 animate-pulse"></div>
+                {error}
+            </div>
+        )
+    }
+
+    const { title, hint } = ERROR_EXPLANATIONS[code];
+
     return (
-        <div className="p-3 mb-8 bg-red-50 text-red-500 rounded-lg flex items-center text-sm">
-            <div className="w-1.5 h-1.5 bg-red-400 rounded-full mr-2 animate-pulse"></div>
-            {error}
+        <div className="p-3 mb-8 bg-red-50 text-red-500 rounded-lg flex items-start gap-2 text-sm">
+            <div className="w-1.5 h-1.5 bg-red-400 rounded-full mt-1.5 shrink-0 animate-pulse"></div>
+            <div className="flex-grow min-w-0">
+                <p className="font-medium">{t(title)}</p>
+                <p className="text-red-400">{t(hint)}</p>
+                {/* Mensaje original, útil para reportar el problema */}
+                <p className="mt-1 text-xs text-red-300 break-words">{error}</p>
+            </div>
+            {RETRYABLE_ERRORS[code] && onRetry && (
+                <button
+                    onClick={onRetry}
+                    className="flex items-center gap-1 shrink-0 px-3 py-1 rounded-full bg-white hover:bg-red-100 text-red-500 text-xs transition-colors"
+                >
+                    <RefreshCw size={14} />
+                    {t('errors.retry')}
+                </button>
+            )}
         </div>
     )
 }
 
-export default ErrorMessage;
\ No newline at end of file
+export default ErrorMessage;
@@ -0,0 +1,94 @@
+"use client";
+
+import { FORMAT_PRESETS, VideoFormat } from "@/lib/formats";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import useI18n from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
+
+interface FormatPickerProps {
+    formats: VideoFormat[];
+    selectedFormat: string | null;
+    onSelect: (selector: string | null) => void;
+    isLoading: boolean;
+    onLoad: () => void;
+    formatFileSize: (bytes: number) => string;
+}
+
+// Nombres de los atajos que no dependen de la lista de formatos
+const PRESET_LABELS: Record<typeof FORMAT_PRESETS[number]['id'], MessageKey> = {
+    best: 'formats.preset.best',
+    smallest: 'formats.preset.smallest',
+};
+
+function FormatPicker({ formats, selectedFormat, onSelect, isLoading, onLoad, formatFileSize }: FormatPickerProps) {
+    const { t, formatNumber } = useI18n();
+
+    // Descripción corta de un formato: "1080p60 · mp4 · avc1 · ~120 MB"
+    const describe = (format: VideoFormat): string => {
+        const parts: string[] = [];
+
+        if (format.kind === 'audio') {
+            parts.push(format.bitrate ? `${formatNumber(Math.round(format.bitrate))} kbps` : t('formats.audio'));
+        } else {
+            parts.push(`${format.height ?? '?'}p${format.fps && format.fps > 30 ? format.fps : ''}`);
+        }
+
+        parts.push(format.ext);
+
+        const codec = format.kind === 'audio' ? format.acodec : format.vcodec;
+        if (codec) parts.push(codec.split('.')[0]);
+
+        if (format.estimatedSize) parts.push(`~${formatFileSize(format.estimatedSize)}`);
+        if (format.kind === 'video+audio') parts.push(t('formats.withAudio'));
+
+        return parts.join(' · ');
+    };
+
+    if (formats.length === 0) {
+        return (
+            <button
+                type="button"
+                onClick={onLoad}
+                disabled={isLoading}
+                className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-100 hover:bg-slate-200 disabled:cursor-wait transition-all duration-200 text-sm text-slate-600"
+            >
+                {isLoading ? <Loader2 size={16} className="animate-spin" /> : <SlidersHorizontal size={16} />}
+                {isLoading ? t('formats.loading') : t('formats.choose')}
+            </button>
+        );
+    }
+
+    const videoFormats = formats.filter(f => f.kind !== 'audio');
+    const audioFormats = formats.filter(f => f.kind === 'audio');
+
+    return (
+        <select
+            value={selectedFormat ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            className="w-full p-3 rounded-full bg-white border border-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-300 text-sm text-slate-700"
+        >
+            <option value="">{t('formats.default')}</option>
+            <optgroup label={t('formats.group.presets')}>
+                {FORMAT_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.selector}>{t(PRESET_LABELS[preset.id])}</option>
+                ))}
+            </optgroup>
+            {videoFormats.length > 0 && (
+                <optgroup label={t('formats.group.video')}>
+                    {videoFormats.map(format => (
+                        <option key={format.formatId} value={format.selector}>{describe(format)}</option>
+                    ))}
+                </optgroup>
+            )}
+            {audioFormats.length > 0 && (
+                <optgroup label={t('formats.group.audio')}>
+                    {audioFormats.map(format => (
+                        <option key={format.formatId} value={format.selector}>{describe(format)}</option>
+                    ))}
+                </optgroup>
+            )}
+        </select>
+    );
+}
+
+export default FormatPicker;
@@ -1,6 +1,9 @@
 import { motion } from "framer-motion";
+import useI18n from "@/hooks/useI18n";
 
 function Header() {
+    const { t } = useI18n();
+
     return (
         <motion.header 
             className="text-center mb-16 mt-20"
@@ -40,7 +43,7 @@ function Header() {
                 animate={{ opacity: 1 }}
                 transition={{ duration: 0.6, delay: 0.8 }}
             >
-                Descarga videos de YouTube en alta calidad
+                {t('header.tagline')}
             </motion.p>
         </motion.header>
     )
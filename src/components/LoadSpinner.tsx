@@ -1,12 +1,87 @@
 "use client";
 
-function LoadSpinner() {
+import { useEffect, useState } from "react";
+import { JobPhase, RecordingState } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+import type { MessageKey, Translator } from "@/lib/i18n";
+
+// Texto mostrado para cada fase del trabajo de descarga
+export const PHASE_LABELS: Partial<Record<JobPhase, MessageKey>> = {
+    queued: 'phase.queued',
+    fetching: 'phase.fetching',
+    recording: 'phase.recording',
+    processing: 'phase.processing',
+    uploading: 'phase.uploading',
+};
+
+// Texto de la fase, con el puesto en la cola mientras el servidor está ocupado
+export function phaseLabel(t: Translator, phase?: JobPhase | null, queuePosition?: number | null): string {
+    if (phase === 'queued' && queuePosition) return t('phase.queuedAt', { position: queuePosition });
+    const key = phase && PHASE_LABELS[phase];
+    return key ? t(key) : t('phase.default');
+}
+
+type LoadSpinnerProps = {
+    progress?: number | null;
+    phase?: JobPhase | null;
+    queuePosition?: number | null;
+    recording?: RecordingState | null;
+    onStop?: () => void;
+};
+
+function LoadSpinner({ progress, phase, queuePosition, recording, onStop }: LoadSpinnerProps) {
+    const { t, formatDuration } = useI18n();
+    const label = phaseLabel(t, phase, queuePosition);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tiempo grabado, se actualiza cada segundo mientras dura la grabación
+    useEffect(() => {
+        if (!recording) return;
+        const intervalId = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [recording]);
+
+    const elapsed = recording
+        ? Math.min(recording.maxDuration, Math.max(0, Math.floor((now - Date.parse(recording.startedAt)) / 1000)))
+        : 0;
+
     return (
         <div className="flex flex-col items-center justify-center py-10">
             <div className="w-10 h-10 border-2 border-slate-200 border-t-slate-400 rounded-full animate-spin mb-3"></div>
-            <p className="text-slate-400 text-sm">Procesando video...</p>
+            <p className="text-slate-400 text-sm">{label}</p>
+
+            {/* Grabación de un directo - tiempo grabado y botón para detenerla */}
+            {recording && (
+                <div className="flex flex-col items-center gap-3 mt-3">
+                    <p className="text-slate-500 text-xs">
+                        {t('phase.recordingElapsed', { elapsed: formatDuration(elapsed), max: formatDuration(recording.maxDuration) })}
+                    </p>
+                    {onStop && (
+                        <button
+                            onClick={onStop}
+                            disabled={recording.stopRequested}
+                            className="px-4 py-2 text-sm rounded-lg bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {recording.stopRequested ? t('phase.stoppingRecording') : t('phase.stopRecording')}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Barra de progreso - solo cuando se conoce el tamaño */}
+            {progress != null && (
+                <div className="w-full max-w-xs mt-4">
+                    <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-slate-500 rounded-full transition-all duration-300"
+                            style={{ width: `${progress}%` }}
+                        ></div>
+                    </div>
+                    <p className="text-slate-400 text-xs text-center mt-2">{progress}%</p>
+                </div>
+            )}
         </div>
     )
 }
 
-export default LoadSpinner;
\ No newline at end of file
+export default LoadSpinner;
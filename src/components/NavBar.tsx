@@ -1,12 +1,15 @@
 "use client";
 
 import { motion, useScroll, useTransform } from "framer-motion";
-import { Github, ShieldCheck } from "lucide-react";
+import { Github, Languages, ShieldCheck } from "lucide-react";
 import { useEffect, useState } from "react";
+import useI18n from "@/hooks/useI18n";
+import { LOCALE_NAMES, LOCALES } from "@/lib/i18n";
 
 function Navbar() {
     const [isScrolled, setIsScrolled] = useState(false);
     const { scrollY } = useScroll();
+    const { locale, setLocale, t } = useI18n();
 
     useEffect(() => {
         const unsubscribe = scrollY.onChange((latest) => {
@@ -41,18 +44,46 @@ function Navbar() {
                 </motion.div>
 
                 {/* Actions */}
-                <motion.button
-                    className={`flex items-center gap-2 bg-transparent text-slate-700 font-light transition-all duration-200 ${isScrolled ? 'text-sm' : 'text-base'
-                        } hover:bg-gray-100 px-3 py-2 rounded-md`}
-                    whileTap={{ y: 0 }}
-                    transition={{ duration: 0.2 }}
-                >
-                    <ShieldCheck
-                        size={isScrolled ? 14 : 16}
-                        className="transition-all duration-300"
-                    />
-                    API
-                </motion.button>
+                <div className="flex items-center gap-1 sm:gap-2">
+                    {/* Selector de idioma */}
+                    <div
+                        className={`flex items-center gap-1 text-slate-700 font-light transition-all duration-200 ${isScrolled ? 'text-sm' : 'text-base'}`}
+                        role="group"
+                        aria-label={t('nav.language')}
+                    >
+                        <Languages
+                            size={isScrolled ? 14 : 16}
+                            className="transition-all duration-300"
+                        />
+                        {LOCALES.map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => setLocale(option)}
+                                title={LOCALE_NAMES[option]}
+                                aria-pressed={option === locale}
+                                className={`px-2 py-1 rounded-md uppercase transition-colors duration-200 ${option === locale
+                                    ? 'bg-slate-800 text-white'
+                                    : 'hover:bg-gray-100'
+                                    }`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+
+                    <motion.button
+                        className={`flex items-center gap-2 bg-transparent text-slate-700 font-light transition-all duration-200 ${isScrolled ? 'text-sm' : 'text-base'
+                            } hover:bg-gray-100 px-3 py-2 rounded-md`}
+                        whileTap={{ y: 0 }}
+                        transition={{ duration: 0.2 }}
+                    >
+                        <ShieldCheck
+                            size={isScrolled ? 14 : 16}
+                            className="transition-all duration-300"
+                        />
+                        API
+                    </motion.button>
+                </div>
             </div>
         </motion.nav>
     )
@@ -0,0 +1,146 @@
+"use client";
+
+import useYoutube, { BatchItem, Playlist } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+import { ERROR_EXPLANATIONS } from "./ErrorMessage";
+import { Archive, CheckCircle2, Download, Files, ListVideo, Loader2, XCircle } from "lucide-react";
+
+// Icono de estado de cada entrada durante la descarga por lotes
+function ItemStatus({ item }: { item?: BatchItem }) {
+    if (!item || item.phase === 'queued') return null;
+    if (item.phase === 'running') return <Loader2 size={16} className="text-slate-400 animate-spin shrink-0" />;
+    if (item.phase === 'done') return <CheckCircle2 size={16} className="text-emerald-500 shrink-0" />;
+    return <XCircle size={16} className="text-red-400 shrink-0" />;
+}
+
+function PlaylistResult({ playlist }: { playlist: Playlist }) {
+    const {
+        selectedEntries,
+        toggleEntry,
+        toggleAllEntries,
+        packaging,
+        setPackaging,
+        startBatchDownload,
+        batchJob,
+        formatDuration,
+        formatFileSize,
+    } = useYoutube();
+    const { t } = useI18n();
+
+    const availableCount = playlist.entries.filter(entry => !entry.unavailable).length;
+    const isRunning = batchJob !== null && batchJob.phase !== 'done' && batchJob.phase !== 'failed';
+    const items = batchJob?.batch?.items;
+    const completedCount = items?.filter(item => item.phase === 'done' || item.phase === 'failed').length ?? 0;
+
+    // Estado de una entrada de la lista dentro del trabajo en curso
+    const itemFor = (url: string) => items?.find(item => item.url === url);
+
+    return (
+        <div className="rounded-xl overflow-hidden transition-all duration-300 bg-white">
+            <div className="p-5">
+                <div className="flex items-center gap-2 mb-1 text-slate-400 text-xs uppercase tracking-wide">
+                    <ListVideo size={14} />
+                    {playlist.type === 'channel' ? t('playlist.channel') : t('playlist.playlist')}
+                </div>
+                <h2 className="text-lg font-medium mb-1 line-clamp-2 text-slate-700">{playlist.title}</h2>
+                <p className="text-slate-500 text-sm mb-4">
+                    {playlist.uploader && <span>{playlist.uploader} · </span>}
+                    {t('playlist.count', { count: playlist.entries.length })}{playlist.truncated && ` (${t('playlist.truncated')})`}
+                </p>
+
+                {/* Selección de entradas */}
+                <div className="flex items-center justify-between mb-2 text-sm">
+                    <span className="text-slate-500">{t('playlist.selected', { selected: selectedEntries.length, total: availableCount })}</span>
+                    <button
+                        type="button"
+                        onClick={toggleAllEntries}
+                        disabled={isRunning}
+                        className="text-slate-600 hover:text-slate-800 disabled:text-slate-300"
+                    >
+                        {selectedEntries.length === availableCount ? t('playlist.selectNone') : t('playlist.selectAll')}
+                    </button>
+                </div>
+
+                <ul className="max-h-96 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-lg mb-5">
+                    {playlist.entries.map((entry, index) => {
+                        const item = itemFor(entry.url);
+                        return (
+                            <li key={`${entry.id}-${index}`} className={`flex items-center gap-3 p-2 text-sm ${entry.unavailable ? 'opacity-50' : ''}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={selectedEntries.includes(entry.id)}
+                                    onChange={() => toggleEntry(entry.id)}
+                                    disabled={entry.unavailable || isRunning}
+                                    className="accent-slate-700"
+                                />
+                                <span className="text-slate-400 w-6 text-right shrink-0">{index + 1}</span>
+                                <div className="flex-grow min-w-0">
+                                    <p className="truncate text-slate-700">{entry.title}</p>
+                                    {item?.error && (
+                                        <p className="truncate text-xs text-red-400" title={item.error.message}>
+                                            {ERROR_EXPLANATIONS[item.error.code] ? t(ERROR_EXPLANATIONS[item.error.code].title) : item.error.message}
+                                        </p>
+                                    )}
+                                    {entry.unavailable && <p className="text-xs text-slate-400">{t('playlist.unavailable')}</p>}
+                                </div>
+                                {item?.file && (
+                                    <a href={item.file.downloadUrl} download={item.file.originalFilename} className="text-slate-500 hover:text-slate-700 shrink-0">
+                                        <Download size={16} />
+                                    </a>
+                                )}
+                                <ItemStatus item={item} />
+                                <span className="text-slate-400 tabular-nums shrink-0">{formatDuration(entry.duration)}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                {/* Empaquetado del resultado */}
+                <div className="flex items-center justify-center gap-2 mb-4 text-sm">
+                    <button
+                        type="button"
+                        onClick={() => setPackaging('zip')}
+                        disabled={isRunning}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors duration-200 ${packaging === 'zip' ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                    >
+                        <Archive size={14} />
+                        {t('playlist.packaging.zip')}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setPackaging('files')}
+                        disabled={isRunning}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors duration-200 ${packaging === 'files' ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                    >
+                        <Files size={14} />
+                        {t('playlist.packaging.files')}
+                    </button>
+                </div>
+
+                {batchJob?.batch?.archive ? (
+                    <a
+                        href={batchJob.batch.archive.downloadUrl}
+                        download={batchJob.batch.archive.originalFilename}
+                        className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-700 hover:bg-slate-800 transition-all duration-200 font-medium text-white shadow-sm"
+                    >
+                        <Download size={18} />
+                        {t('playlist.downloadZip', { size: formatFileSize(batchJob.batch.archive.size) })}
+                    </a>
+                ) : (
+                    <button
+                        onClick={startBatchDownload}
+                        disabled={selectedEntries.length === 0 || isRunning}
+                        className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-700 hover:bg-slate-800 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all duration-200 font-medium text-white shadow-sm"
+                    >
+                        {isRunning ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+                        {isRunning
+                            ? t('playlist.downloading', { done: completedCount, total: items?.length ?? 0 })
+                            : t('playlist.download', { count: selectedEntries.length })}
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+}
+
+export default PlaylistResult;
@@ -1,7 +1,21 @@
 "use client";
 
-import useYoutube from "@/hooks/useYoutube";
-import { Search, Clipboard } from "lucide-react";
+import { useState } from "react";
+import useYoutube, { AudioFormat, OutputContainer, SubtitleFormat } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+import { Search, Clipboard, Film, Music, Captions, Link2 } from "lucide-react";
+
+// Formatos de audio disponibles en modo audio
+const AUDIO_FORMAT_OPTIONS: AudioFormat[] = ['mp3', 'm4a', 'opus'];
+
+// Contenedores a los que se puede convertir el video
+const OUTPUT_CONTAINER_OPTIONS: OutputContainer[] = ['mp4', 'webm', 'mkv'];
+
+// Alturas máximas para reducir la resolución
+const MAX_HEIGHT_OPTIONS = [2160, 1440, 1080, 720, 480, 360];
+
+// Formatos de subtítulos como archivos separados
+const SUBTITLE_FORMAT_OPTIONS: SubtitleFormat[] = ['vtt', 'srt'];
 
 function SearchBox() {
     const {
@@ -9,7 +23,28 @@ function SearchBox() {
         isLoading,
         setUrl,
         handleSubmit,
+        downloadMode,
+        setDownloadMode,
+        audioFormat,
+        setAudioFormat,
+        subtitleSettings,
+        updateSubtitleSettings,
+        outputSettings,
+        updateOutputSettings,
+        retryAfter,
+        isSearchMode,
     } = useYoutube();
+    const { t } = useI18n();
+
+    // Texto libre de idiomas, se convierte en lista al escribir ("es, en")
+    const [subtitleInput, setSubtitleInput] = useState(subtitleSettings.languages.join(', '));
+
+    function handleSubtitleInput(value: string): void {
+        setSubtitleInput(value);
+        updateSubtitleSettings({
+            languages: value.split(/[\s,]+/).map(language => language.trim()).filter(Boolean),
+        });
+    }
 
     async function handlePaste(event: React.MouseEvent<HTMLButtonElement, MouseEvent>): Promise<void> {
         event.preventDefault();
@@ -38,17 +73,134 @@ function SearchBox() {
                     type="text"
                     value={url}
                     onChange={(e) => setUrl(e.target.value)}
-                    placeholder="Pega la URL del video..."
+                    placeholder={t('search.placeholder')}
                     className="w-full p-3 pl-16 pr-16 rounded-full bg-white border border-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-300 focus:border-transparent text-slate-700 placeholder-slate-400 shadow-sm"
                 />
                 <button
                     type="submit"
-                    disabled={isLoading}
+                    disabled={isLoading || retryAfter > 0}
                     className="absolute right-3 top-1/2 transform -translate-y-1/2 p-2 rounded-full bg-slate-100 hover:bg-slate-200 disabled:bg-slate-50 transition-colors duration-200 text-slate-500"
                 >
-                    <Search size={16} />
+                    {isSearchMode ? <Search size={16} /> : <Link2 size={16} />}
                 </button>
             </form>
+
+            {/* Modo búsqueda - el texto no es una URL */}
+            {isSearchMode && (
+                <p className="mt-2 text-center text-xs text-slate-400">
+                    {t('search.hint')}
+                </p>
+            )}
+
+            {/* Límite de peticiones alcanzado - cuenta atrás hasta poder reintentar */}
+            {retryAfter > 0 && (
+                <p className="mt-2 text-center text-xs text-amber-600">
+                    {t('search.rateLimited', { seconds: retryAfter })}
+                </p>
+            )}
+
+            {/* Modo de descarga - video completo o solo audio */}
+            <div className="flex items-center justify-center gap-2 mt-4 text-sm">
+                <button
+                    type="button"
+                    onClick={() => setDownloadMode('video')}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors duration-200 ${downloadMode === 'video' ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                >
+                    <Film size={14} />
+                    {t('search.mode.video')}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setDownloadMode('audio')}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors duration-200 ${downloadMode === 'audio' ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                >
+                    <Music size={14} />
+                    {t('search.mode.audio')}
+                </button>
+                {downloadMode === 'audio' && (
+                    <select
+                        value={audioFormat}
+                        onChange={(e) => setAudioFormat(e.target.value as AudioFormat)}
+                        className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                    >
+                        {AUDIO_FORMAT_OPTIONS.map(format => (
+                            <option key={format} value={format}>{format}</option>
+                        ))}
+                    </select>
+                )}
+                {/* Conversión del video - contenedor y resolución máxima */}
+                {downloadMode === 'video' && (
+                    <>
+                        <select
+                            value={outputSettings.container ?? ''}
+                            onChange={(e) => updateOutputSettings({ container: (e.target.value || null) as OutputContainer | null })}
+                            title={t('search.output.container')}
+                            className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                        >
+                            <option value="">{t('search.output.original')}</option>
+                            {OUTPUT_CONTAINER_OPTIONS.map(container => (
+                                <option key={container} value={container}>
+                                    {container === 'mp4' ? t('search.output.mp4') : container}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={outputSettings.maxHeight ?? ''}
+                            onChange={(e) => updateOutputSettings({ maxHeight: e.target.value ? Number(e.target.value) : null })}
+                            title={t('search.output.maxHeight')}
+                            className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                        >
+                            <option value="">{t('search.output.anyHeight')}</option>
+                            {MAX_HEIGHT_OPTIONS.map(height => (
+                                <option key={height} value={height}>{t('search.output.upTo', { height })}</option>
+                            ))}
+                        </select>
+                    </>
+                )}
+            </div>
+
+            {/* Subtítulos - idiomas, subtítulos automáticos, formato e incrustación */}
+            <div className="flex flex-wrap items-center justify-center gap-2 mt-3 text-sm text-slate-500">
+                <Captions size={16} />
+                <input
+                    type="text"
+                    value={subtitleInput}
+                    onChange={(e) => handleSubtitleInput(e.target.value)}
+                    placeholder={t('search.subtitles.placeholder')}
+                    className="w-44 px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-600 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                />
+                {subtitleSettings.languages.length > 0 && (
+                    <>
+                        <select
+                            value={subtitleSettings.format}
+                            onChange={(e) => updateSubtitleSettings({ format: e.target.value as SubtitleFormat })}
+                            className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                        >
+                            {SUBTITLE_FORMAT_OPTIONS.map(format => (
+                                <option key={format} value={format}>{format}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={subtitleSettings.includeAutoGenerated}
+                                onChange={(e) => updateSubtitleSettings({ includeAutoGenerated: e.target.checked })}
+                            />
+                            {t('search.subtitles.auto')}
+                        </label>
+                        {downloadMode === 'video' && (
+                            <label className="flex items-center gap-1.5 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={subtitleSettings.embed}
+                                    onChange={(e) => updateSubtitleSettings({ embed: e.target.checked })}
+                                />
+                                {t('search.subtitles.embed')}
+                            </label>
+                        )}
+                    </>
+                )}
+            </div>
         </div>
     )
 }
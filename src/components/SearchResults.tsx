@@ -0,0 +1,87 @@
+"use client";
+
+import Image from "next/image";
+import useYoutube, { SearchPage } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+import { Loader2, Radio, Search, Youtube } from "lucide-react";
+
+function SearchResults({ searchResults }: { searchResults: SearchPage }) {
+    const {
+        selectSearchResult,
+        loadMoreResults,
+        isLoadingMoreResults,
+        isLoading,
+        formatDuration,
+    } = useYoutube();
+    const { t } = useI18n();
+
+    return (
+        <section className="rounded-xl overflow-hidden bg-white">
+            <div className="p-5">
+                <h2 className="flex items-center gap-2 mb-4 text-slate-600 font-medium">
+                    <Search size={18} />
+                    <span className="truncate">{t('results.title', { query: searchResults.query })}</span>
+                </h2>
+
+                {searchResults.results.length === 0 ? (
+                    <p className="text-sm text-slate-400">{t('results.empty')}</p>
+                ) : (
+                    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {searchResults.results.map(result => (
+                            <li key={result.videoId}>
+                                {/* Al elegir un resultado se muestra su vista previa antes de descargar */}
+                                <button
+                                    onClick={() => selectSearchResult(result)}
+                                    disabled={isLoading}
+                                    className="group w-full text-left disabled:cursor-not-allowed"
+                                >
+                                    <div className="relative aspect-video rounded-lg overflow-hidden bg-slate-100 mb-2">
+                                        {result.thumbnail ? (
+                                            <Image
+                                                src={result.thumbnail}
+                                                alt={result.title}
+                                                width={640}
+                                                height={360}
+                                                className="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
+                                            />
+                                        ) : (
+                                            <div className="w-full h-full flex items-center justify-center">
+                                                <Youtube size={32} className="text-slate-300" />
+                                            </div>
+                                        )}
+                                        {result.isLive ? (
+                                            <span className="absolute bottom-1.5 right-1.5 flex items-center gap-1 px-1.5 py-0.5 rounded bg-red-600 text-white text-xs">
+                                                <Radio size={12} />
+                                                {t('results.live')}
+                                            </span>
+                                        ) : result.duration !== null && (
+                                            <span className="absolute bottom-1.5 right-1.5 px-1.5 py-0.5 rounded bg-slate-900/80 text-white text-xs font-mono">
+                                                {formatDuration(result.duration)}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <p className="text-sm text-slate-700 line-clamp-2 group-hover:text-slate-900">{result.title}</p>
+                                    <p className="text-xs text-slate-400 truncate">{result.channel}</p>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {/* Paginación - añade la siguiente página de resultados */}
+                {searchResults.nextPageToken && (
+                    <button
+                        onClick={loadMoreResults}
+                        disabled={isLoadingMoreResults}
+                        className="flex items-center justify-center gap-2 w-full mt-5 p-3 rounded-full bg-slate-100 hover:bg-slate-200 disabled:cursor-not-allowed transition-all duration-200 text-sm text-slate-600"
+                    >
+                        {isLoadingMoreResults && <Loader2 size={16} className="animate-spin" />}
+                        {t('results.more')}
+                    </button>
+                )}
+            </div>
+        </section>
+    );
+}
+
+export default SearchResults;
@@ -1,21 +1,47 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Play, Pause, Volume2, VolumeX, Loader2 } from "lucide-react";
+import { Play, Pause, Volume2, VolumeX, Loader2, Captions, Scissors, X } from "lucide-react";
+import type { ClipSelection } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+
+// WebVTT caption track shown over the video
+export interface PreviewTrack {
+  src: string;          // Same-origin WebVTT URL
+  srcLang: string;      // Language code
+  label: string;        // Name shown when switching tracks
+}
 
 interface VideoPreviewProps {
   videoSource: string;  // Path to the video file
+  contentType?: string; // MIME type of the file, the browser sniffs it when missing
+  startTime?: number | null; // Seconds to start at, from the t= of the video URL
   thumbnail: string;    // Thumbnail URL
   title: string;        // Video title
   uploader?: string;    // Optional uploader name
+  tracks?: PreviewTrack[]; // Optional caption tracks
+  range?: ClipSelection | null; // Selected clip, null = whole video
+  onRangeChange?: (range: ClipSelection | null) => void; // Enables the clip selector
+  seekRequest?: { time: number } | null; // Jumps to this position, a new object every time
 }
 
-const VideoPreview = ({ videoSource, thumbnail, title, uploader }: VideoPreviewProps) => {
+// Formats seconds as m:ss.s for the clip selector
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${rest}`;
+};
+
+const VideoPreview = ({ videoSource, contentType, startTime, thumbnail, title, uploader, tracks = [], range = null, onRangeChange, seekRequest }: VideoPreviewProps) => {
   const [isPlaying, setIsPlaying] = useState(false);
+  const [activeTrack, setActiveTrack] = useState(-1); // -1 = captions off
   const [isMuted, setIsMuted] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [isError, setIsError] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const { t } = useI18n();
 
   // Fixed path logic - use videoSource directly if it's already a full URL
   const filePath = videoSource && (videoSource.startsWith('http') || videoSource.startsWith('/'))
@@ -30,6 +56,27 @@ const VideoPreview = ({ videoSource, thumbnail, title, uploader }: VideoPreviewP
     setIsError(false);
   }, [videoSource]);
 
+  // Jump to the requested position (chapter links) and start playing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !seekRequest) return;
+
+    video.currentTime = seekRequest.time;
+    video.play()
+      .then(() => setIsPlaying(true))
+      .catch(error => console.error("Play error:", error));
+  }, [seekRequest]);
+
+  // Show only the selected caption track
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    Array.from(video.textTracks).forEach((track, index) => {
+      track.mode = index === activeTrack ? 'showing' : 'disabled';
+    });
+  }, [activeTrack, tracks]);
+
   // Handle video events
   useEffect(() => {
     const video = videoRef.current;
@@ -55,11 +102,22 @@ const VideoPreview = ({ videoSource, thumbnail, title, uploader }: VideoPreviewP
       console.log("Video can play:", filePath);
     };
 
+    // Duration and position feed the clip selector
+    const handleLoadedMetadata = () => {
+      setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+    };
+
+    const handleTimeUpdate = () => {
+      setCurrentTime(video.currentTime);
+    };
+
     // Add event listeners
     video.addEventListener('ended', handleEnded);
     video.addEventListener('error', handleError);
     video.addEventListener('loadstart', handleLoadStart);
     video.addEventListener('canplay', handleCanPlay);
+    video.addEventListener('loadedmetadata', handleLoadedMetadata);
+    video.addEventListener('timeupdate', handleTimeUpdate);
 
     // Cleanup
     return () => {
@@ -67,6 +125,8 @@ const VideoPreview = ({ videoSource, thumbnail, title, uploader }: VideoPreviewP
       video.removeEventListener('error', handleError);
       video.removeEventListener('loadstart', handleLoadStart);
       video.removeEventListener('canplay', handleCanPlay);
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
     };
   }, [filePath, videoSource]);
 
@@ -76,7 +136,7 @@ const VideoPreview = ({ videoSource, thumbnail, title, uploader }: VideoPreviewP
     return (
       <div className="relative w-full aspect-video bg-black overflow-hidden rounded-lg flex items-center justify-center">
         <p className="text-white text-center px-4">
-          Error: No video source provided
+          {t('preview.noSource')}
         </p>
       </div>
     );
@@ -121,6 +181,38 @@ const VideoPreview = ({ videoSource, thumbnail, title, uploader }: VideoPreviewP
     }
   };
 
+  // Cycle through caption tracks: off -> first track -> ... -> off
+  const cycleCaptions = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setActiveTrack(current => current + 1 < tracks.length ? current + 1 : -1);
+  };
+
+  // Set the clip start or end at the current position, keeping start before end
+  const markPoint = (point: 'start' | 'end') => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    const current = range ?? { start: 0, end: duration };
+
+    const next = point === 'start'
+      ? { start: time, end: current.end > time ? current.end : duration }
+      : { start: current.start < time ? current.start : 0, end: time };
+
+    if (next.end > next.start) {
+      onRangeChange?.(next);
+    }
+  };
+
+  // Move one edge of the clip with its slider
+  const moveEdge = (point: 'start' | 'end', value: number) => {
+    const current = range ?? { start: 0, end: duration };
+    const next = { ...current, [point]: value };
+    if (next.end <= next.start) return;
+
+    onRangeChange?.(next);
+    if (videoRef.current) {
+      videoRef.current.currentTime = value;
+    }
+  };
+
   // Toggle mute state
   const toggleMute = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -132,93 +224,189 @@ const VideoPreview = ({ videoSource, thumbnail, title, uploader }: VideoPreviewP
   };
 
   return (
-    <div className="relative w-full aspect-video bg-black overflow-hidden rounded-lg">
-      {/* Video element */}
-      <video
-        ref={videoRef}
-        className="w-full h-full object-contain"
-        muted={isMuted}
-        poster={thumbnail}
-        onClick={handlePlayClick}
-        onContextMenu={e => e.preventDefault()}
-        controlsList="nodownload"
-      >
-        <source src={filePath} type="video/mp4" />
-        Your browser does not support the video tag.
-      </video>
-
-      {/* Loading overlay */}
-      {isLoading && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black/30 z-20">
-          <Loader2 className="w-12 h-12 text-white animate-spin" />
-        </div>
-      )}
+    <div>
+      <div className="relative w-full aspect-video bg-black overflow-hidden rounded-lg">
+        {/* Video element */}
+        <video
+          ref={videoRef}
+          className="w-full h-full object-contain"
+          muted={isMuted}
+          poster={thumbnail}
+          onClick={handlePlayClick}
+          onContextMenu={e => e.preventDefault()}
+          controlsList="nodownload"
+        >
+          {/* Media fragment: the player opens at the start time of the URL */}
+          <source src={startTime ? `${filePath}#t=${startTime}` : filePath} type={contentType} />
+          {tracks.map(track => (
+            <track
+              key={track.src}
+              kind="subtitles"
+              src={track.src}
+              srcLang={track.srcLang}
+              label={track.label}
+            />
+          ))}
+          {t('preview.unsupportedVideo')}
+        </video>
 
-      {/* Error overlay */}
-      {isError && (
-        <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 z-20">
-          <p className="text-white text-center px-4 mb-2">
-            Error playing video. The file may be corrupted or in an unsupported format.
-          </p>
-          <p className="text-white/70 text-sm text-center px-4 mb-4">
-            Attempted to load: {filePath}
-          </p>
-          <button
-            className="mt-4 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-md"
-            onClick={() => window.location.reload()}
-          >
-            Reload Page
-          </button>
-        </div>
-      )}
+        {/* Loading overlay */}
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/30 z-20">
+            <Loader2 className="w-12 h-12 text-white animate-spin" />
+          </div>
+        )}
 
-      {/* Controls overlay - always visible but transparent when playing */}
-      <div
-        className={`absolute inset-0 transition-opacity duration-300 ${isPlaying ? 'opacity-0 hover:opacity-100' : 'opacity-100'
-          }`}
-      >
-        {/* Play button centered */}
-        {!isPlaying && !isLoading && !isError && (
-          <div className="absolute inset-0 flex items-center justify-center">
+        {/* Error overlay */}
+        {isError && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 z-20">
+            <p className="text-white text-center px-4 mb-2">
+              {t('preview.playbackError')}
+            </p>
+            <p className="text-white/70 text-sm text-center px-4 mb-4">
+              {t('preview.attempted', { path: filePath })}
+            </p>
             <button
-              className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
-              onClick={handlePlayClick}
+              className="mt-4 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-md"
+              onClick={() => window.location.reload()}
             >
-              <Play size={32} />
+              {t('preview.reload')}
             </button>
           </div>
         )}
 
-        {/* Bottom controls bar */}
-        <div className="absolute bottom-0 left-0 right-0 p-3 bg-gradient-to-t from-black/80 to-transparent">
-          <div className="flex items-center justify-between">
-            {/* Play/Pause button */}
-            <button
-              className="w-10 h-10 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
-              onClick={handlePlayClick}
-              disabled={isLoading || isError}
-            >
-              {isPlaying ? <Pause size={20} /> : <Play size={20} />}
-            </button>
+        {/* Controls overlay - always visible but transparent when playing */}
+        <div
+          className={`absolute inset-0 transition-opacity duration-300 ${isPlaying ? 'opacity-0 hover:opacity-100' : 'opacity-100'
+            }`}
+        >
+          {/* Play button centered */}
+          {!isPlaying && !isLoading && !isError && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <button
+                className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
+                onClick={handlePlayClick}
+              >
+                <Play size={32} />
+              </button>
+            </div>
+          )}
+
+          {/* Bottom controls bar */}
+          <div className="absolute bottom-0 left-0 right-0 p-3 bg-gradient-to-t from-black/80 to-transparent">
+            <div className="flex items-center justify-between">
+              {/* Play/Pause button */}
+              <button
+                className="w-10 h-10 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
+                onClick={handlePlayClick}
+                disabled={isLoading || isError}
+              >
+                {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+              </button>
+
+              {/* Title in center */}
+              <div className="flex-grow mx-3">
+                <h3 className="text-white font-medium truncate text-center">{title}</h3>
+                {uploader && (
+                  <p className="text-white/70 text-xs text-center truncate">{uploader}</p>
+                )}
+              </div>
 
-            {/* Title in center */}
-            <div className="flex-grow mx-3">
-              <h3 className="text-white font-medium truncate text-center">{title}</h3>
-              {uploader && (
-                <p className="text-white/70 text-xs text-center truncate">{uploader}</p>
+              {/* Captions button, cycles through the tracks */}
+              {tracks.length > 0 && (
+                <button
+                  className={`w-10 h-10 mr-2 rounded-full backdrop-blur-sm flex items-center justify-center text-white transition-colors ${activeTrack >= 0 ? 'bg-white/40' : 'bg-white/20 hover:bg-white/30'}`}
+                  onClick={cycleCaptions}
+                  title={activeTrack >= 0 ? tracks[activeTrack].label : t('preview.subtitlesOff')}
+                >
+                  <Captions size={20} />
+                </button>
               )}
+
+              {/* Mute/Unmute button */}
+              <button
+                className="w-10 h-10 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
+                onClick={toggleMute}
+              >
+                {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+              </button>
             </div>
+          </div>
+        </div>
+      </div>
 
-            {/* Mute/Unmute button */}
+      {/* Selector de recorte: puntos de entrada y salida del clip */}
+      {onRangeChange && duration > 0 && (
+        <div className="mt-3 px-1 text-sm text-slate-600">
+          <div className="relative h-2 rounded-full bg-slate-200 mb-3">
+            {range && (
+              <div
+                className="absolute h-full rounded-full bg-slate-500"
+                style={{ left: `${(range.start / duration) * 100}%`, width: `${((range.end - range.start) / duration) * 100}%` }}
+              />
+            )}
+            <div
+              className="absolute top-1/2 w-1 h-4 -translate-y-1/2 bg-slate-800 rounded"
+              style={{ left: `${(currentTime / duration) * 100}%` }}
+            />
+          </div>
+
+          {range && (
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <label className="flex flex-col gap-1">
+                <span>{t('preview.clip.start', { time: formatTime(range.start) })}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={duration}
+                  step={0.1}
+                  value={range.start}
+                  onChange={e => moveEdge('start', parseFloat(e.target.value))}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>{t('preview.clip.end', { time: formatTime(range.end) })}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={duration}
+                  step={0.1}
+                  value={range.end}
+                  onChange={e => moveEdge('end', parseFloat(e.target.value))}
+                />
+              </label>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Scissors size={16} />
+            <button
+              className="px-3 py-1 rounded-full bg-slate-100 hover:bg-slate-200 transition-colors"
+              onClick={() => markPoint('start')}
+            >
+              {t('preview.clip.markStart', { time: formatTime(currentTime) })}
+            </button>
             <button
-              className="w-10 h-10 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
-              onClick={toggleMute}
+              className="px-3 py-1 rounded-full bg-slate-100 hover:bg-slate-200 transition-colors"
+              onClick={() => markPoint('end')}
             >
-              {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+              {t('preview.clip.markEnd')}
             </button>
+            {range && (
+              <button
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-slate-500 hover:bg-slate-100 transition-colors"
+                onClick={() => onRangeChange(null)}
+              >
+                <X size={14} />
+                {t('preview.clip.clear')}
+              </button>
+            )}
+            <span className="ml-auto text-slate-400">
+              {range ? t('preview.clip.length', { time: formatTime(range.end - range.start) }) : t('preview.clip.whole')}
+            </span>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -1,67 +1,99 @@
 "use client";
 
-import useYoutube, { VideoInfo } from "@/hooks/useYoutube";
+import { useState } from "react";
+import Image from "next/image";
+import useYoutube, { UnavailableReason, VideoDetails, VideoInfo } from "@/hooks/useYoutube";
+import useI18n from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
 import VideoPreview from "./VideoPreview";
-import { Clock7, Download, Info, Rss, Youtube } from "lucide-react";
+import AudioPreview from "./AudioPreview";
+import FormatPicker from "./FormatPicker";
+import { AlertTriangle, CalendarDays, Captions, Clock7, Download, Eye, Info, ListVideo, Radio, RefreshCw, Rss, Scissors, Youtube } from "lucide-react";
 
-interface FormatDuration {
-    (seconds: number | string | undefined | null): string;
-}
+// Motivo por el que un video no se puede descargar
+const UNAVAILABLE_LABELS: Record<UnavailableReason, MessageKey> = {
+    private: 'video.unavailable.private',
+    age_restricted: 'video.unavailable.ageRestricted',
+    upcoming: 'video.unavailable.upcoming',
+    unavailable: 'video.unavailable.unavailable',
+};
 
-function VideoResult({ videoInfo }: { videoInfo: VideoInfo }) {
+// details: datos consultados antes de descargar, se muestra la vista previa con el botón para confirmar
+function VideoResult({ videoInfo, details }: { videoInfo: VideoInfo; details?: VideoDetails | null }) {
     const {
-        url,
-        setUrl,
         fileInfo,
         downloadVideo,
         getFormattedFileSize,
+        formats,
+        isLoadingFormats,
+        selectedFormat,
+        setSelectedFormat,
+        loadFormats,
+        reprocessVideo,
+        isLoading,
+        formatFileSize,
+        formatDuration,
+        subtitles,
+        clipRange,
+        setClipRange,
+        frameAccurate,
+        setFrameAccurate,
+        downloadClip,
+        downloadChapters,
+        confirmPreview,
+        recordLive,
+        downloadStatus,
+        startTime,
     } = useYoutube();
+    const { t, formatNumber, formatDate } = useI18n();
 
-    // Función para formatear la duración del video
-    const formatDuration: FormatDuration = (duration) => {
-        if (!duration) return '';
-
-        // Si ya es una cadena formateada, la devolvemos tal como está
-        if (typeof duration === 'string') {
-            return duration;
-        }
-
-        // Si es un número, lo convertimos a formato de tiempo
-        if (typeof duration === 'number') {
-            const hrs = Math.floor(duration / 3600);
-            const mins = Math.floor((duration % 3600) / 60);
-            const secs = Math.floor(duration % 60);
+    // Chapter clicked in the list, the preview jumps there
+    const [seekRequest, setSeekRequest] = useState<{ time: number } | null>(null);
+    // Live streams: record from the start of the DVR window instead of from now
+    const [recordFromStart, setRecordFromStart] = useState(false);
+    const chapters = videoInfo.chapters ?? [];
+    const isBundle = fileInfo?.contentType === 'application/zip';
 
-            const parts: string[] = [];
-            if (hrs > 0) {
-                parts.push(`${hrs}:${mins.toString().padStart(2, '0')}`);
-            } else {
-                parts.push(mins.toString());
-            }
-            parts.push(secs.toString().padStart(2, '0'));
+    // Captions load from our own origin, <track> elements do not follow cross-origin redirects
+    const previewTracks = subtitles?.tracks.map(track => ({
+        src: `${track.vttFile.url}&redirect=false`,
+        srcLang: track.language,
+        label: track.label,
+    })) ?? [];
 
-            return parts.join(':');
-        }
-
-        return '';
-    };
     return (
         <div className="rounded-xl overflow-hidden transition-all duration-300">
-            {/* Video Preview */}
-            {videoInfo.videoId && fileInfo ? (
+            {/* Audio o Video Preview según el archivo generado */}
+            {videoInfo.videoId && fileInfo && fileInfo.contentType?.startsWith('audio/') ? (
+                <AudioPreview
+                    audioSource={fileInfo.url}
+                    contentType={fileInfo.contentType}
+                    thumbnail={videoInfo.thumbnail || ""}
+                    title={videoInfo.title}
+                    uploader={videoInfo.author}
+                />
+            ) : videoInfo.videoId && fileInfo && !isBundle ? (
                 <VideoPreview
-                    videoSource={fileInfo.fullUrl}
+                    videoSource={fileInfo.url}
+                    contentType={fileInfo.contentType}
+                    startTime={startTime}
                     thumbnail={videoInfo.thumbnail || ""}
                     title={videoInfo.title}
                     uploader={videoInfo.author}
+                    tracks={previewTracks}
+                    range={clipRange}
+                    onRangeChange={setClipRange}
+                    seekRequest={seekRequest}
                 />
             ) : (
                 <div className="aspect-video bg-slate-100 relative">
                     {videoInfo.thumbnail ? (
                         <div className="relative">
-                            <img
+                            <Image
                                 src={videoInfo.thumbnail}
                                 alt={videoInfo.title}
+                                width={1280}
+                                height={720}
                                 className="w-full h-full object-cover"
                             />
                             <div className="absolute inset-0 bg-gradient-to-t from-slate-900/40 to-transparent"></div>
@@ -90,7 +122,7 @@ function VideoResult({ videoInfo }: { videoInfo: VideoInfo }) {
                 <h2 className="text-lg font-medium mb-2 line-clamp-2 text-slate-700">{videoInfo.title}</h2>
 
                 {/* Video metadata - Minimalista */}
-                {(videoInfo.author || videoInfo.duration || fileInfo) && (
+                {(videoInfo.author || videoInfo.duration || fileInfo || details) && (
                     <div className="flex flex-wrap gap-x-4 gap-y-2 mb-5 text-slate-500 text-sm">
                         {videoInfo.author && (
                             <div className="flex items-center gap-1">
@@ -98,7 +130,7 @@ function VideoResult({ videoInfo }: { videoInfo: VideoInfo }) {
                                 <span>{videoInfo.author}</span>
                             </div>
                         )}
-                        {videoInfo.duration && (
+                        {videoInfo.duration > 0 && (
                             <div className="flex items-center gap-1">
                                 <Clock7 size={18} />
                                 <span>{formatDuration(videoInfo.duration)}</span>
@@ -110,18 +142,183 @@ function VideoResult({ videoInfo }: { videoInfo: VideoInfo }) {
                                 <span>{getFormattedFileSize()}</span>
                             </div>
                         )}
+                        {details?.viewCount != null && (
+                            <div className="flex items-center gap-1">
+                                <Eye size={18} />
+                                <span>{t('video.views', { count: formatNumber(details.viewCount) })}</span>
+                            </div>
+                        )}
+                        {details?.isLive && (
+                            <div className="flex items-center gap-1 text-red-500">
+                                <Radio size={18} />
+                                <span>{t('video.live')}</span>
+                            </div>
+                        )}
+                        {details?.uploadDate && (
+                            <div className="flex items-center gap-1">
+                                <CalendarDays size={18} />
+                                <span>{formatDate(details.uploadDate)}</span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Descripción del video - solo en la vista previa */}
+                {details?.description && (
+                    <p className="mb-5 text-sm text-slate-500 whitespace-pre-line line-clamp-4">{details.description}</p>
+                )}
+
+                {/* Aviso cuando el video no se puede descargar */}
+                {details && !details.downloadable && (
+                    <div className="flex items-start gap-2 mb-5 p-3 rounded-lg bg-amber-50 text-amber-700 text-sm">
+                        <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+                        <div>
+                            <p>
+                                {details.unavailableReason === 'upcoming' && details.scheduledStart
+                                    ? t('video.unavailable.upcomingAt', { date: formatDate(details.scheduledStart, true) })
+                                    : t(UNAVAILABLE_LABELS[details.unavailableReason ?? 'unavailable'])}
+                            </p>
+                            {details.unavailableMessage && <p className="text-amber-600/80">{details.unavailableMessage}</p>}
+                        </div>
+                    </div>
+                )}
+
+                {/* Subtítulos descargados como archivos separados */}
+                {subtitles && (subtitles.tracks.length > 0 || subtitles.missing.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-2 mb-5 text-sm text-slate-500">
+                        <Captions size={18} />
+                        {subtitles.tracks.map(track => (
+                            <a
+                                key={track.file.filename}
+                                href={track.file.downloadUrl}
+                                download={track.file.originalFilename}
+                                className="px-2.5 py-1 rounded-full bg-slate-100 hover:bg-slate-200 text-slate-600 transition-colors"
+                                title={track.label}
+                            >
+                                {track.language}{track.autoGenerated ? ' (auto)' : ''} · {track.format}
+                            </a>
+                        ))}
+                        {subtitles.embedded && <span>{t('video.subtitles.embedded')}</span>}
+                        {subtitles.missing.length > 0 && (
+                            <span className="text-slate-400">{t('video.subtitles.missing', { languages: subtitles.missing.join(', ') })}</span>
+                        )}
+                    </div>
+                )}
+
+                {/* Capítulos - saltan a ese punto en la vista previa */}
+                {chapters.length > 0 && (
+                    <div className="mb-5 text-sm text-slate-600">
+                        <div className="flex items-center gap-2 mb-2 text-slate-500">
+                            <ListVideo size={18} />
+                            <span>{t('video.chapters', { count: chapters.length })}{isBundle ? ` · ${t('video.chapters.bundled')}` : ''}</span>
+                        </div>
+                        <ol className="max-h-48 overflow-y-auto divide-y divide-slate-100 rounded-lg border border-slate-100">
+                            {chapters.map(chapter => (
+                                <li key={chapter.start}>
+                                    <button
+                                        onClick={() => setSeekRequest({ time: chapter.start })}
+                                        disabled={!fileInfo || isBundle}
+                                        className="flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-slate-50 disabled:hover:bg-transparent disabled:cursor-default transition-colors"
+                                    >
+                                        <span className="font-mono text-slate-400">{formatDuration(chapter.start) || '0:00'}</span>
+                                        <span className="truncate">{chapter.title}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
                     </div>
                 )}
 
                 <div className="flex flex-col gap-3">
-                    <button
-                        onClick={downloadVideo}
-                        disabled={!fileInfo}
-                        className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-700 hover:bg-slate-800 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all duration-200 font-medium text-white shadow-sm"
-                    >
-                        <Download size={18} />
-                        Descargar
-                    </button>
+                    {/* Selector de formato - vuelve a procesar el video en la calidad elegida */}
+                    <FormatPicker
+                        formats={formats}
+                        selectedFormat={selectedFormat}
+                        onSelect={setSelectedFormat}
+                        isLoading={isLoadingFormats}
+                        onLoad={loadFormats}
+                        formatFileSize={formatFileSize}
+                    />
+                    {selectedFormat && !details && (
+                        <button
+                            onClick={reprocessVideo}
+                            disabled={isLoading}
+                            className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-100 hover:bg-slate-200 disabled:cursor-not-allowed transition-all duration-200 text-sm text-slate-600"
+                        >
+                            <RefreshCw size={16} />
+                            {t('video.reprocess')}
+                        </button>
+                    )}
+                    {/* Recorte - procesa solo el tramo marcado en la vista previa */}
+                    {clipRange && !details && (
+                        <div className="flex flex-col gap-2">
+                            <label className="flex items-center gap-2 text-sm text-slate-600 px-1">
+                                <input
+                                    type="checkbox"
+                                    checked={frameAccurate}
+                                    onChange={e => setFrameAccurate(e.target.checked)}
+                                />
+                                {t('video.clip.frameAccurate')}
+                            </label>
+                            <button
+                                onClick={downloadClip}
+                                disabled={isLoading}
+                                className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-100 hover:bg-slate-200 disabled:cursor-not-allowed transition-all duration-200 text-sm text-slate-600"
+                            >
+                                <Scissors size={16} />
+                                {t('video.clip.download')}
+                            </button>
+                        </div>
+                    )}
+                    {chapters.length > 0 && !isBundle && !details && (
+                        <button
+                            onClick={downloadChapters}
+                            disabled={isLoading}
+                            className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-100 hover:bg-slate-200 disabled:cursor-not-allowed transition-all duration-200 text-sm text-slate-600"
+                        >
+                            <ListVideo size={16} />
+                            {t('video.chapters.split')}
+                        </button>
+                    )}
+                    {/* Directo - se graba desde ahora o desde el principio, hasta detenerlo */}
+                    {details?.isLive ? (
+                        <div className="flex flex-col gap-2">
+                            <label className="flex items-center gap-2 text-sm text-slate-600 px-1">
+                                <input
+                                    type="checkbox"
+                                    checked={recordFromStart}
+                                    onChange={e => setRecordFromStart(e.target.checked)}
+                                />
+                                {t('video.live.fromStart')}
+                            </label>
+                            <button
+                                onClick={() => recordLive(recordFromStart)}
+                                disabled={downloadStatus === 'processing'}
+                                className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-red-600 hover:bg-red-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all duration-200 font-medium text-white shadow-sm"
+                            >
+                                <Radio size={18} />
+                                {downloadStatus === 'processing' ? t('video.processing') : t('video.live.record')}
+                            </button>
+                        </div>
+                    ) : details ? (
+                        <button
+                            onClick={confirmPreview}
+                            disabled={!details.downloadable || downloadStatus === 'processing'}
+                            className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-700 hover:bg-slate-800 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all duration-200 font-medium text-white shadow-sm"
+                        >
+                            <Download size={18} />
+                            {downloadStatus === 'processing' ? t('video.processing') : t('video.process')}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={downloadVideo}
+                            disabled={!fileInfo}
+                            className="flex items-center justify-center gap-2 w-full p-3 rounded-full bg-slate-700 hover:bg-slate-800 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all duration-200 font-medium text-white shadow-sm"
+                        >
+                            <Download size={18} />
+                            {t('video.download')}
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { DownloadRequest, JobFile, VideoInfo } from "@/lib/api";
+import useI18n from "@/hooks/useI18n";
+
+// localStorage key and size of the history, oldest entries are dropped first
+const HISTORY_KEY = 'tubechain:history';
+const MAX_HISTORY_ENTRIES = 50;
+
+// Fired on window whenever this tab changes the history, other tabs get the 'storage' event
+const HISTORY_EVENT = 'tubechain:history-change';
+
+// Past download, kept in the browser
+export type HistoryEntry = {
+    id: string;             // Stored filename, the same file is only listed once
+    title: string;
+    thumbnail?: string;
+    format: string;         // Label shown in the list, e.g. "MP4 · 1080p"
+    size: number;
+    createdAt: string;      // ISO date of the download
+    file: JobFile;          // Signed links, read links valid until file.expiresAt, deleteUrl only when this browser created the file
+    request: DownloadRequest; // Body sent to /api/download, re-sent to fetch the video again
+    gone?: boolean;         // The server no longer has the file
+};
+
+/**
+ * Reads the history from localStorage, newest first
+ * - Corrupted data is treated as an empty history
+ */
+function readHistory(): HistoryEntry[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const entries = JSON.parse(window.localStorage.getItem(HISTORY_KEY) || '[]');
+        return Array.isArray(entries) ? entries : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeHistory(entries: HistoryEntry[]) {
+    try {
+        window.localStorage.setItem(HISTORY_KEY, JSON.stringify(entries.slice(0, MAX_HISTORY_ENTRIES)));
+    } catch (error) {
+        // Quota exceeded or storage disabled, the history is only lost for this session
+        console.error('Could not save download history:', error);
+    }
+    window.dispatchEvent(new Event(HISTORY_EVENT));
+}
+
+/**
+ * Tells whether the read links of an entry can no longer be used
+ * - The file itself may still be stored, see canDeleteHistoryEntry
+ */
+export function isHistoryEntryExpired(entry: HistoryEntry, now = Date.now()): boolean {
+    return Boolean(entry.gone) || Date.parse(entry.file.expiresAt) <= now;
+}
+
+/**
+ * Tells whether deleting an entry also deletes its stored file
+ * - Needs the delete link of the job that created the file, valid until file.deleteExpiresAt (the read link expiry for older entries)
+ */
+export function canDeleteHistoryEntry(entry: HistoryEntry, now = Date.now()): boolean {
+    const { deleteUrl, deleteExpiresAt, expiresAt } = entry.file;
+    return !entry.gone && Boolean(deleteUrl) && Date.parse(deleteExpiresAt ?? expiresAt) > now;
+}
+
+/**
+ * Records a finished download at the top of the history
+ * - Replaces the entry of the same stored file (cache hits renew its links, the delete link of the first download is kept)
+ * - Drops expired entries of the same request, the new file replaces them (unless their file can still be deleted)
+ */
+export function addHistoryEntry(request: DownloadRequest, videoInfo: VideoInfo, file: JobFile) {
+    const history = readHistory();
+    const previous = history.find(current => current.id === file.filename);
+    if (!file.deleteUrl && previous?.file.deleteUrl) {
+        file = { ...file, deleteUrl: previous.file.deleteUrl, deleteExpiresAt: previous.file.deleteExpiresAt };
+    }
+
+    const extension = file.originalFilename.split('.').pop()?.toUpperCase() ?? '';
+    const isAudio = file.contentType.startsWith('audio/');
+    const requestKey = JSON.stringify(request);
+
+    const entry: HistoryEntry = {
+        id: file.filename,
+        title: videoInfo.title,
+        thumbnail: videoInfo.thumbnail,
+        format: [extension, !isAudio && videoInfo.quality !== 'Unknown Quality' ? videoInfo.quality : '']
+            .filter(Boolean)
+            .join(' · '),
+        size: file.size,
+        createdAt: new Date().toISOString(),
+        file,
+        request,
+    };
+
+    const rest = history.filter(current =>
+        current.id !== entry.id &&
+        !(isHistoryEntryExpired(current) && !canDeleteHistoryEntry(current) && JSON.stringify(current.request) === requestKey)
+    );
+    writeHistory([entry, ...rest]);
+}
+
+/**
+ * Download history kept in localStorage
+ * - Stays in sync with downloads finished in this tab and in other tabs
+ * - Deleting an entry also deletes its file through DELETE /api/file
+ */
+function useDownloadHistory() {
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+    const { t } = useI18n();
+
+    // localStorage only exists in the browser, load after the first render
+    useEffect(() => {
+        const reload = () => setEntries(readHistory());
+        reload();
+
+        window.addEventListener(HISTORY_EVENT, reload);
+        window.addEventListener('storage', reload);
+        return () => {
+            window.removeEventListener(HISTORY_EVENT, reload);
+            window.removeEventListener('storage', reload);
+        };
+    }, []);
+
+    /**
+     * Applies changes to one entry
+     */
+    const updateEntry = (id: string, changes: Partial<HistoryEntry>) => {
+        writeHistory(readHistory().map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+    };
+
+    /**
+     * Removes an entry from the history only, the file stays on the server
+     */
+    const forgetEntry = (id: string) => {
+        writeHistory(readHistory().filter(entry => entry.id !== id));
+    };
+
+    /**
+     * Deletes the stored file, then the entry
+     * - Files already gone (404) are only removed from the history
+     * - Without a usable delete link (shared from another user's download, or expired: 410) the entry is removed
+     *   and the user is told the file stays on the server until it expires
+     */
+    const deleteEntry = async (entry: HistoryEntry) => {
+        setError('');
+        setNotice('');
+
+        if (!canDeleteHistoryEntry(entry)) {
+            forgetEntry(entry.id);
+            if (!entry.gone) setNotice(t('history.forgotOnly'));
+            return;
+        }
+
+        try {
+            const response = await fetch(entry.file.deleteUrl!, { method: 'DELETE' });
+            if (!response.ok && response.status !== 404 && response.status !== 410) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.message || t('history.deleteFailedStatus', { status: response.status }));
+            }
+            forgetEntry(entry.id);
+            if (response.status === 410) setNotice(t('history.forgotOnly'));
+        } catch (err) {
+            console.error('History delete error:', err);
+            setError(err instanceof Error ? err.message : t('history.deleteFailed'));
+        }
+    };
+
+    /**
+     * Downloads the stored file again
+     * - Marks the entry as gone when the server no longer has it
+     */
+    const redownloadEntry = async (entry: HistoryEntry) => {
+        setError('');
+        setNotice('');
+
+        try {
+            const checkResponse = await fetch(entry.file.downloadUrl, { method: 'HEAD' });
+            if (checkResponse.status === 404 || checkResponse.status === 410) {
+                updateEntry(entry.id, { gone: true });
+                return;
+            }
+            if (!checkResponse.ok) {
+                throw new Error(t('errors.fileUnavailable', { status: checkResponse.status }));
+            }
+
+            const downloadLink = document.createElement('a');
+            downloadLink.href = entry.file.downloadUrl;
+            downloadLink.download = entry.file.originalFilename;
+            document.body.appendChild(downloadLink);
+            downloadLink.click();
+            document.body.removeChild(downloadLink);
+        } catch (err) {
+            console.error('History download error:', err);
+            setError(err instanceof Error ? err.message : t('history.downloadFailed'));
+        }
+    };
+
+    /**
+     * Copies the playback link of an entry
+     * @returns Whether the link was copied
+     */
+    const copyEntryLink = async (entry: HistoryEntry): Promise<boolean> => {
+        try {
+            await navigator.clipboard.writeText(new URL(entry.file.url, window.location.origin).toString());
+            return true;
+        } catch (err) {
+            console.error('Could not copy link:', err);
+            setError(t('history.copyFailed'));
+            return false;
+        }
+    };
+
+    /**
+     * Empties the history, stored files are left to expire
+     */
+    const clearHistory = () => {
+        writeHistory([]);
+    };
+
+    return {
+        entries,
+        error,
+        notice,
+        deleteEntry,
+        forgetEntry,
+        redownloadEntry,
+        copyEntryLink,
+        clearHistory,
+        isExpired: isHistoryEntryExpired,
+        canDelete: canDeleteHistoryEntry,
+    };
+}
+
+export default useDownloadHistory;
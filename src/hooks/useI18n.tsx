@@ -0,0 +1,70 @@
+"use client";
+
+import { createContext, useContext, useState } from "react";
+import {
+    createTranslator,
+    formatDate,
+    formatDuration,
+    formatFileSize,
+    formatNumber,
+    Locale,
+    LOCALE_COOKIE,
+} from "@/lib/i18n";
+
+// The override is remembered for a year
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Language state of the app
+ * - Starts with the language resolved on the server (override cookie, then Accept-Language)
+ * - Picking another language saves it in the cookie, API requests then answer in it too
+ */
+function useI18nStore(initialLocale: Locale) {
+    const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+    /**
+     * Switches the language of the interface and of later API responses
+     */
+    const setLocale = (next: Locale) => {
+        document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+        document.documentElement.lang = next;
+        setLocaleState(next);
+    };
+
+    return {
+        locale,
+        setLocale,
+        t: createTranslator(locale),
+
+        // Intl formatting in the current language
+        formatNumber: (value: number) => formatNumber(value, locale),
+        formatFileSize: (bytes: number) => formatFileSize(bytes, locale),
+        formatDuration: (duration: number | string | null | undefined) => formatDuration(duration, locale),
+        formatDate: (value: Date | string, withTime = false) => formatDate(value, locale, withTime),
+    };
+}
+
+type I18nStore = ReturnType<typeof useI18nStore>;
+
+const I18nContext = createContext<I18nStore | null>(null);
+
+/**
+ * Provides the language and translations to every component below it
+ */
+export function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: React.ReactNode }) {
+    const store = useI18nStore(initialLocale);
+    return <I18nContext.Provider value={store}>{children}</I18nContext.Provider>;
+}
+
+/**
+ * Reads the language state shared through I18nProvider
+ */
+function useI18n(): I18nStore {
+    const store = useContext(I18nContext);
+    if (!store) {
+        throw new Error('useI18n must be used inside <I18nProvider>');
+    }
+    return store;
+}
+
+export default useI18n;
@@ -1,112 +1,339 @@
 "use client";
 
-import { useState, useEffect } from "react";
-
-// Interface for video metadata used in the UI - Updated to match the component needs
-export type VideoInfo = {
-    title: string;          // Original video title
-    duration: string | number; // Duration can be formatted string or seconds number
-    quality: string;        // Video quality (e.g., "1080p")
-    author: string;         // Content creator name (changed from 'uploader' to match API)
-    viewCount: number;      // View count
-    fileSize: number;       // File size in bytes
-    thumbnail?: string;     // Thumbnail URL if available
-    videoId?: string;       // YouTube video identifier
+import { createContext, useContext, useState, useEffect, useRef } from "react";
+import type { VideoFormat } from "@/lib/formats";
+import type { AudioFormat } from "@/lib/media/audio";
+import type { SubtitleFormat } from "@/lib/media/subtitles";
+import type { ClipRange } from "@/lib/media/clip";
+import type { OutputContainer, OutputTarget } from "@/lib/media/transcode";
+import type { Chapter } from "@/lib/chapters";
+import type { ErrorCode } from "@/lib/errors";
+import type { SearchPage, SearchResult, UnavailableReason, VideoDetails } from "@/lib/innertube";
+import {
+    ContractError,
+    createJobResponseSchema,
+    errorResponseSchema,
+    formatsResponseSchema,
+    infoResponseSchema,
+    jobResponseSchema,
+    jobSchema,
+    parse,
+    playlistResponseSchema,
+    searchResponseSchema,
+} from "@/lib/api";
+import type {
+    BatchItem,
+    BatchPackaging,
+    BatchRequest,
+    DownloadMode,
+    DownloadRequest,
+    ErrorResponse,
+    JobFile,
+    JobPhase,
+    JobSnapshot,
+    RecordingState,
+    SubtitleResult,
+    VideoInfo,
+} from "@/lib/api";
+import { getCollectionType, Playlist } from "@/lib/playlists";
+import { checkVideoUrl, describeUrlError, findSite, parseVideoUrl } from "@/lib/urls";
+import { addHistoryEntry } from "@/hooks/useDownloadHistory";
+import useI18n from "@/hooks/useI18n";
+
+// Job, file and video shapes come from the API contract shared with the routes
+export type { AudioFormat, BatchItem, BatchPackaging, Chapter, DownloadMode, ErrorCode, JobPhase, OutputContainer, Playlist, RecordingState, SearchPage, SearchResult, SubtitleFormat, UnavailableReason, VideoDetails, VideoInfo };
+
+// Segment picked in the preview, in seconds
+export type ClipSelection = Pick<ClipRange, 'start' | 'end'>;
+
+// Caption options sent with a download
+export type SubtitleSettings = {
+    languages: string[];    // Empty = no subtitles
+    includeAutoGenerated: boolean;
+    format: SubtitleFormat;
+    embed: boolean;
 };
 
-type FileInfo = {
-    filename: string;       // Local filename after download
-    originalFilename: string; // Original filename from backend
-    size: number;          // File size in bytes
-    path: string;          // Relative path to file
-    fullUrl: string;       // Full URL to access file
-    contentType: string;   // MIME type
+// Conversion of downloaded videos, null keeps the download as it is
+export type OutputSettings = {
+    container: OutputContainer | null;
+    maxHeight: number | null;
 };
 
-type DownloadResponse = {
-    success: boolean;
-    message: string;
-    videoInfo: VideoInfo;
-    file: FileInfo;
-    downloadUrl: string;
-    timestamp: string;
+// Failure reported by the server, with its classified cause
+class DownloadFailedError extends Error {
+    constructor(message: string, public readonly code: ErrorCode | null) {
+        super(message);
+        this.name = 'DownloadFailedError';
+    }
+}
+
+/**
+ * Reads the body of a failed API request
+ * - Bodies out of the contract (proxy error pages...) give an empty error, the caller's message applies
+ */
+function readErrorResponse(data: unknown): Partial<ErrorResponse> {
+    const result = errorResponseSchema.check(data, 'error response');
+    return result.valid ? result.value : {};
+}
+
+/**
+ * Start time of a premiere, sent in the details of job errors when known
+ */
+function getScheduledStart(details: unknown): string | null {
+    const value = (details as { scheduledStart?: unknown } | null | undefined)?.scheduledStart;
+    return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Shows looked up video details with the fields of a downloaded video
+ * - Size and quality are only known once the file exists
+ */
+export function detailsToVideoInfo(details: VideoDetails): VideoInfo {
+    return {
+        title: details.title,
+        duration: details.duration ?? 0,
+        quality: 'Unknown Quality',
+        author: details.author,
+        viewCount: details.viewCount ?? 0,
+        fileSize: 0,
+        thumbnail: details.thumbnail ?? undefined,
+        videoId: details.videoId,
+        chapters: [],
+    };
+}
+
+/**
+ * Tells whether the search box holds keywords rather than a URL
+ */
+export function isSearchQuery(text: string): boolean {
+    const value = text.trim();
+    return value !== ''
+        && !/^(https?:\/\/|www\.)/i.test(value)
+        && !findSite(value);
+}
+
+export type DownloadStatus = 'processing' | 'ready' | 'downloading' | 'complete' | 'error';
+
+// One download started from the UI, several can be in flight at once
+export type DownloadSession = {
+    id: string;             // Local id, the server job id is known once the job is created
+    url: string;
+    request: DownloadRequest; // Body sent to /api/download
+    status: DownloadStatus;
+    phase: JobPhase | null;
+    progress: number | null; // Percentage, when the job reports a size
+    queuePosition: number | null; // Place in the server queue, null once running
+    recording: RecordingState | null; // Live recordings, while recording
+    startTime: number | null; // Seconds, from the t= of the URL
+    jobId: string | null;
+    cached: boolean;        // Served from the download cache
+    videoInfo: VideoInfo | null;
+    fileInfo: JobFile | null;
+    subtitles: SubtitleResult | null;
+    error: string;
+    errorCode: ErrorCode | null; // Cause of the failure, when the server classified it
+    startedAt: number;
 };
 
 /**
- * Enhanced React Hook for YouTube video download functionality
- * - Manages video playback and download state
+ * Download store shared by every component through DownloadProvider
+ * - Manages the form, playlists and any number of concurrent download sessions
  * - Handles video metadata extraction with improved validation
  * - Provides better error handling and loading states
  */
-function useYoutube() {
+function useDownloadStore() {
+    const { t, formatFileSize, formatDuration, formatDate } = useI18n();
     const [url, setUrl] = useState('');
-    const [isLoading, setIsLoading] = useState(false);
-    const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
-    const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
-    const [fileInfo, setFileInfo] = useState<FileInfo | null>(null);
+    const [isLoading, setIsLoading] = useState(false); // Listing a playlist or looking up a video
     const [error, setError] = useState('');
-    const [downloadStatus, setDownloadStatus] = useState<'idle' | 'processing' | 'ready' | 'downloading' | 'complete' | 'error'>('idle');
+    const [sessions, setSessions] = useState<DownloadSession[]>([]); // Newest first
+    const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+    const [searchResults, setSearchResults] = useState<SearchPage | null>(null);
+    const [isLoadingMoreResults, setIsLoadingMoreResults] = useState(false);
+    const [preview, setPreview] = useState<{ url: string; details: VideoDetails } | null>(null); // Looked up, not downloaded yet
+    const [formats, setFormats] = useState<VideoFormat[]>([]);
+    const [isLoadingFormats, setIsLoadingFormats] = useState(false);
+    const [selectedFormat, setSelectedFormat] = useState<string | null>(null); // null = backend default
+    const [downloadMode, setDownloadMode] = useState<DownloadMode>('video');
+    const [audioFormat, setAudioFormat] = useState<AudioFormat>('mp3');
+    const [playlist, setPlaylist] = useState<Playlist | null>(null);
+    const [selectedEntries, setSelectedEntries] = useState<string[]>([]); // Entry ids
+    const [packaging, setPackaging] = useState<BatchPackaging>('zip');
+    const [batchJob, setBatchJob] = useState<JobSnapshot | null>(null);
+    const [subtitleSettings, setSubtitleSettings] = useState<SubtitleSettings>({
+        languages: [],
+        includeAutoGenerated: false,
+        format: 'vtt',
+        embed: false,
+    });
+    const [outputSettings, setOutputSettings] = useState<OutputSettings>({ container: null, maxHeight: null });
+    const [clipRange, setClipRange] = useState<ClipSelection | null>(null); // null = whole video
+    const [frameAccurate, setFrameAccurate] = useState(false);
+    const [retryAt, setRetryAt] = useState<number | null>(null); // Rate limited until then
+    const [retryAfter, setRetryAfter] = useState(0); // Seconds left, ticks down every second
+    // Open progress streams, by session id ('batch' for the batch job)
+    const eventSourcesRef = useRef(new Map<string, EventSource>());
 
-    // Clear error when URL changes
+    // The result shown in detail is the active session's
+    const activeSession = sessions.find(session => session.id === activeSessionId) ?? null;
+    const videoInfo = activeSession?.videoInfo ?? null;
+    const fileInfo = activeSession?.fileInfo ?? null;
+    const subtitles = activeSession?.subtitles ?? null;
+    const downloadStatus = activeSession?.status ?? 'idle';
+    const downloadProgress = activeSession?.progress ?? null;
+    const jobPhase = activeSession?.phase ?? null;
+    // The preview stays on screen while its own download runs
+    const videoDetails = preview && (!activeSession || activeSession.url === preview.url) ? preview.details : null;
+    const queuePosition = activeSession?.queuePosition ?? null;
+    const recording = activeSession?.recording ?? null;
+    const startTime = activeSession?.startTime ?? null;
+
+    // Close every open progress stream on unmount
+    useEffect(() => {
+        const eventSources = eventSourcesRef.current;
+        return () => eventSources.forEach(eventSource => eventSource.close());
+    }, []);
+
+    // Count down the wait imposed by a 429 response
+    useEffect(() => {
+        if (retryAt === null) return;
+
+        const tick = () => {
+            const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+            setRetryAfter(seconds);
+            if (seconds === 0) setRetryAt(null);
+        };
+        tick();
+
+        const intervalId = setInterval(tick, 1000);
+        return () => clearInterval(intervalId);
+    }, [retryAt]);
+
+    // A clip range belongs to the video it was selected on
+    useEffect(() => {
+        setClipRange(null);
+    }, [activeSessionId]);
+
+    // Clear error and previous formats when URL changes
     useEffect(() => {
         if (error) setError('');
+        setFormats([]);
+        setSelectedFormat(null);
     }, [url]);
 
     /**
-     * Extracts YouTube video ID from various URL formats
-     * Support for more YouTube URL patterns and validation
-     */
-    const extractVideoId = (url: string): string | null => {
-        // Support for more URL patterns including shorts
-        const patterns = [
-            /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?v=([^&]+)/i,
-            /(?:https?:\/\/)?(?:www\.)?youtu\.be\/([^?]+)/i,
-            /(?:https?:\/\/)?(?:www\.)?youtube\.com\/embed\/([^?]+)/i,
-            /(?:https?:\/\/)?(?:www\.)?youtube\.com\/v\/([^?]+)/i,
-            /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([^?&]+)/i,
-            /(?:https?:\/\/)?(?:www\.)?youtube\.com\/live\/([^?&]+)/i
-        ];
-
-        for (const pattern of patterns) {
-            const match = url.match(pattern);
-            if (match && match[1]) {
-                return match[1];
-            }
+     * Validates a video URL of any supported site, playlists and channels included
+     */
+    const validateUrl = (url: string): { valid: boolean; message?: string } => {
+        // Playlists and channels are listed instead of downloaded directly
+        if (getCollectionType(url)) {
+            return { valid: true };
         }
 
-        return null;
+        const check = checkVideoUrl(url);
+        return check.valid ? { valid: true } : { valid: false, message: describeUrlError(check, t) };
     };
 
     /**
-     * Validates a YouTube URL with better feedback
+     * Remembers how long the server asked to wait after a 429 response
+     * @returns Error message including the wait
      */
-    const validateYoutubeUrl = (url: string): { valid: boolean; message?: string } => {
-        if (!url.trim()) {
-            return { valid: false, message: 'Please enter a YouTube URL' };
+    const handleRateLimit = (response: Response, data: { message?: string; retryAfter?: number }): string => {
+        const seconds = parseInt(response.headers.get('Retry-After') || '', 10) || data.retryAfter || 0;
+        if (seconds > 0) {
+            setRetryAt(Date.now() + seconds * 1000);
         }
+        return data.message || t('errors.tooManyRequests', { seconds });
+    };
 
-        // Check if it contains youtube domain
-        if (!url.includes('youtube.com') && !url.includes('youtu.be')) {
-            return { valid: false, message: 'This does not appear to be a YouTube URL' };
-        }
+    /**
+     * Message shown for a failed request
+     * - Responses out of the API contract get a generic message, the mismatch is logged
+     */
+    const getErrorMessage = (err: unknown, fallback: string): string => {
+        if (err instanceof ContractError) return t('errors.badResponse');
+        return err instanceof Error ? err.message : fallback;
+    };
 
-        const videoId = extractVideoId(url);
-        if (!videoId) {
-            return { valid: false, message: 'Could not extract video ID from URL' };
-        }
+    /**
+     * Follows a download job through its Server-Sent Events stream
+     * - Resolves with the finished job, rejects when the job fails
+     * @param key - Session id (or 'batch'), a new stream replaces the previous one of the same key
+     * @param onUpdate - Called with every job snapshot (phase, progress, batch entries)
+     */
+    const watchJob = (eventsUrl: string, key: string, onUpdate?: (job: JobSnapshot) => void): Promise<JobSnapshot> => {
+        return new Promise((resolve, reject) => {
+            const eventSources = eventSourcesRef.current;
+            eventSources.get(key)?.close();
+            const eventSource = new EventSource(eventsUrl);
+            eventSources.set(key, eventSource);
+
+            const finish = () => {
+                eventSource.close();
+                if (eventSources.get(key) === eventSource) {
+                    eventSources.delete(key);
+                }
+            };
+
+            eventSource.onmessage = (event) => {
+                let job: JobSnapshot;
+                try {
+                    job = parse(jobSchema, JSON.parse(event.data), 'job event');
+                } catch (err) {
+                    finish();
+                    reject(err);
+                    return;
+                }
+                onUpdate?.(job);
 
-        return { valid: true };
+                if (job.phase === 'done') {
+                    finish();
+                    resolve(job);
+                } else if (job.phase === 'failed') {
+                    finish();
+                    const scheduledStart = getScheduledStart(job.error?.details);
+                    const message = scheduledStart
+                        ? t('errors.premiereAt', { date: formatDate(scheduledStart, true) })
+                        : job.error?.message || t('errors.downloadFailed');
+                    reject(new DownloadFailedError(message, job.error?.code ?? null));
+                }
+            };
+
+            eventSource.onerror = () => {
+                // The browser reconnects on its own unless the stream was closed for good
+                if (eventSource.readyState === EventSource.CLOSED) {
+                    finish();
+                    reject(new Error(t('errors.progressLost')));
+                }
+            };
+        });
     };
 
     /**
-     * Formats file size from bytes to human readable format
+     * Loads the formats available for the current URL from /api/formats
      */
-    const formatFileSize = (bytes: number): string => {
-        if (bytes === 0) return '0 Bytes';
-        const k = 1024;
-        const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(k));
-        return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+    const loadFormats = async () => {
+        const validation = validateUrl(url);
+        if (!validation.valid) return;
+
+        setIsLoadingFormats(true);
+
+        try {
+            const response = await fetch(`/api/formats?url=${encodeURIComponent(url)}`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(readErrorResponse(data).message || t('errors.formatsFailed'));
+            }
+
+            setFormats(parse(formatsResponseSchema, data, 'GET /api/formats').formats);
+        } catch (err) {
+            console.error('Format lookup error:', err);
+            setError(getErrorMessage(err, t('errors.formatsFailed')));
+        } finally {
+            setIsLoadingFormats(false);
+        }
     };
 
     /**
@@ -115,37 +342,337 @@ function useYoutube() {
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        // Reset states
+        if (isSearchQuery(url)) {
+            await searchVideos();
+            return;
+        }
+
+        setSearchResults(null);
+        if (getCollectionType(url)) {
+            await loadPlaylist();
+        } else {
+            await loadPreview();
+        }
+    };
+
+    /**
+     * Searches videos matching the keywords typed in the form
+     * @param pageToken - Continue the current search with its next page, appended to the results
+     */
+    const searchVideos = async (pageToken?: string) => {
+        const query = pageToken && searchResults ? searchResults.query : url.trim();
         setError('');
-        setVideoInfo(null);
-        setFileInfo(null);
-        setDownloadProgress(null);
 
-        // Validate URL first
-        const validation = validateYoutubeUrl(url);
+        if (pageToken) {
+            setIsLoadingMoreResults(true);
+        } else {
+            setActiveSessionId(null);
+            setPreview(null);
+            setPlaylist(null);
+            setBatchJob(null);
+            setSearchResults(null);
+            setIsLoading(true);
+        }
+
+        try {
+            const params = new URLSearchParams({ q: query });
+            if (pageToken) params.set('pageToken', pageToken);
+
+            const response = await fetch(`/api/search?${params}`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(readErrorResponse(data).message || t('errors.searchFailed'));
+            }
+
+            const page = parse(searchResponseSchema, data, 'GET /api/search');
+            setSearchResults(current => pageToken && current
+                ? { ...page, results: [...current.results, ...page.results] }
+                : page);
+        } catch (err) {
+            console.error('Search error:', err);
+            setError(getErrorMessage(err, t('errors.searchFailed')));
+        } finally {
+            setIsLoading(false);
+            setIsLoadingMoreResults(false);
+        }
+    };
+
+    /**
+     * Loads the next page of the current search
+     */
+    const loadMoreResults = async () => {
+        if (!searchResults?.nextPageToken) return;
+        await searchVideos(searchResults.nextPageToken);
+    };
+
+    /**
+     * Picks a search result: its URL goes in the form and its preview is shown
+     */
+    const selectSearchResult = async (result: SearchResult) => {
+        setUrl(result.url);
+        await loadPreview(result.url);
+    };
+
+    /**
+     * Looks up the current URL through /api/info, the download starts once the user confirms it
+     * - When the lookup service is down, the download starts right away instead
+     * - Only YouTube videos have a preview, other sites start downloading right away
+     */
+    const loadPreview = async (target = url) => {
+        setError('');
+        setActiveSessionId(null);
+        setPreview(null);
+        setPlaylist(null);
+        setBatchJob(null);
+
+        const validation = validateUrl(target);
         if (!validation.valid) {
-            setError(validation.message || 'Invalid YouTube URL');
+            setError(validation.message || t('validation.invalidUrl'));
+            return;
+        }
+
+        if (parseVideoUrl(target)?.site !== 'youtube') {
+            await startDownload({ target });
             return;
         }
 
         setIsLoading(true);
-        setDownloadStatus('processing');
+        let lookupFailed = false;
 
         try {
-            const videoId = extractVideoId(url);
+            const response = await fetch(`/api/info?url=${encodeURIComponent(target)}`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                lookupFailed = response.status === 502;
+                throw new Error(readErrorResponse(data).message || t('errors.infoFailed'));
+            }
+
+            setPreview({ url: target, details: parse(infoResponseSchema, data, 'GET /api/info').video });
+        } catch (err) {
+            console.error('Video info lookup error:', err);
+            if (!lookupFailed) {
+                setError(getErrorMessage(err, t('errors.infoFailed')));
+            }
+        } finally {
+            setIsLoading(false);
+        }
+
+        if (lookupFailed) {
+            await startDownload({ target });
+        }
+    };
 
-            // Call the API with abort controller for cancellation support
+    /**
+     * Starts the download of the video being previewed
+     */
+    const confirmPreview = async () => {
+        if (!preview) return;
+        await startDownload({ target: preview.url });
+    };
+
+    /**
+     * Lists the entries of the current playlist or channel URL, all selected by default
+     */
+    const loadPlaylist = async () => {
+        setError('');
+        setActiveSessionId(null);
+        setPreview(null);
+        setPlaylist(null);
+        setBatchJob(null);
+        setIsLoading(true);
+
+        try {
+            const response = await fetch(`/api/playlist?url=${encodeURIComponent(url)}`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(readErrorResponse(data).message || t('errors.playlistFailed'));
+            }
+
+            const listing = parse(playlistResponseSchema, data, 'GET /api/playlist');
+            setPlaylist(listing);
+            setSelectedEntries(listing.entries.filter(entry => !entry.unavailable).map(entry => entry.id));
+        } catch (err) {
+            console.error('Playlist lookup error:', err);
+            setError(getErrorMessage(err, t('errors.playlistFailed')));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    /**
+     * Selects or deselects a single playlist entry
+     */
+    const toggleEntry = (id: string) => {
+        setSelectedEntries(current =>
+            current.includes(id) ? current.filter(entryId => entryId !== id) : [...current, id]
+        );
+    };
+
+    /**
+     * Selects every available entry, or none when all are already selected
+     */
+    const toggleAllEntries = () => {
+        if (!playlist) return;
+        const available = playlist.entries.filter(entry => !entry.unavailable).map(entry => entry.id);
+        setSelectedEntries(selectedEntries.length === available.length ? [] : available);
+    };
+
+    /**
+     * Downloads the selected playlist entries as one batch job
+     */
+    const startBatchDownload = async () => {
+        if (!playlist || selectedEntries.length === 0) return;
+
+        setError('');
+        setBatchJob(null);
+
+        try {
+            const entries = playlist.entries
+                .filter(entry => selectedEntries.includes(entry.id))
+                .map(entry => ({ url: entry.url, title: entry.title }));
+
+            const response = await fetch('/api/batch', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    url,
+                    title: playlist.title,
+                    entries,
+                    packaging,
+                    format: selectedFormat ?? undefined,
+                    mode: downloadMode,
+                    audioFormat: downloadMode === 'audio' ? audioFormat : undefined,
+                    output: getOutputTarget()
+                } satisfies BatchRequest)
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                const errorData = readErrorResponse(data);
+                throw new Error(response.status === 429
+                    ? handleRateLimit(response, errorData)
+                    : errorData.message || errorData.error || t('errors.batchFailed'));
+            }
+
+            const { eventsUrl, job } = parse(createJobResponseSchema, data, 'POST /api/batch');
+            setBatchJob(job);
+
+            const finished = await watchJob(eventsUrl, 'batch', setBatchJob);
+            setBatchJob(finished);
+        } catch (err) {
+            console.error('Batch error:', err);
+            setError(getErrorMessage(err, t('errors.batchFailed')));
+        }
+    };
+
+    /**
+     * Creates a download job for the current URL and selected format, then follows it
+     * @param target - Video to download, the URL typed in the form by default
+     * @param clip - Only download this segment
+     * @param splitChapters - Get one file per chapter, bundled in a zip
+     * @param live - Record the live stream, from the start of its DVR window or from now
+     */
+    const startDownload = async (
+        { target = url, clip, splitChapters, live }: {
+            target?: string;
+            clip?: ClipSelection;
+            splitChapters?: boolean;
+            live?: { fromStart: boolean };
+        } = {}
+    ) => {
+        await submitDownload({
+            url: target,
+            format: selectedFormat ?? undefined,
+            mode: downloadMode,
+            audioFormat: downloadMode === 'audio' ? audioFormat : undefined,
+            // Captions are not available for clips nor live recordings
+            subtitles: subtitleSettings.languages.length > 0 && !clip && !live
+                ? { ...subtitleSettings, embed: downloadMode === 'video' && subtitleSettings.embed }
+                : undefined,
+            ...(clip && { start: clip.start, end: clip.end, frameAccurate }),
+            splitChapters: splitChapters || undefined,
+            live,
+            output: getOutputTarget()
+        });
+    };
+
+    /**
+     * Conversion sent with video downloads, undefined when nothing is asked
+     */
+    const getOutputTarget = (): OutputTarget | undefined => {
+        const { container, maxHeight } = outputSettings;
+        if (downloadMode !== 'video' || (!container && !maxHeight)) return undefined;
+        return { container: container ?? undefined, maxHeight: maxHeight ?? undefined };
+    };
+
+    /**
+     * Applies changes to one download session
+     */
+    const updateSession = (id: string, changes: Partial<DownloadSession>) => {
+        setSessions(current => current.map(session => session.id === id ? { ...session, ...changes } : session));
+    };
+
+    /**
+     * Sends a download request to /api/download and follows the job in a new session
+     * - The new session becomes the active one, earlier sessions keep running
+     * - Finished downloads are added to the history with the request, to fetch them again later
+     * @param request - Request body, its url is the video to download
+     */
+    const submitDownload = async (request: DownloadRequest) => {
+        setError('');
+        setPlaylist(null);
+        setBatchJob(null);
+
+        // Validate URL first
+        const validation = validateUrl(request.url);
+        if (!validation.valid) {
+            setError(validation.message || t('validation.invalidUrl'));
+            return;
+        }
+
+        // crypto.randomUUID() is missing on plain http origins other than localhost
+        const sessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        setSessions(current => [{
+            id: sessionId,
+            url: request.url,
+            request,
+            status: 'processing',
+            phase: null,
+            progress: null,
+            queuePosition: null,
+            recording: null,
+            startTime: parseVideoUrl(request.url)?.startTime ?? null,
+            jobId: null,
+            cached: false,
+            videoInfo: null,
+            fileInfo: null,
+            subtitles: null,
+            error: '',
+            errorCode: null,
+            startedAt: Date.now(),
+        }, ...current]);
+        setActiveSessionId(sessionId);
+
+        try {
+            const videoId = parseVideoUrl(request.url)?.videoId;
+
+            // Creating the job is quick, the download itself is followed through the event stream
             const abortController = new AbortController();
-            const timeoutId = setTimeout(() => abortController.abort(), 120000); // 2 minute timeout for video processing
+            const timeoutId = setTimeout(() => abortController.abort(), 30000);
 
-            console.log('Sending request to /api/download with URL:', url);
+            console.log('Sending request to /api/download with URL:', request.url);
 
             const response = await fetch('/api/download', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ url }),
+                body: JSON.stringify(request),
                 signal: abortController.signal
             });
 
@@ -154,45 +681,153 @@ function useYoutube() {
             console.log('Response status:', response.status);
 
             if (!response.ok) {
-                let errorMessage = 'Video download failed';
+                let errorMessage = t('errors.downloadFailed');
+                let errorCode: ErrorCode | null = null;
                 try {
-                    const errorData = await response.json();
+                    const errorData = readErrorResponse(await response.json());
                     console.error('Error response:', errorData);
-                    errorMessage = errorData.message || errorData.error || errorMessage;
-                } catch (e) {
+                    if (response.status === 429) {
+                        errorMessage = handleRateLimit(response, errorData);
+                    } else if (errorData.scheduledStart) {
+                        // Premieres: the start time in the user's own time zone
+                        errorMessage = t('errors.premiereAt', { date: formatDate(errorData.scheduledStart, true) });
+                    } else {
+                        errorMessage = errorData.message || errorData.error || errorMessage;
+                    }
+                    errorCode = errorData.code ?? null;
+                } catch {
                     // If JSON parsing fails, use the status text
-                    errorMessage = `Error: ${response.status} ${response.statusText}`;
+                    errorMessage = t('errors.httpStatus', { status: `${response.status} ${response.statusText}` });
                 }
-                throw new Error(errorMessage);
+                throw new DownloadFailedError(errorMessage, errorCode);
             }
 
-            const data: DownloadResponse = await response.json();
-            console.log('Success response:', data);
+            const { jobId, eventsUrl, job, cached } = parse(createJobResponseSchema, await response.json(), 'POST /api/download');
+            console.log(cached ? 'Video served from cache:' : 'Download job created:', jobId);
+            updateSession(sessionId, { jobId, phase: job.phase, cached: Boolean(cached) });
 
-            // Store video and file info with proper mapping
-            setVideoInfo({
-                ...data.videoInfo,
-                videoId: videoId ?? undefined,
-                // Ensure author field is populated (map from uploader if needed)
-                author: data.videoInfo.author || (data.videoInfo as any).uploader || 'Unknown'
+            // Cached videos come back as a finished job, no progress to follow
+            const finished = job.phase === 'done' ? job : await watchJob(eventsUrl, sessionId, update => {
+                updateSession(sessionId, {
+                    phase: update.phase,
+                    queuePosition: update.queuePosition ?? null,
+                    recording: update.phase === 'recording' ? update.recording ?? null : null,
+                    ...(update.totalBytes && {
+                        progress: Math.min(100, Math.round((update.bytesTransferred / update.totalBytes) * 100)),
+                    }),
+                });
             });
-            setFileInfo(data.file);
+            const data = finished.result;
+            if (!data) {
+                throw new Error(t('errors.downloadFailed'));
+            }
+            console.log('Download job finished:', data);
 
-            setDownloadStatus('ready');
+            const resultInfo: VideoInfo = {
+                ...data.videoInfo,
+                videoId: videoId ?? data.videoInfo.videoId,
+                author: data.videoInfo.author || t('video.unknownAuthor')
+            };
+            updateSession(sessionId, {
+                videoInfo: resultInfo,
+                fileInfo: data.file,
+                subtitles: data.subtitles ?? null,
+                phase: 'done',
+                progress: 100,
+                queuePosition: null,
+                recording: null,
+                status: 'ready',
+            });
+            addHistoryEntry(request, resultInfo, data.file);
         } catch (err) {
             console.error('Processing error:', err);
-            if (err instanceof Error) {
-                if (err.name === 'AbortError') {
-                    setError('Request timed out. Please try again.');
-                } else {
-                    setError(err.message);
-                }
-            } else {
-                setError('Unknown error occurred');
+            const message = err instanceof Error && err.name === 'AbortError'
+                ? t('errors.timeout')
+                : getErrorMessage(err, t('errors.unknown'));
+            updateSession(sessionId, {
+                status: 'error',
+                phase: 'failed',
+                recording: null,
+                error: message,
+                errorCode: err instanceof DownloadFailedError ? err.code : null,
+            });
+        }
+    };
+
+    /**
+     * Stops following a session and removes it from the list
+     * - The server job keeps running, its file expires like any other
+     */
+    const dismissSession = (id: string) => {
+        eventSourcesRef.current.get(id)?.close();
+        eventSourcesRef.current.delete(id);
+
+        const remaining = sessions.filter(session => session.id !== id);
+        setSessions(current => current.filter(session => session.id !== id));
+        if (activeSessionId === id) {
+            setActiveSessionId(remaining[0]?.id ?? null);
+        }
+    };
+
+    /**
+     * Sends the failed request of the session on screen again, the new session replaces it
+     */
+    const retrySession = async () => {
+        if (!activeSession) return;
+        const { id, request, url: target } = activeSession;
+        dismissSession(id);
+        await submitDownload({ ...request, url: target });
+    };
+
+    /**
+     * Processes the video on screen again in the selected format
+     */
+    const reprocessVideo = async () => {
+        await startDownload({ target: activeSession?.url });
+    };
+
+    /**
+     * Downloads only the segment selected in the preview
+     */
+    const downloadClip = async () => {
+        if (!clipRange) return;
+        await startDownload({ target: activeSession?.url, clip: clipRange });
+    };
+
+    /**
+     * Processes the video on screen again as one file per chapter
+     */
+    const downloadChapters = async () => {
+        await startDownload({ target: activeSession?.url, splitChapters: true });
+    };
+
+    /**
+     * Records the live stream being previewed
+     * @param fromStart - From the start of the stream when its DVR window allows, from now otherwise
+     */
+    const recordLive = async (fromStart: boolean) => {
+        if (!preview) return;
+        await startDownload({ target: preview.url, live: { fromStart } });
+    };
+
+    /**
+     * Stops the live recording on screen, what was recorded so far is processed and kept
+     */
+    const stopRecording = async () => {
+        if (!activeSession?.jobId || activeSession.phase !== 'recording') return;
+        setError('');
+
+        try {
+            const response = await fetch(`/api/jobs/${activeSession.jobId}/stop`, { method: 'POST' });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(readErrorResponse(data).message || t('errors.stopFailed'));
             }
-            setDownloadStatus('error');
-        } finally {
-            setIsLoading(false);
+            parse(jobResponseSchema, data, 'POST /api/jobs/:id/stop');
+        } catch (err) {
+            console.error('Stop recording error:', err);
+            setError(getErrorMessage(err, t('errors.stopFailed')));
         }
     };
 
@@ -200,17 +835,18 @@ function useYoutube() {
      * Initiates video file download with improved error handling and feedback
      */
     const downloadVideo = async () => {
-        if (!fileInfo) {
-            setError('No file information available');
+        if (!activeSession || !fileInfo) {
+            setError(t('errors.noFile'));
             return;
         }
 
-        setDownloadStatus('downloading');
+        const sessionId = activeSession.id;
+        updateSession(sessionId, { status: 'downloading', error: '' });
         setError('');
 
         try {
-            // Use the full URL from the API response
-            const downloadUrl = fileInfo.fullUrl;
+            // Signed link from the job result, it expires with the file
+            const downloadUrl = fileInfo.downloadUrl;
             console.log('Downloading file from:', downloadUrl);
 
             // First check if the file exists
@@ -218,7 +854,10 @@ function useYoutube() {
 
             if (!checkResponse.ok) {
                 console.error('File availability check failed:', checkResponse.status, checkResponse.statusText);
-                throw new Error(`File not available (${checkResponse.status})`);
+                if (checkResponse.status === 410) {
+                    throw new Error(t('errors.linkExpired'));
+                }
+                throw new Error(t('errors.fileUnavailable', { status: checkResponse.status }));
             }
 
             console.log('File is available, starting download...');
@@ -242,18 +881,16 @@ function useYoutube() {
 
             // Update status after brief delay
             setTimeout(() => {
-                setDownloadStatus('complete');
+                updateSession(sessionId, { status: 'complete' });
             }, 1000);
 
         } catch (err) {
             console.error('Download error:', err);
-            setDownloadStatus('error');
-
-            if (err instanceof Error) {
-                setError(`Download failed: ${err.message}`);
-            } else {
-                setError('Download failed. Please try again.');
-            }
+            updateSession(sessionId, {
+                status: 'error',
+                error: err instanceof Error ? t('errors.fileDownloadFailed', { message: err.message }) : t('errors.fileDownloadRetry'),
+                errorCode: null,
+            });
         }
     };
 
@@ -261,13 +898,35 @@ function useYoutube() {
      * Resets the form and states
      */
     const resetForm = () => {
+        eventSourcesRef.current.forEach(eventSource => eventSource.close());
+        eventSourcesRef.current.clear();
         setUrl('');
-        setVideoInfo(null);
-        setFileInfo(null);
         setError('');
         setIsLoading(false);
-        setDownloadProgress(null);
-        setDownloadStatus('idle');
+        setSessions([]);
+        setActiveSessionId(null);
+        setPreview(null);
+        setSearchResults(null);
+        setFormats([]);
+        setSelectedFormat(null);
+        setPlaylist(null);
+        setSelectedEntries([]);
+        setBatchJob(null);
+        setClipRange(null);
+    };
+
+    /**
+     * Updates part of the output conversion
+     */
+    const updateOutputSettings = (changes: Partial<OutputSettings>) => {
+        setOutputSettings(current => ({ ...current, ...changes }));
+    };
+
+    /**
+     * Updates part of the caption options
+     */
+    const updateSubtitleSettings = (changes: Partial<SubtitleSettings>) => {
+        setSubtitleSettings(current => ({ ...current, ...changes }));
     };
 
     /**
@@ -292,23 +951,107 @@ function useYoutube() {
         isLoading,
         videoInfo,
         fileInfo,
-        error,
+        videoDetails,
+        searchResults,
+        isLoadingMoreResults,
+        // The form holds keywords, submitting searches instead of downloading
+        isSearchMode: isSearchQuery(url),
+        // Form errors first, then the failure of the session on screen
+        error: error || activeSession?.error || '',
+        // Classified cause of the session failure shown, form errors have none
+        errorCode: error ? null : activeSession?.errorCode ?? null,
         downloadStatus,
         downloadProgress,
+        jobPhase,
+        queuePosition,
+        recording,
+        // Position the URL asked to start playing at, in seconds
+        startTime,
+        formats,
+        isLoadingFormats,
+        selectedFormat,
+        setSelectedFormat,
+        downloadMode,
+        setDownloadMode,
+        audioFormat,
+        setAudioFormat,
+        playlist,
+        selectedEntries,
+        packaging,
+        setPackaging,
+        batchJob,
+        subtitleSettings,
+        outputSettings,
+        subtitles,
+        clipRange,
+        setClipRange,
+        frameAccurate,
+        setFrameAccurate,
+        sessions,
+        activeSession,
+        // Seconds before the server accepts new downloads, 0 when not rate limited
+        retryAfter,
+        selectSession: setActiveSessionId,
 
         // Actions
         handleSubmit,
+        loadPreview,
+        confirmPreview,
+        loadMoreResults,
+        selectSearchResult,
+        startDownload,
+        reprocessVideo,
+        retrySession,
+        downloadClip,
+        downloadChapters,
+        recordLive,
+        stopRecording,
+        submitDownload,
+        loadFormats,
+        loadPlaylist,
+        toggleEntry,
+        toggleAllEntries,
+        startBatchDownload,
         downloadVideo,
+        dismissSession,
         resetForm,
+        updateSubtitleSettings,
+        updateOutputSettings,
 
         // Computed values
         getFormattedFileSize,
         isReadyToDownload,
 
         // Utils (in case you need them in components)
-        validateYoutubeUrl,
-        extractVideoId
+        validateUrl,
+        formatFileSize,
+        formatDuration
     };
 }
 
+type DownloadStore = ReturnType<typeof useDownloadStore>;
+
+const DownloadContext = createContext<DownloadStore | null>(null);
+
+/**
+ * Provides one download store to every component below it
+ * - Mounted once in the root layout
+ */
+export function DownloadProvider({ children }: { children: React.ReactNode }) {
+    const store = useDownloadStore();
+    return <DownloadContext.Provider value={store}>{children}</DownloadContext.Provider>;
+}
+
+/**
+ * React Hook for YouTube video download functionality
+ * - Every component gets the same shared store, see DownloadProvider
+ */
+function useYoutube(): DownloadStore {
+    const store = useContext(DownloadContext);
+    if (!store) {
+        throw new Error('useYoutube must be used inside <DownloadProvider>');
+    }
+    return store;
+}
+
 export default useYoutube;
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts
+ * - Starts the retention sweeper (Node.js runtime only, it needs the filesystem)
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startRetentionSweeper } = await import('@/lib/retention');
+    startRetentionSweeper();
+  }
+}
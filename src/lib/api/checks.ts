@@ -0,0 +1,38 @@
+import type { DownloadOptions, Job } from '@/lib/jobs';
+import type { ClipRange } from '@/lib/media/clip';
+import type { BatchRequest, DownloadRequest, JobSnapshot } from './contract';
+
+/**
+ * Compile-time contract checks, `tsc --noEmit` and `next build` fail as soon as one of them stops holding
+ * - Responses are checked where they are sent (respond) and read (parse), these cover what the types alone do not tie together
+ */
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+type Expect<T extends true> = T;
+type Extends<A, B> = [A] extends [B] ? true : false;
+
+// Request fields sent as the clip of DownloadOptions
+type ClipFields = keyof ClipRange;
+
+export type ContractChecks = [
+    // Every option parseDownloadOptions returns has a request field, and no request field is left unparsed
+    Expect<Extends<Exclude<keyof DownloadOptions, 'clip'>, keyof DownloadRequest>>,
+    Expect<Extends<Exclude<keyof DownloadRequest, 'url' | ClipFields>, keyof DownloadOptions>>,
+    Expect<Extends<ClipFields, keyof DownloadRequest>>,
+
+    // Options forwarded as sent keep the same values on both sides
+    Expect<Equal<DownloadRequest['format'], DownloadOptions['format']>>,
+    Expect<Equal<DownloadRequest['mode'], DownloadOptions['mode']>>,
+    Expect<Equal<DownloadRequest['audioFormat'], DownloadOptions['audioFormat']>>,
+    Expect<Equal<DownloadRequest['subtitles'], DownloadOptions['subtitles']>>,
+    Expect<Equal<DownloadRequest['splitChapters'], DownloadOptions['splitChapters']>>,
+    Expect<Equal<DownloadRequest['output'], DownloadOptions['output']>>,
+    Expect<Extends<DownloadOptions['live'], DownloadRequest['live']>>,
+    Expect<Extends<ClipRange['start'], DownloadRequest['start']>>,
+
+    // Batches take the options shared by every entry
+    Expect<Extends<Exclude<keyof BatchRequest, 'url' | 'title' | 'entries' | 'packaging'>, keyof DownloadOptions>>,
+
+    // Jobs are sent as they are stored, the snapshot is what clients may rely on
+    Expect<Extends<Job, JobSnapshot>>,
+];
@@ -0,0 +1,361 @@
+import type { Chapter } from '@/lib/chapters';
+import { RETRYABLE_ERRORS } from '@/lib/errors';
+import type { FormatKind, VideoFormat } from '@/lib/formats';
+import type { SearchResult, UnavailableReason, VideoDetails } from '@/lib/innertube';
+import type { AudioFormat } from '@/lib/media/audio';
+import type { LiveRecording } from '@/lib/media/recording';
+import type { SubtitleFormat, SubtitleOptions } from '@/lib/media/subtitles';
+import type { OutputTarget } from '@/lib/media/transcode';
+import type { CollectionType, PlaylistEntry } from '@/lib/playlists';
+import type { EvictionReason, RetentionPolicy } from '@/lib/retention/policy';
+import type { RemovedFile, SweepReport } from '@/lib/retention/sweeper';
+import { anyOf, array, boolean, Infer, literal, nullable, number, object, oneOf, optional, record, Schema, string, unknownValue } from './schema';
+
+// Lifecycle of a job: queued -> fetching (backend) | recording (live stream) -> [processing (ffmpeg)] -> uploading (storage) -> done | failed
+export type JobPhase = 'queued' | 'fetching' | 'recording' | 'processing' | 'uploading' | 'done' | 'failed';
+
+export type DownloadMode = 'video' | 'audio';
+
+// 'single' downloads one video, 'batch' several entries of a playlist or channel
+export type JobKind = 'single' | 'batch';
+
+// How a finished batch is delivered
+export type BatchPackaging = 'zip' | 'files';
+
+// Lifecycle of a single entry inside a batch job
+export type BatchItemPhase = 'queued' | 'running' | 'done' | 'failed';
+
+const errorCodeSchema = oneOf(RETRYABLE_ERRORS);
+
+export const chapterSchema: Schema<Chapter> = object({
+    title: string(),
+    start: number(),            // Seconds from the start of the video
+    end: number(),
+});
+
+// Video metadata of a finished download, as shown in the UI
+export const videoInfoSchema = object({
+    title: string(),
+    duration: number(),         // Seconds, 0 when unknown
+    quality: string(),          // Such as "1080p", 'Unknown Quality' when the backend does not tell
+    author: string(),           // Channel name, empty when unknown
+    viewCount: number(),
+    fileSize: number(),         // Bytes
+    thumbnail: optional(string()),
+    videoId: optional(string()), // Video id on its site
+    chapters: array(chapterSchema), // Empty when the video has no chapters
+});
+
+// Stored file of a job, reachable only through signed /api/file links
+export const jobFileSchema = object({
+    filename: string(),
+    originalFilename: string(),
+    size: number(),
+    url: string(),              // Signed link for inline playback
+    downloadUrl: string(),      // Signed link forcing a download
+    deleteUrl: optional(string()), // Signed DELETE capability, only given to the job that created the file
+    deleteExpiresAt: optional(string()), // ISO date when deleteUrl expires, as long as the file is retained
+    expiresAt: string(),        // ISO date when the read links expire
+    contentType: string(),
+});
+
+// Caption track stored next to the video
+export const subtitleFileSchema = object({
+    language: string(),
+    label: string(),
+    autoGenerated: boolean(),
+    format: oneOf<SubtitleFormat>({ vtt: true, srt: true }),
+    file: jobFileSchema,        // In the requested format
+    vttFile: jobFileSchema,     // WebVTT copy for <track> elements, same as file for vtt
+});
+
+export const subtitleResultSchema = object({
+    tracks: array(subtitleFileSchema),
+    missing: array(string()),   // Requested languages without captions
+    embedded: boolean(),        // Tracks were also added to the video container
+});
+
+export const jobResultSchema = object({
+    videoInfo: videoInfoSchema,
+    file: jobFileSchema,
+    downloadUrl: string(),
+    subtitles: optional(subtitleResultSchema),
+});
+
+// Catalog message of a job error, kept untranslated: the job routes translate message from it for each request
+export const localizedMessageSchema = object({
+    key: string(),              // Message key of the i18n catalogs
+    params: optional(record(anyOf<string | number>(string(), number()))), // Sizes in bytes, durations in seconds, dates as ISO strings
+});
+
+export const jobErrorSchema = object({
+    error: string(),            // Short error category
+    message: string(),          // Human readable explanation, in the language of the request when localized is set
+    localized: optional(localizedMessageSchema),
+    status: number(),           // HTTP status that best describes the failure
+    code: errorCodeSchema,      // Classified cause, the UI explains it
+    retryable: boolean(),       // Whether the same request may succeed later
+    details: optional(unknownValue()),
+});
+
+export const batchItemSchema = object({
+    url: string(),
+    title: string(),
+    phase: oneOf<BatchItemPhase>({ queued: true, running: true, done: true, failed: true }),
+    file: optional(jobFileSchema), // Set when delivered as individual files
+    error: optional(jobErrorSchema), // Why this entry failed, the rest of the batch goes on
+});
+
+export const batchStateSchema = object({
+    title: string(),            // Playlist or channel name, used for the archive name
+    packaging: oneOf<BatchPackaging>({ zip: true, files: true }),
+    items: array(batchItemSchema),
+    archive: optional(jobFileSchema), // Zip with every successful entry, when packaging is 'zip'
+});
+
+// Live recording in progress, or finished, on a job
+export const recordingStateSchema = object({
+    startedAt: string(),        // ISO date yt-dlp started recording
+    maxDuration: number(),      // Seconds, the recording stops by itself after that
+    fromStart: boolean(),
+    stopRequested: boolean(),   // Stopped on demand, what was recorded so far is kept
+});
+
+// Job as reported by /api/jobs/:id and its event stream
+export const jobSchema = object({
+    id: string(),
+    kind: oneOf<JobKind>({ single: true, batch: true }),
+    phase: oneOf<JobPhase>({
+        queued: true,
+        fetching: true,
+        recording: true,
+        processing: true,
+        uploading: true,
+        done: true,
+        failed: true,
+    }),
+    bytesTransferred: number(), // Bytes received from the backend so far
+    totalBytes: nullable(number()), // Expected size, when the backend reports it
+    queuePosition: optional(nullable(number())), // Place in the wait queue while every slot is busy (1 = next)
+    recording: optional(recordingStateSchema), // Set on live recordings once they start
+    createdAt: string(),
+    updatedAt: string(),
+    result: optional(jobResultSchema),
+    batch: optional(batchStateSchema),
+    error: optional(jobErrorSchema),
+});
+
+// POST /api/download and POST /api/batch
+export const createJobResponseSchema = object({
+    success: literal(true),
+    message: string(),
+    cached: optional(boolean()), // The video was already stored, the job is finished
+    jobId: string(),
+    statusUrl: string(),
+    eventsUrl: string(),        // Server-Sent Events with every job snapshot
+    job: jobSchema,
+    timestamp: string(),
+});
+
+// GET /api/jobs/:id and POST /api/jobs/:id/stop
+export const jobResponseSchema = object({
+    success: literal(true),
+    job: jobSchema,
+});
+
+// DELETE /api/file
+export const deleteFileResponseSchema = object({
+    success: literal(true),
+    message: string(),
+});
+
+// Details of a YouTube video looked up before downloading it
+export const videoDetailsSchema: Schema<VideoDetails> = object({
+    videoId: string(),
+    title: string(),
+    author: string(),
+    duration: nullable(number()), // Seconds, null for live streams
+    thumbnail: nullable(string()),
+    viewCount: nullable(number()),
+    uploadDate: nullable(string()), // ISO date
+    description: string(),
+    isLive: boolean(),
+    scheduledStart: nullable(string()), // ISO start of a premiere or live event, while it is upcoming
+    downloadable: boolean(),
+    unavailableReason: nullable(oneOf<UnavailableReason>({ private: true, age_restricted: true, upcoming: true, unavailable: true })),
+    unavailableMessage: nullable(string()),
+});
+
+// GET /api/info
+export const infoResponseSchema = object({
+    success: literal(true),
+    video: videoDetailsSchema,
+});
+
+export const searchResultSchema: Schema<SearchResult> = object({
+    videoId: string(),
+    url: string(),
+    title: string(),
+    channel: string(),
+    duration: nullable(number()),
+    thumbnail: nullable(string()),
+    isLive: boolean(),
+});
+
+// GET /api/search, one page of results
+export const searchResponseSchema = object({
+    success: literal(true),
+    query: string(),
+    results: array(searchResultSchema),
+    nextPageToken: nullable(string()), // Send back with the same query for the following page
+});
+
+export const videoFormatSchema: Schema<VideoFormat> = object({
+    formatId: string(),
+    kind: oneOf<FormatKind>({ 'video': true, 'audio': true, 'video+audio': true }),
+    ext: string(),
+    resolution: nullable(string()),
+    height: nullable(number()),
+    fps: nullable(number()),
+    vcodec: nullable(string()),
+    acodec: nullable(string()),
+    bitrate: nullable(number()),    // KBit/s
+    estimatedSize: nullable(number()), // Bytes
+    note: nullable(string()),
+    selector: string(),             // yt-dlp format selector to send to /api/download
+});
+
+// GET /api/formats
+export const formatsResponseSchema = object({
+    success: literal(true),
+    videoId: string(),
+    title: string(),
+    duration: nullable(number()),
+    chapters: array(chapterSchema),
+    formats: array(videoFormatSchema),
+    presets: array(object({ id: string(), selector: string() })), // Shortcuts on top of the formats
+});
+
+export const playlistEntrySchema: Schema<PlaylistEntry> = object({
+    id: string(),
+    url: string(),
+    title: string(),
+    duration: nullable(number()),
+    thumbnail: nullable(string()),
+    unavailable: boolean(),         // Listed but cannot be downloaded
+});
+
+// GET /api/playlist
+export const playlistResponseSchema = object({
+    success: literal(true),
+    id: string(),
+    type: oneOf<CollectionType>({ playlist: true, channel: true }),
+    title: string(),
+    uploader: nullable(string()),
+    entries: array(playlistEntrySchema),
+    truncated: boolean(),           // More entries exist than were listed
+});
+
+export const retentionPolicySchema: Schema<RetentionPolicy> = object({
+    tempTtlMs: number(),
+    fileTtlMs: number(),            // 0 keeps stored files
+    quotaBytes: number(),           // 0 for no quota
+    sweepIntervalMs: number(),
+    dryRun: boolean(),
+});
+
+const removedFileSchema: Schema<RemovedFile> = object({
+    target: oneOf<RemovedFile['target']>({ temp: true, storage: true }),
+    pathname: string(),
+    size: number(),
+    reason: oneOf<EvictionReason>({ expired: true, quota: true }),
+    lastAccessedAt: optional(string()),
+});
+
+export const sweepReportSchema: Schema<SweepReport> = object({
+    startedAt: string(),
+    finishedAt: string(),
+    trigger: oneOf<SweepReport['trigger']>({ schedule: true, manual: true }),
+    dryRun: boolean(),
+    policy: retentionPolicySchema,
+    removed: array(removedFileSchema),
+    removedBytes: number(),
+    kept: object({ files: number(), bytes: number() }),
+    errors: array(object({ pathname: string(), message: string() })),
+    reportPath: optional(string()),
+});
+
+// GET /api/retention
+export const retentionResponseSchema = object({
+    success: literal(true),
+    policy: retentionPolicySchema,
+    reports: array(sweepReportSchema), // Newest first
+});
+
+// POST /api/retention
+export const sweepResponseSchema = object({
+    success: literal(true),
+    report: sweepReportSchema,
+});
+
+// Every failed API request (4xx / 5xx)
+export const errorResponseSchema = object({
+    success: optional(literal(false)),
+    error: string(),            // Short error category, in English
+    message: optional(string()), // Explanation in the language of the request
+    code: optional(errorCodeSchema), // Classified cause of download failures
+    retryable: optional(boolean()),
+    retryAfter: optional(number()), // Seconds, on 429 responses
+    scheduledStart: optional(nullable(string())), // ISO start of a premiere, when known
+    details: optional(unknownValue()),
+});
+
+export type VideoInfo = Infer<typeof videoInfoSchema>;
+export type JobFile = Infer<typeof jobFileSchema>;
+export type SubtitleFile = Infer<typeof subtitleFileSchema>;
+export type SubtitleResult = Infer<typeof subtitleResultSchema>;
+export type JobResult = Infer<typeof jobResultSchema>;
+export type LocalizedMessage = Infer<typeof localizedMessageSchema>;
+export type JobError = Infer<typeof jobErrorSchema>;
+export type BatchItem = Infer<typeof batchItemSchema>;
+export type BatchState = Infer<typeof batchStateSchema>;
+export type RecordingState = Infer<typeof recordingStateSchema>;
+export type JobSnapshot = Infer<typeof jobSchema>;
+export type CreateJobResponse = Infer<typeof createJobResponseSchema>;
+export type JobResponse = Infer<typeof jobResponseSchema>;
+export type DeleteFileResponse = Infer<typeof deleteFileResponseSchema>;
+export type InfoResponse = Infer<typeof infoResponseSchema>;
+export type SearchResponse = Infer<typeof searchResponseSchema>;
+export type FormatsResponse = Infer<typeof formatsResponseSchema>;
+export type PlaylistResponse = Infer<typeof playlistResponseSchema>;
+export type RetentionResponse = Infer<typeof retentionResponseSchema>;
+export type SweepResponse = Infer<typeof sweepResponseSchema>;
+export type ErrorResponse = Infer<typeof errorResponseSchema>;
+
+/**
+ * Body of POST /api/download
+ * - Validated on the server by parseDownloadOptions, which also applies the defaults
+ */
+export interface DownloadRequest {
+    url: string;                // Video of any supported site
+    format?: string;            // yt-dlp format selector, as listed by /api/formats
+    mode?: DownloadMode;
+    audioFormat?: AudioFormat;  // Audio mode only
+    subtitles?: SubtitleOptions;
+    start?: number | string;    // Clip bounds, seconds or "hh:mm:ss"
+    end?: number | string;
+    frameAccurate?: boolean;
+    splitChapters?: boolean;
+    live?: Partial<LiveRecording>; // maxDuration defaults to the configured maximum
+    output?: OutputTarget;      // Video mode only
+}
+
+/**
+ * Body of POST /api/batch, the options apply to every entry
+ */
+export interface BatchRequest extends Pick<DownloadRequest, 'format' | 'mode' | 'audioFormat' | 'output'> {
+    url?: string;               // Playlist or channel the entries come from
+    title?: string;
+    entries: { url: string; title?: string }[];
+    packaging?: BatchPackaging;
+}
@@ -0,0 +1,50 @@
+/**
+ * Shared API contract: request and response types of every API route
+ * - Every response type is inferred from a runtime schema, routes and the client validate with the same one
+ * - Client-safe, the route helpers live in '@/lib/api/server'
+ */
+export type { CheckResult, Infer, Schema } from './schema';
+export { ContractError, parse } from './schema';
+export type {
+    BatchItem,
+    BatchItemPhase,
+    BatchPackaging,
+    BatchRequest,
+    BatchState,
+    CreateJobResponse,
+    DeleteFileResponse,
+    DownloadMode,
+    DownloadRequest,
+    ErrorResponse,
+    FormatsResponse,
+    InfoResponse,
+    JobError,
+    JobFile,
+    JobKind,
+    JobPhase,
+    JobResponse,
+    JobResult,
+    JobSnapshot,
+    LocalizedMessage,
+    PlaylistResponse,
+    RecordingState,
+    RetentionResponse,
+    SearchResponse,
+    SubtitleFile,
+    SubtitleResult,
+    SweepResponse,
+    VideoInfo,
+} from './contract';
+export {
+    createJobResponseSchema,
+    deleteFileResponseSchema,
+    errorResponseSchema,
+    formatsResponseSchema,
+    infoResponseSchema,
+    jobResponseSchema,
+    jobSchema,
+    playlistResponseSchema,
+    retentionResponseSchema,
+    searchResponseSchema,
+    sweepResponseSchema,
+} from './contract';
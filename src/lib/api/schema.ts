@@ -0,0 +1,203 @@
+export type CheckResult<T> =
+    | { valid: true; value: T }
+    | { valid: false; path: string; expected: string };
+
+/**
+ * Runtime description of a value sent over the API
+ * - The TypeScript type is inferred from it with Infer, so both always agree
+ */
+export interface Schema<T> {
+    expected: string;           // What the schema accepts, for error messages
+    optional?: boolean;         // The field may be left out of its object
+    /**
+     * Validates a value
+     * @param path - Where the value sits in the checked document, reported on mismatches
+     * @returns The value, objects reduced to their declared fields, or the first mismatch
+     */
+    check(value: unknown, path: string): CheckResult<T>;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+    optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+
+// Flattens the required / optional halves into one plain object type
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOf<S extends Shape> = Flatten<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/**
+ * A value that does not match the shared API contract
+ */
+export class ContractError extends Error {
+    constructor(message: string, public readonly path: string) {
+        super(message);
+        this.name = 'ContractError';
+    }
+}
+
+/**
+ * Builds a schema from a type guard
+ */
+function fromGuard<T>(expected: string, guard: (value: unknown) => value is T): Schema<T> {
+    return {
+        expected,
+        check: (value, path) => guard(value) ? { valid: true, value } : { valid: false, path, expected },
+    };
+}
+
+export const string = (): Schema<string> =>
+    fromGuard('a string', (value): value is string => typeof value === 'string');
+
+export const number = (): Schema<number> =>
+    fromGuard('a number', (value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+export const boolean = (): Schema<boolean> =>
+    fromGuard('a boolean', (value): value is boolean => typeof value === 'boolean');
+
+// Free-form values, such as error details
+export const unknownValue = (): Schema<unknown> =>
+    fromGuard('any value', (value): value is unknown => value !== undefined);
+
+/**
+ * Accepts exactly one value, for flags such as `success: true`
+ */
+export function literal<T extends string | number | boolean>(expected: T): Schema<T> {
+    return fromGuard(JSON.stringify(expected), (value): value is T => value === expected);
+}
+
+/**
+ * Accepts the keys of a record, typed as the record's key union
+ * - Keyed by a union type, the record fails to compile when a value is added to or removed from the union
+ * @example oneOf<DownloadMode>({ video: true, audio: true })
+ */
+export function oneOf<T extends string>(values: Record<T, unknown>): Schema<T> {
+    const allowed: string[] = Object.keys(values);
+    return fromGuard(
+        `one of ${allowed.join(', ')}`,
+        (value): value is T => typeof value === 'string' && allowed.includes(value)
+    );
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+        expected: `${inner.expected} or null`,
+        check: (value, path) => value === null ? { valid: true, value: null } : inner.check(value, path),
+    };
+}
+
+/**
+ * Marks an object field that may be left out
+ */
+export function optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return {
+        expected: inner.expected,
+        optional: true,
+        check: (value, path) => value === undefined ? { valid: true, value: undefined } : inner.check(value, path),
+    };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+    const expected = `a list of ${item.expected}`;
+    return {
+        expected,
+        check(value, path) {
+            if (!Array.isArray(value)) return { valid: false, path, expected };
+
+            const items: T[] = [];
+            for (let index = 0; index < value.length; index++) {
+                const result = item.check(value[index], `${path}[${index}]`);
+                if (!result.valid) return result;
+                items.push(result.value);
+            }
+            return { valid: true, value: items };
+        },
+    };
+}
+
+/**
+ * Object used as a dictionary, every value matching the item schema
+ */
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+    const expected = `an object of ${item.expected}`;
+    return {
+        expected,
+        check(value, path) {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return { valid: false, path, expected };
+            }
+
+            const entries: Record<string, T> = {};
+            for (const [key, entry] of Object.entries(value)) {
+                const result = item.check(entry, `${path}.${key}`);
+                if (!result.valid) return result;
+                entries[key] = result.value;
+            }
+            return { valid: true, value: entries };
+        },
+    };
+}
+
+/**
+ * Accepts a value matching any of the schemas
+ * @example anyOf<string | number>(string(), number())
+ */
+export function anyOf<T>(...options: Schema<T>[]): Schema<T> {
+    const expected = options.map(option => option.expected).join(' or ');
+    return {
+        expected,
+        check(value, path) {
+            for (const option of options) {
+                const result = option.check(value, path);
+                if (result.valid) return result;
+            }
+            return { valid: false, path, expected };
+        },
+    };
+}
+
+/**
+ * Object with the given fields
+ * - Undeclared fields are allowed and left out of the checked value
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+    const expected = 'an object';
+    return {
+        expected,
+        check(value, path) {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return { valid: false, path, expected };
+            }
+
+            const fields: Record<string, unknown> = {};
+            for (const [key, field] of Object.entries(shape)) {
+                const result = field.check((value as Record<string, unknown>)[key], `${path}.${key}`);
+                if (!result.valid) return result;
+                if (result.value !== undefined) fields[key] = result.value;
+            }
+            return { valid: true, value: fields as ObjectOf<S> };
+        },
+    };
+}
+
+/**
+ * Validates a value against a schema
+ * @param label - Name of the checked document, such as 'POST /api/download', it starts the reported path
+ * @throws ContractError naming the first field that does not match
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, label: string): T {
+    const result = schema.check(value, label);
+    if (!result.valid) {
+        throw new ContractError(`${result.path} should be ${result.expected}`, result.path);
+    }
+    return result.value;
+}
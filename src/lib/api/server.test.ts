@@ -0,0 +1,20 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { jobResponseSchema } from './contract';
+import { respond } from './server';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('respond', () => {
+    it('logs a body out of contract and sends it anyway', async () => {
+        const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const body = { success: true, job: { id: 'job-1' } } as never;
+
+        const response = respond(jobResponseSchema, body, { status: 200 });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual(body);
+        expect(log).toHaveBeenCalledWith('API response out of contract: response.job.kind should be one of single, batch');
+    });
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { errorResponseSchema, ErrorResponse } from './contract';
+import type { Schema } from './schema';
+
+/**
+ * Sends a JSON response of the shared API contract
+ * - The body is typed by the schema, a route that drifts from the contract fails to compile
+ * - It is also checked at runtime: a mismatch is logged and the body is sent anyway, the route tests parse every response
+ * @param schema - Response schema from '@/lib/api'
+ * @param body - Sent as is, fields outside the contract included
+ */
+export function respond<T>(schema: Schema<T>, body: NoInfer<T>, init?: ResponseInit): NextResponse {
+    const result = schema.check(body, 'response');
+    if (!result.valid) {
+        console.error(`API response out of contract: ${result.path} should be ${result.expected}`);
+    }
+
+    return NextResponse.json(body, init);
+}
+
+/**
+ * Sends a failed request as { success: false, error, message, ... }
+ * @param status - HTTP status, 4xx or 5xx
+ */
+export function respondError(body: Omit<ErrorResponse, 'success'>, status: number, headers?: HeadersInit): NextResponse {
+    return respond(errorResponseSchema, { success: false, ...body }, { status, headers });
+}
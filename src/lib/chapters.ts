@@ -0,0 +1,26 @@
+import type youtubeDl from 'youtube-dl-exec';
+
+// Chapter of a video, in seconds from the start
+export interface Chapter {
+    title: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Builds the chapter list from yt-dlp metadata
+ * - Chapters without an end run until the next one (or the end of the video)
+ * - Empty or reversed chapters are dropped
+ * @param metadata - yt-dlp metadata (or the info JSON printed with --dump-json)
+ */
+export function toChapters(metadata: Pick<youtubeDl.Response, 'chapters' | 'duration'>): Chapter[] {
+    const rawChapters = [...(metadata.chapters ?? [])].sort((a, b) => a.start_time - b.start_time);
+
+    return rawChapters
+        .map((chapter, index): Chapter => ({
+            title: chapter.title?.trim() || `Chapter ${index + 1}`,
+            start: chapter.start_time,
+            end: chapter.end_time ?? rawChapters[index + 1]?.start_time ?? metadata.duration ?? chapter.start_time,
+        }))
+        .filter(chapter => Number.isFinite(chapter.start) && chapter.end > chapter.start);
+}
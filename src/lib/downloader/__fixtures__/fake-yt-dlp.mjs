@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+/**
+ * Fake yt-dlp for the local downloader and metadata route tests, set as YTDLP_PATH
+ * - FAKE_YTDLP_SCENARIO picks the behaviour: 'download' (default), 'private', 'long', 'live', 'premiere'
+ * - FAKE_YTDLP_ARGS_FILE receives the arguments it was called with, as JSON
+ * - Metadata lookups (--skip-download, --flat-playlist) print one JSON document and download nothing
+ * - Honours --output (refused videos leave a .part file there) and prints what --dump-json, --progress-template and --print after_move:filepath would
+ */
+import fs from 'fs';
+
+const args = process.argv.slice(2);
+const scenario = process.env.FAKE_YTDLP_SCENARIO || 'download';
+
+if (process.env.FAKE_YTDLP_ARGS_FILE) {
+    fs.writeFileSync(process.env.FAKE_YTDLP_ARGS_FILE, JSON.stringify(args));
+}
+
+const info = {
+    id: 'dQw4w9WgXcQ',
+    title: 'Fake video',
+    duration: scenario === 'long' ? 7200 : 212,
+    duration_string: scenario === 'long' ? '2:00:00' : '3:32',
+    uploader: 'Fake Channel',
+    channel_id: 'UCfake',
+    view_count: 42,
+    upload_date: '20240101',
+    format_note: '720p',
+    ext: 'mp4',
+    live_status: scenario === 'live' ? 'is_live' : scenario === 'premiere' ? 'is_upcoming' : 'not_live',
+    release_timestamp: scenario === 'premiere' ? 1893456000 : null,
+    chapters: [{ title: 'Intro', start_time: 0, end_time: 60 }, { title: 'Song', start_time: 60, end_time: 212 }],
+};
+
+if (args.includes('--flat-playlist')) {
+    console.log(JSON.stringify({
+        id: 'PLfake',
+        title: 'Fake playlist',
+        uploader: 'Fake Channel',
+        entries: [
+            { id: 'dQw4w9WgXcQ', url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', title: 'Fake video', duration: 212 },
+            { id: 'xxxxxxxxxxx', title: '[Private video]', duration: null },
+        ],
+    }));
+    process.exit(0);
+}
+
+if (args.includes('--skip-download') && scenario === 'download') {
+    console.log(JSON.stringify({
+        ...info,
+        formats: [
+            { format_id: '137', ext: 'mp4', vcodec: 'avc1', acodec: 'none', width: 1920, height: 1080, fps: 30, tbr: 4000, filesize: 100000000 },
+            { format_id: '140', ext: 'm4a', vcodec: 'none', acodec: 'mp4a', abr: 128, tbr: 128, filesize: 3000000 },
+        ],
+    }));
+    process.exit(0);
+}
+
+if (scenario === 'private') {
+    process.stderr.write("ERROR: [youtube] dQw4w9WgXcQ: Private video. Sign in if you've been granted access to this video\n");
+    process.exit(1);
+}
+
+console.log(JSON.stringify(info));
+
+const output = args[args.indexOf('--output') + 1].replace('%(ext)s', 'mp4');
+
+// Refused videos are stopped by the downloader (SIGTERM) while this waits, leaving a partial file behind
+if (scenario !== 'download') {
+    fs.writeFileSync(`${output}.part`, Buffer.alloc(100, 1));
+    setTimeout(() => process.exit(0), 10000);
+} else {
+    // Separate video and audio streams, each counting from 0, then the merged file
+    for (const [downloaded, total] of [[0, 600], [300, 600], [600, 600], [0, 400], [400, 400]]) {
+        console.log(`[progress] ${downloaded} ${total} NA`);
+    }
+
+    fs.writeFileSync(output, Buffer.alloc(1000, 1));
+    console.log(output);
+}
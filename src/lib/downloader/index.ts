@@ -0,0 +1,49 @@
+import { getGlobalSingleton } from '@/lib/global';
+import { getStubBackendConfig } from '@/lib/stub-backend';
+import { createLocalDownloader } from './local';
+import { createRemoteDownloader } from './remote';
+import type { DownloaderName, DownloaderProvider } from './types';
+
+export type { DownloadContext, DownloadedMedia, DownloaderName, DownloaderProvider, DownloadRequest } from './types';
+export { DownloaderError, limitExceededError, liveStreamError, localizedMessage, premiereError, processingTimeoutError, toStorageError } from './types';
+
+/**
+ * Resolves the downloader from the DOWNLOADER environment variable
+ * - Defaults to the NestJS backend when BACKEND_URL is set (or its stub with STUB_BACKEND=true), yt-dlp in-process otherwise
+ */
+export function getDownloaderName(): DownloaderName {
+    const configured = process.env.DOWNLOADER;
+
+    if (configured === 'remote' || configured === 'local') {
+        return configured;
+    }
+
+    if (configured) {
+        console.warn(`Unknown DOWNLOADER "${configured}", falling back to default`);
+    }
+
+    return process.env.BACKEND_URL || getStubBackendConfig().enabled ? 'remote' : 'local';
+}
+
+/**
+ * Returns the configured downloader, created once per process and shared by every route
+ */
+export function getDownloader(): DownloaderProvider {
+    return getGlobalSingleton('downloader', () => {
+        const name = getDownloaderName();
+        console.log(`Using ${name} downloader`);
+        return name === 'remote' ? createRemoteDownloader() : createLocalDownloader();
+    });
+}
+
+/**
+ * Returns the downloader used for live recordings
+ * - Always yt-dlp in-process: a recording is stopped by signalling yt-dlp, the NestJS backend cannot do that
+ */
+export function getRecorder(): DownloaderProvider {
+    if (getDownloaderName() === 'local') {
+        return getDownloader();
+    }
+
+    return getGlobalSingleton('recorder', () => createLocalDownloader());
+}
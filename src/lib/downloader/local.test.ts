@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TEMP_DIR } from '@/lib/file-system';
+import { DownloaderError, DownloaderProvider } from './types';
+
+const FAKE_YTDLP = path.join(__dirname, '__fixtures__', 'fake-yt-dlp.mjs');
+const VIDEO_URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+let downloader: DownloaderProvider;
+let workDir: string;
+let argsFile: string;
+
+function readArgs(): string[] {
+    return JSON.parse(fs.readFileSync(argsFile, 'utf8'));
+}
+
+async function downloadError(promise: Promise<unknown>): Promise<DownloaderError> {
+    const error = await promise.then(() => null, (reason: unknown) => reason);
+    expect(error).toBeInstanceOf(DownloaderError);
+    return error as DownloaderError;
+}
+
+beforeAll(async () => {
+    // YTDLP_PATH is read when '@/lib/ytdlp' loads
+    process.env.YTDLP_PATH = FAKE_YTDLP;
+    const { createLocalDownloader } = await import('./local');
+    downloader = createLocalDownloader();
+
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tubechain-ytdlp-'));
+    argsFile = path.join(workDir, 'args.json');
+    process.env.FAKE_YTDLP_ARGS_FILE = argsFile;
+});
+
+beforeEach(() => {
+    delete process.env.FAKE_YTDLP_SCENARIO;
+});
+
+afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('local downloader', () => {
+    it('builds the yt-dlp arguments with the URL last, after --', async () => {
+        const media = await downloader.download({
+            url: VIDEO_URL,
+            format: '137+140',
+            clip: { start: 10, end: 75.5, frameAccurate: true },
+            maxFileSize: 5000,
+        }, { jobId: 'args' });
+        media.cleanup();
+
+        const args = readArgs();
+        expect(args.slice(-2)).toEqual(['--', VIDEO_URL]);
+        expect(args[args.indexOf('--format') + 1]).toBe('137+140');
+        expect(args[args.indexOf('--download-sections') + 1]).toBe('*00:00:10.000-00:01:15.500');
+        expect(args).toContain('--force-keyframes-at-cuts');
+        expect(args[args.indexOf('--max-filesize') + 1]).toBe('5000');
+        expect(args).not.toContain('--live-from-start');
+    });
+
+    it('falls back to the default format and records live streams as MPEG-TS', async () => {
+        process.env.FAKE_YTDLP_SCENARIO = 'live';
+
+        await downloadError(downloader.download({ url: VIDEO_URL }, { jobId: 'defaults' }));
+        expect(readArgs()[readArgs().indexOf('--format') + 1]).toBe('bv*+ba/b');
+
+        await downloadError(downloader.download({ url: VIDEO_URL, live: { maxDuration: 0.01, fromStart: true } }, { jobId: 'live' }));
+        expect(readArgs()).toEqual(expect.arrayContaining(['--hls-use-mpegts', '--no-part', '--live-from-start']));
+    });
+
+    it('reports cumulative progress across streams and returns the file with its metadata', async () => {
+        const progress: Array<[number, number | null]> = [];
+        const media = await downloader.download({ url: VIDEO_URL }, {
+            jobId: 'progress',
+            onProgress: (bytes, totalBytes) => progress.push([bytes, totalBytes]),
+        });
+
+        try {
+            expect(progress).toEqual([[0, 600], [300, 600], [600, 600], [600, 1000], [1000, 1000]]);
+            expect(media.totalBytes).toBe(1000);
+            expect(media.contentType).toBe('video/mp4');
+            expect(media.originalFilename).toBe('Fake video.mp4');
+            expect(media.videoInfo).toMatchObject({
+                id: 'dQw4w9WgXcQ',
+                title: 'Fake video',
+                duration: 212,
+                author: { name: 'Fake Channel', channelId: 'UCfake' },
+                quality: '720p',
+                chapters: [{ title: 'Intro', start: 0, end: 60 }, { title: 'Song', start: 60, end: 212 }],
+            });
+
+            const body = new Uint8Array(await new Response(media.stream).arrayBuffer());
+            expect(body.length).toBe(1000);
+        } finally {
+            media.cleanup();
+        }
+        expect(fs.existsSync(media.filePath!)).toBe(false);
+    });
+
+    it('maps yt-dlp errors to error codes', async () => {
+        process.env.FAKE_YTDLP_SCENARIO = 'private';
+
+        const error = await downloadError(downloader.download({ url: VIDEO_URL }, { jobId: 'private' }));
+        expect(error.status).toBe(502);
+        expect(error.code).toBe('private');
+        expect(error.message).toMatch(/^\[youtube\] dQw4w9WgXcQ: Private video/);
+    });
+
+    it('stops yt-dlp when the video is longer than allowed, without leaving its partial output', async () => {
+        process.env.FAKE_YTDLP_SCENARIO = 'long';
+
+        const error = await downloadError(downloader.download({ url: VIDEO_URL, maxDuration: 600 }, { jobId: 'long' }));
+        expect(error.status).toBe(413);
+        expect(error.code).toBe('too-large');
+        expect(error.details).toEqual({ kind: 'duration', value: 7200, limit: 600 });
+        expect(fs.readdirSync(TEMP_DIR).filter(file => file.includes('local_long'))).toEqual([]);
+    });
+
+    it('refuses live streams without a recording and premieres', async () => {
+        process.env.FAKE_YTDLP_SCENARIO = 'live';
+        const live = await downloadError(downloader.download({ url: VIDEO_URL }, { jobId: 'live' }));
+        expect(live.code).toBe('live-in-progress');
+
+        process.env.FAKE_YTDLP_SCENARIO = 'premiere';
+        const premiere = await downloadError(downloader.download({ url: VIDEO_URL }, { jobId: 'premiere' }));
+        expect(premiere.code).toBe('premiere');
+        expect(premiere.details).toEqual({ scheduledStart: '2030-01-01T00:00:00.000Z' });
+    });
+});
@@ -0,0 +1,379 @@
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { YTDLP_BINARY } from '@/lib/ytdlp';
+import { formatTimestamp } from '@/lib/media/clip';
+import { toChapters } from '@/lib/chapters';
+import { classifyError } from '@/lib/errors';
+import { finalizeRecording } from '@/lib/media/recording';
+import type { BackendVideoInfo } from '@/lib/jobs/types';
+import { getRetentionPolicy } from '@/lib/retention/policy';
+import {
+    TEMP_DIR,
+    cleanExtraFiles,
+    cleanTempDirectory,
+    ensureTempDirectoryExists,
+    generateSafeFilename,
+    getContentTypeFromFilename,
+} from '@/lib/file-system';
+import {
+    DownloaderError,
+    DownloaderProvider,
+    DownloadContext,
+    DownloadedMedia,
+    DownloadRequest,
+    limitExceededError,
+    liveStreamError,
+    premiereError,
+} from './types';
+
+// Same default as the NestJS backend: best video and audio, or the best single file
+const DEFAULT_FORMAT = 'bv*+ba/b';
+
+// Marker of the progress lines printed by --progress-template
+const PROGRESS_PREFIX = '[progress]';
+
+// Keep the last lines of stderr for error reports
+const MAX_STDERR_LENGTH = 4000;
+
+// Time yt-dlp gets to close a stopped recording before it is killed
+const STOP_GRACE_MS = 30 * 1000;
+
+// Media files a recording can leave behind, fragments and metadata are skipped
+const RECORDING_EXTENSIONS = /\.(mp4|m4a|webm|ts|mkv)$/i;
+
+interface YtdlpRunResult {
+    info: Record<string, unknown> | null;
+    filePath: string | null;
+    recording: boolean;         // The video was live and got recorded
+    stopped: boolean;           // The recording was ended before the broadcast did
+}
+
+/**
+ * Converts the yt-dlp info JSON into the video info sent by the NestJS backend (X-Video-Info)
+ * - Missing fields are left out so the job's defaults apply
+ */
+function toVideoInfo(info: Record<string, unknown>): Partial<BackendVideoInfo> {
+    const pick = <T>(key: string): T | undefined => (info[key] ?? undefined) as T | undefined;
+
+    const videoInfo: Partial<BackendVideoInfo> = {
+        id: pick<string>('id'),
+        title: pick<string>('title'),
+        description: pick<string>('description'),
+        duration: pick<number>('duration'),
+        durationFormatted: pick<string>('duration_string'),
+        thumbnail: pick<string>('thumbnail'),
+        author: {
+            name: pick<string>('uploader') ?? pick<string>('channel') ?? '',
+            channelId: pick<string>('channel_id') ?? '',
+        },
+        viewCount: pick<number>('view_count'),
+        uploadDate: pick<string>('upload_date'),
+        quality: pick<string>('format_note') ?? pick<string>('resolution'),
+        format: pick<string>('ext'),
+        chapters: info.chapters ? toChapters(info) : undefined,
+    };
+
+    return Object.fromEntries(
+        Object.entries(videoInfo).filter(([, value]) => value !== undefined)
+    ) as Partial<BackendVideoInfo>;
+}
+
+/**
+ * Runs yt-dlp and waits for it to exit
+ * - stdout carries the info JSON (--dump-json), progress lines and the final file path
+ * - Progress is cumulative, separate video and audio streams add up before the merge
+ * - yt-dlp is stopped as soon as the video turns out too long or the download too large
+ * - The info JSON tells live streams apart: they are refused unless a recording was asked for, premieres always are
+ * - Recordings end after their maximum duration, on the stop signal or at the size limit, keeping what was recorded
+ * @param args - yt-dlp arguments
+ * @param context - Job id, progress callback and recording hooks
+ * @param limits - Duration (seconds) and size (bytes) limits, 0 or missing for none, and the live recording
+ */
+function runYtdlp(
+    args: string[],
+    { jobId, onProgress, onRecordingStart, stopSignal }: DownloadContext,
+    { maxDuration, maxFileSize, live }: Pick<DownloadRequest, 'maxDuration' | 'maxFileSize' | 'live'> = {}
+): Promise<YtdlpRunResult> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(YTDLP_BINARY, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+        const result: YtdlpRunResult = { info: null, filePath: null, recording: false, stopped: false };
+        let stdoutBuffer = '';
+        let stderr = '';
+        let limitError: DownloaderError | null = null;
+        let recordingTimer: NodeJS.Timeout | undefined;
+        let killTimer: NodeJS.Timeout | undefined;
+
+        const abort = (error: DownloaderError) => {
+            if (limitError) return;
+            limitError = error;
+            console.log(`[job ${jobId}] Stopping yt-dlp: ${error.message}`);
+            child.kill('SIGTERM');
+        };
+
+        // yt-dlp closes the recording on SIGINT, like Ctrl+C in a terminal
+        const stopRecording = (reason: string) => {
+            if (result.stopped || limitError) return;
+            result.stopped = true;
+            console.log(`[job ${jobId}] Stopping live recording: ${reason}`);
+            child.kill('SIGINT');
+            killTimer = setTimeout(() => child.kill('SIGKILL'), STOP_GRACE_MS);
+        };
+
+        const handleStopSignal = () => stopRecording('stopped on demand');
+        stopSignal?.addEventListener('abort', handleStopSignal, { once: true });
+
+        const handleInfo = (info: Record<string, unknown>) => {
+            const liveStatus = info.live_status ?? (info.is_live ? 'is_live' : undefined);
+
+            if (liveStatus === 'is_upcoming') {
+                const releaseTime = typeof info.release_timestamp === 'number' ? new Date(info.release_timestamp * 1000).toISOString() : null;
+                abort(premiereError(releaseTime));
+                return;
+            }
+
+            if (liveStatus === 'is_live') {
+                if (!live) {
+                    abort(liveStreamError());
+                    return;
+                }
+
+                console.log(`[job ${jobId}] Recording live stream for at most ${live.maxDuration}s${live.fromStart ? ' (from the start)' : ''}`);
+                result.recording = true;
+                onRecordingStart?.();
+                recordingTimer = setTimeout(() => stopRecording('maximum duration reached'), live.maxDuration * 1000);
+                if (stopSignal?.aborted) handleStopSignal();
+                return;
+            }
+
+            // The info JSON comes before any media is downloaded
+            const duration = info.duration;
+            if (maxDuration && typeof duration === 'number' && duration > maxDuration) {
+                abort(limitExceededError('duration', duration, maxDuration));
+            }
+        };
+
+        // Bytes of the files already downloaded, plus the file in progress
+        let completedBytes = 0;
+        let currentBytes = 0;
+        let currentTotal: number | null = null;
+
+        const handleLine = (line: string) => {
+            const trimmed = line.trim();
+            if (!trimmed) return;
+
+            if (trimmed.startsWith(PROGRESS_PREFIX)) {
+                const [downloaded, total, estimate] = trimmed
+                    .slice(PROGRESS_PREFIX.length)
+                    .trim()
+                    .split(/\s+/)
+                    .map(value => parseFloat(value));
+
+                if (isNaN(downloaded)) return;
+
+                // A counter going backwards means yt-dlp moved on to the next stream
+                if (downloaded < currentBytes) {
+                    completedBytes += currentTotal ?? currentBytes;
+                }
+                currentBytes = downloaded;
+                currentTotal = !isNaN(total) ? total : !isNaN(estimate) ? Math.round(estimate) : null;
+
+                const expectedBytes = currentTotal !== null ? completedBytes + currentTotal : null;
+                onProgress?.(completedBytes + currentBytes, expectedBytes);
+
+                const bytes = Math.max(completedBytes + currentBytes, expectedBytes ?? 0);
+                if (maxFileSize && bytes > maxFileSize) {
+                    // A recording keeps what fits, other downloads would only be cut
+                    if (result.recording) {
+                        stopRecording('size limit reached');
+                    } else {
+                        abort(limitExceededError('size', bytes, maxFileSize));
+                    }
+                }
+            } else if (trimmed.startsWith('{')) {
+                try {
+                    result.info = JSON.parse(trimmed);
+                    if (result.info) handleInfo(result.info);
+                } catch (parseError) {
+                    console.error(`[job ${jobId}] Error parsing yt-dlp info JSON:`, parseError);
+                }
+            } else {
+                // after_move:filepath is the last line printed
+                result.filePath = trimmed;
+            }
+        };
+
+        child.stdout.setEncoding('utf8');
+        child.stdout.on('data', (chunk: string) => {
+            stdoutBuffer += chunk;
+            const lines = stdoutBuffer.split('\n');
+            stdoutBuffer = lines.pop() ?? '';
+            lines.forEach(handleLine);
+        });
+
+        child.stderr.setEncoding('utf8');
+        child.stderr.on('data', (chunk: string) => {
+            stderr = (stderr + chunk).slice(-MAX_STDERR_LENGTH);
+        });
+
+        child.on('error', error => {
+            reject(new DownloaderError('Downloader Error', `Could not start yt-dlp: ${error.message}`, 500, { binary: YTDLP_BINARY }, 'backend-unavailable'));
+        });
+
+        child.on('close', code => {
+            handleLine(stdoutBuffer);
+            clearTimeout(recordingTimer);
+            clearTimeout(killTimer);
+            stopSignal?.removeEventListener('abort', handleStopSignal);
+
+            if (limitError) {
+                reject(limitError);
+                return;
+            }
+
+            // An interrupted yt-dlp exits with an error, the recording is on disk anyway
+            if (code !== 0 && !result.stopped) {
+                // yt-dlp prefixes its own failures with "ERROR:"
+                const errorLine = stderr.split('\n').reverse().find(line => line.startsWith('ERROR:'));
+                reject(new DownloaderError(
+                    'Downloader Error',
+                    errorLine?.replace(/^ERROR:\s*/, '') || `yt-dlp exited with code ${code}`,
+                    502,
+                    { exitCode: code, stderr },
+                    // The whole stderr is classified, warnings often name the actual cause
+                    classifyError(stderr)
+                ));
+                return;
+            }
+
+            resolve(result);
+        });
+    });
+}
+
+/**
+ * Joins what a live recording left in TEMP_DIR into one mp4 file
+ * - A finished recording is the merged file yt-dlp printed, a stopped one may be a file per stream
+ * @returns Path of the recording
+ */
+async function collectRecording(jobId: string, baseName: string, filePath: string | null): Promise<string> {
+    const parts = filePath && fs.existsSync(filePath)
+        ? [filePath]
+        : fs.readdirSync(TEMP_DIR)
+            .filter(file => file.startsWith(`${baseName}.`) && RECORDING_EXTENSIONS.test(file))
+            .map(file => path.join(TEMP_DIR, file))
+            .filter(file => fs.statSync(file).size > 0);
+
+    if (parts.length === 0) {
+        throw new DownloaderError('Downloader Error', 'The live recording stopped before anything was recorded', 502, { baseName });
+    }
+
+    const recordingPath = path.join(TEMP_DIR, `${baseName}.recording.mp4`);
+    console.log(`[job ${jobId}] Finalizing live recording from ${parts.length} file(s)`);
+    await finalizeRecording(parts, recordingPath);
+    return recordingPath;
+}
+
+/**
+ * Creates a provider that runs yt-dlp in this process's environment
+ * - Downloads into TEMP_DIR, merged into mp4 when video and audio are separate
+ * - Clips are downloaded as sections, the rest of the video is never fetched
+ * - Live streams are recorded as MPEG-TS (readable even when cut), then remuxed to mp4
+ * - Removes this download's leftovers (fragments, .part files, the partial output of a failed run) with cleanExtraFiles
+ * - Sweeps expired temp files before each download, with the retention policy's TTL and dry-run setting
+ * - YTDLP_PATH selects the binary, a fake executable works as long as it honours the arguments below
+ */
+export function createLocalDownloader(): DownloaderProvider {
+    return {
+        name: 'local',
+
+        async download({ url, format, clip, maxDuration, maxFileSize, live }: DownloadRequest, context: DownloadContext): Promise<DownloadedMedia> {
+            const { jobId } = context;
+
+            ensureTempDirectoryExists();
+            // Opportunistic sweep of expired temp files, for setups without the scheduled sweeper; a failure here never blocks the download
+            const { tempTtlMs, dryRun } = getRetentionPolicy();
+            void cleanTempDirectory({ maxAgeMs: tempTtlMs, dryRun });
+
+            const baseName = path.parse(generateSafeFilename(`local_${jobId}`, Date.now())).name;
+
+            const args = [
+                '--format', format ?? DEFAULT_FORMAT,
+                '--merge-output-format', 'mp4',
+                '--no-playlist',
+                '--output', path.join(TEMP_DIR, `${baseName}.%(ext)s`),
+                '--dump-json',
+                '--no-simulate',
+                '--print', 'after_move:filepath',
+                '--newline',
+                '--progress',
+                '--progress-template', `download:${PROGRESS_PREFIX} %(progress.downloaded_bytes)s %(progress.total_bytes)s %(progress.total_bytes_estimate)s`,
+                '--no-warnings',
+            ];
+
+            // Only the requested segment is downloaded
+            if (clip) {
+                args.push('--download-sections', `*${formatTimestamp(clip.start)}-${formatTimestamp(clip.end)}`);
+                if (clip.frameAccurate) {
+                    args.push('--force-keyframes-at-cuts');
+                }
+            }
+
+            // The recording file must stay readable when yt-dlp is interrupted
+            if (live) {
+                args.push('--hls-use-mpegts', '--no-part');
+                if (live.fromStart) {
+                    args.push('--live-from-start');
+                }
+            }
+
+            // Formats known to be too large are skipped before downloading, recordings stop at the limit instead
+            if (maxFileSize && !live) {
+                args.push('--max-filesize', String(maxFileSize));
+            }
+
+            // After '--' the URL is never read as an option, even when it starts with '-'
+            args.push('--', url);
+
+            console.log(`[job ${jobId}] Running yt-dlp (${YTDLP_BINARY}) for: ${url}`);
+
+            let filePath: string | null = null;
+            let completed = false;
+            try {
+                const result = await runYtdlp(args, context, { maxDuration, maxFileSize, live });
+                filePath = result.filePath;
+
+                if (result.recording) {
+                    filePath = await collectRecording(jobId, baseName, filePath);
+                }
+
+                if (!filePath || !fs.existsSync(filePath)) {
+                    throw new DownloaderError('Downloader Error', 'yt-dlp did not produce a file', 502, { filePath });
+                }
+
+                const { size } = fs.statSync(filePath);
+                const videoInfo = result.info ? toVideoInfo(result.info) : {};
+                const extension = path.extname(filePath);
+
+                console.log(`[job ${jobId}] yt-dlp finished: ${path.basename(filePath)} (${size} bytes)`);
+
+                completed = true;
+                return {
+                    stream: Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>,
+                    videoInfo,
+                    originalFilename: `${videoInfo.title || 'downloaded_video'}${extension}`,
+                    contentType: getContentTypeFromFilename(filePath, 'video/mp4'),
+                    totalBytes: size,
+                    filePath,
+                    clipped: Boolean(clip),
+                    cleanup: () => cleanExtraFiles(baseName, ''),
+                };
+            } finally {
+                // Fragments, .part files and intermediate streams; the final file is only kept (until cleanup()) when the download succeeded
+                cleanExtraFiles(baseName, completed && filePath ? path.basename(filePath) : '');
+            }
+        },
+    };
+}
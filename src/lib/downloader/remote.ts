@@ -0,0 +1,165 @@
+import type { BackendVideoInfo } from '@/lib/jobs/types';
+import { getContentTypeFromFilename } from '@/lib/file-system';
+import { getStubBackendConfig, getStubBackendUrl } from '@/lib/stub-backend';
+import { DownloaderError, DownloaderProvider, DownloadContext, DownloadedMedia, DownloadRequest, limitExceededError } from './types';
+
+// Configuración del backend NestJS, the stub backend of this same server stands in for it offline
+const BACKEND_URL = process.env.BACKEND_URL || (getStubBackendConfig().enabled ? getStubBackendUrl() : '');
+
+/**
+ * Wraps the backend body so a connection dropped before the end fails as a backend error
+ * - Otherwise the broken body would surface while storing the file, and a short body would be stored as complete
+ * @param totalBytes - Content-Length announced by the backend, when there is one
+ */
+function guardBackendStream(stream: ReadableStream<Uint8Array>, totalBytes: number | null, backendUrl: string): ReadableStream<Uint8Array> {
+    const reader = stream.getReader();
+    let bytes = 0;
+
+    const interrupted = (reason: string) => new DownloaderError(
+        'Backend Error',
+        `The download backend closed the connection before the end of the video: ${reason}`,
+        502,
+        { backendUrl, bytes, totalBytes },
+        'backend-unavailable'
+    );
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            let result: ReadableStreamReadResult<Uint8Array>;
+            try {
+                result = await reader.read();
+            } catch (error) {
+                controller.error(interrupted(error instanceof Error ? error.message : String(error)));
+                return;
+            }
+
+            if (result.done) {
+                if (totalBytes !== null && bytes < totalBytes) {
+                    controller.error(interrupted(`${bytes} of ${totalBytes} bytes received`));
+                } else {
+                    controller.close();
+                }
+                return;
+            }
+
+            bytes += result.value.byteLength;
+            controller.enqueue(result.value);
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+}
+
+/**
+ * Creates a provider that delegates downloads to the NestJS backend
+ * - POST {BACKEND_URL}/youtube/download with { url, format }
+ * - Video info comes from the X-Video-Info header, the filename from Content-Disposition
+ * - Live recordings are refused, the backend has no way to stop one
+ * @param backendUrl - Base URL of the backend
+ */
+export function createRemoteDownloader(backendUrl: string = BACKEND_URL): DownloaderProvider {
+    return {
+        name: 'remote',
+
+        async download({ url, format, maxDuration, maxFileSize, live }: DownloadRequest, { jobId }: DownloadContext): Promise<DownloadedMedia> {
+            if (live) {
+                throw new DownloaderError('Not Supported', 'The download backend cannot record live streams', 501, { backendUrl });
+            }
+
+            // Make request to NestJS backend
+            console.log(`[job ${jobId}] Making request to backend: ${backendUrl}/youtube/download`);
+
+            let backendResponse: Response;
+            try {
+                backendResponse = await fetch(`${backendUrl}/youtube/download`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ url, format }),
+                });
+            } catch (error) {
+                // Connection refused, DNS failure, timeout...
+                throw new DownloaderError(
+                    'Backend Unavailable',
+                    `Could not reach the download backend: ${error instanceof Error ? error.message : error}`,
+                    503,
+                    { backendUrl },
+                    'backend-unavailable'
+                );
+            }
+
+            console.log(`[job ${jobId}] Backend response status: ${backendResponse.status}`);
+
+            if (!backendResponse.ok) {
+                // Handle backend errors
+                let errorMessage = 'Error downloading video from backend';
+                let errorDetails = {};
+
+                try {
+                    const errorData = await backendResponse.json();
+                    errorMessage = errorData.message || errorMessage;
+                    errorDetails = errorData;
+                } catch (parseError) {
+                    console.error(`[job ${jobId}] Error parsing backend error response:`, parseError);
+                }
+
+                throw new DownloaderError('Backend Error', errorMessage, backendResponse.status, errorDetails);
+            }
+
+            // Get video info from headers
+            const videoInfoHeader = backendResponse.headers.get('X-Video-Info');
+            let videoInfo: Partial<BackendVideoInfo> = {};
+
+            if (videoInfoHeader) {
+                try {
+                    videoInfo = JSON.parse(videoInfoHeader);
+                } catch (parseError) {
+                    console.error(`[job ${jobId}] Error parsing video info from header:`, parseError);
+                }
+            }
+
+            // Get filename from Content-Disposition header
+            const contentDisposition = backendResponse.headers.get('Content-Disposition');
+            let originalFilename = 'downloaded_video.mp4';
+            let contentType = backendResponse.headers.get('Content-Type') || 'video/mp4';
+
+            if (contentDisposition) {
+                const filenameMatch = contentDisposition.match(/filename[^;=\n]*=([^;\n]*)/);
+                if (filenameMatch && filenameMatch[1]) {
+                    originalFilename = filenameMatch[1].replace(/['"]/g, '');
+                    // The backend may label any container as mp4, the extension tells the real one
+                    contentType = getContentTypeFromFilename(originalFilename, contentType);
+                }
+            }
+
+            if (!backendResponse.body) {
+                throw new Error('No video stream received from backend');
+            }
+
+            const contentLength = backendResponse.headers.get('Content-Length');
+            const totalBytes = contentLength ? parseInt(contentLength, 10) : null;
+
+            // The backend only reports duration and size in the headers, refuse before reading the body
+            const limitError = maxDuration && videoInfo.duration && videoInfo.duration > maxDuration
+                ? limitExceededError('duration', videoInfo.duration, maxDuration)
+                : maxFileSize && totalBytes && totalBytes > maxFileSize
+                    ? limitExceededError('size', totalBytes, maxFileSize)
+                    : null;
+            if (limitError) {
+                await backendResponse.body.cancel();
+                throw limitError;
+            }
+
+            return {
+                stream: guardBackendStream(backendResponse.body, totalBytes, backendUrl),
+                videoInfo,
+                originalFilename,
+                contentType,
+                totalBytes,
+                cleanup: () => {},
+            };
+        },
+    };
+}
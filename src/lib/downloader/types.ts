@@ -0,0 +1,159 @@
+/**
+ * Downloader provider contract shared by the remote NestJS backend and the local yt-dlp implementation
+ */
+import type { LocalizedMessage } from '@/lib/api';
+import type { BackendVideoInfo } from '@/lib/jobs/types';
+import type { ClipRange } from '@/lib/media/clip';
+import type { LiveRecording } from '@/lib/media/recording';
+import { classifyError, ErrorCode } from '@/lib/errors';
+import type { MessageKey, MessageParams } from '@/lib/i18n';
+
+export type DownloaderName = 'remote' | 'local';
+
+export interface DownloadRequest {
+    url: string;
+    format?: string;            // yt-dlp format selector, provider default when omitted
+    clip?: ClipRange;           // Only this segment is needed
+    maxDuration?: number;       // Longest video accepted in seconds, the download is refused beyond it
+    maxFileSize?: number;       // Largest download accepted in bytes, aborted beyond it
+    live?: LiveRecording;       // Record the live stream, refused by providers that cannot stop a download
+}
+
+export interface DownloadContext {
+    jobId: string;              // Used for logging and temp file names
+    onProgress?: (bytes: number, totalBytes: number | null) => void;
+    onRecordingStart?: () => void; // The live stream was confirmed and recording began
+    stopSignal?: AbortSignal;   // Ends a live recording early, keeping what was recorded
+}
+
+// Downloaded media, ready to be post-processed or uploaded
+export interface DownloadedMedia {
+    stream: ReadableStream<Uint8Array>;
+    videoInfo: Partial<BackendVideoInfo>;
+    originalFilename: string;
+    contentType: string;
+    totalBytes: number | null;
+    filePath?: string;          // Set when the media already sits in TEMP_DIR
+    clipped?: boolean;          // The requested clip was applied, the caller cuts it otherwise
+    cleanup(): void;            // Removes any temp file, safe to call more than once
+}
+
+export interface DownloaderProvider {
+    readonly name: DownloaderName;
+
+    /**
+     * Downloads a video
+     * - Remote providers may report progress while the body streams, local ones while yt-dlp runs
+     */
+    download(request: DownloadRequest, context: DownloadContext): Promise<DownloadedMedia>;
+}
+
+/**
+ * Catalog message of an error, jobs keep it untranslated and the job routes translate it (see localizeJob)
+ */
+export function localizedMessage(key: MessageKey, params?: MessageParams): LocalizedMessage {
+    return params ? { key, params } : { key };
+}
+
+/**
+ * Error raised when a provider refuses or fails a download
+ * Carries the HTTP status, error code and details reported back to the client
+ * - The code is classified from the message and status unless given
+ * - message is for logs, localized (when given) is the catalog message the client reads
+ */
+export class DownloaderError extends Error {
+    public readonly code: ErrorCode;
+
+    constructor(
+        public readonly error: string,
+        message: string,
+        public readonly status: number,
+        public readonly details?: unknown,
+        code?: ErrorCode,
+        public readonly localized?: LocalizedMessage
+    ) {
+        super(message);
+        this.name = 'DownloaderError';
+        this.code = code ?? classifyError(message, status);
+    }
+}
+
+/**
+ * Error raised when a video is longer, or a download larger, than allowed (413)
+ * @param kind - Limit that was exceeded
+ * @param value - Duration in seconds, or size in bytes
+ * @param limit - Limit in the same unit
+ */
+export function limitExceededError(kind: 'duration' | 'size', value: number, limit: number): DownloaderError {
+    const message = kind === 'duration'
+        ? `Video is too long (${Math.round(value)}s), the limit is ${limit}s`
+        : `File is too large (${value} bytes), the limit is ${limit} bytes`;
+    const localized = kind === 'duration'
+        ? localizedMessage('api.limit.duration', { duration: Math.round(value), maxDuration: limit })
+        : localizedMessage('api.limit.size', { size: value, maxSize: limit });
+    return new DownloaderError('Limit Exceeded', message, 413, { kind, value, limit }, 'too-large', localized);
+}
+
+/**
+ * Error raised when ffmpeg is stopped for running longer than its input allows (504)
+ * - Retrying would hit the same limit, the file is treated as too large to process
+ * @param timeoutMs - Time ffmpeg was given
+ */
+export function processingTimeoutError(timeoutMs: number): DownloaderError {
+    const seconds = Math.round(timeoutMs / 1000);
+    return new DownloaderError(
+        'Processing Timeout',
+        `ffmpeg did not finish within ${seconds}s and was stopped`,
+        504,
+        { timeoutMs },
+        'too-large',
+        localizedMessage('api.processing.timeout', { duration: seconds })
+    );
+}
+
+/**
+ * Error raised when a live stream is downloaded without asking for a recording (409)
+ * - A plain download would go on for as long as the broadcast
+ */
+export function liveStreamError(): DownloaderError {
+    return new DownloaderError(
+        'Live Stream',
+        'This video is being broadcast live, record it as a live stream instead',
+        409,
+        undefined,
+        'live-in-progress',
+        localizedMessage('api.live.recordInstead')
+    );
+}
+
+/**
+ * Error raised when a premiere or live event has not started yet (409)
+ * @param scheduledStart - ISO date it starts, when known
+ */
+export function premiereError(scheduledStart: string | null): DownloaderError {
+    const message = scheduledStart
+        ? `This premiere has not started yet, it is scheduled for ${scheduledStart}`
+        : 'This premiere has not started yet';
+    const localized = scheduledStart
+        ? localizedMessage('api.live.premiereAt', { date: scheduledStart })
+        : localizedMessage('api.live.premiere');
+    return new DownloaderError('Premiere Not Started', message, 409, { scheduledStart }, 'premiere', localized);
+}
+
+/**
+ * Error raised when a file cannot be written to the storage backend
+ * - Errors that already are DownloaderErrors (e.g. a size limit hit while streaming) are kept as they are
+ * - The backend's reason is kept in the details, it is not translated
+ */
+export function toStorageError(error: unknown): DownloaderError {
+    if (error instanceof DownloaderError) return error;
+    const reason = error instanceof Error ? error.message : String(error);
+    return new DownloaderError(
+        'Storage Error',
+        `Could not store the file: ${reason}`,
+        500,
+        { reason },
+        'storage-failure',
+        localizedMessage('api.storageFailed')
+    );
+}
@@ -0,0 +1,58 @@
+/**
+ * Why a download failed, reported as `code` on job errors
+ * - 'unknown' covers every failure that matches none of the known causes
+ */
+export type ErrorCode =
+    | 'private'
+    | 'age-restricted'
+    | 'geo-blocked'
+    | 'members-only'
+    | 'removed'
+    | 'live-in-progress'
+    | 'premiere'
+    | 'too-large'
+    | 'backend-unavailable'
+    | 'storage-failure'
+    | 'unknown';
+
+// Whether trying the same request again later can succeed
+export const RETRYABLE_ERRORS: Record<ErrorCode, boolean> = {
+    'private': false,
+    'age-restricted': false,
+    'geo-blocked': false,
+    'members-only': false,
+    'removed': false,
+    'live-in-progress': true,       // Once the stream has ended, or as a live recording
+    'premiere': true,               // Once the premiere has started
+    'too-large': false,
+    'backend-unavailable': true,
+    'storage-failure': true,
+    'unknown': true,
+};
+
+// Messages from yt-dlp, YouTube and the NestJS backend, checked in order (the first match wins)
+const ERROR_PATTERNS: Array<[ErrorCode, RegExp]> = [
+    ['members-only', /members[- ]only|join this channel|available to this channel's members/i],
+    ['age-restricted', /confirm your age|age[- ]restrict|inappropriate for some users/i],
+    ['private', /private video|video is private/i],
+    ['geo-blocked', /not available in your country|not made this video available in your country|geo[- ]?restrict|blocked it in your country/i],
+    ['premiere', /premieres? in|live event will begin|scheduled to start|is_upcoming/i],
+    ['live-in-progress', /is (currently )?live|live event|live stream|is_live/i],
+    ['removed', /video unavailable|has been removed|no longer available|been terminated|does not exist|copyright (claim|grounds)/i],
+    ['too-large', /max-?filesize|too large|too long|file is larger/i],
+    ['backend-unavailable', /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket hang up|could not start yt-dlp|unable to download webpage|HTTP Error 5\d\d/i],
+];
+
+/**
+ * Maps a failure message, and the HTTP status that came with it, to an error code
+ * @param message - Error message or downloader stderr
+ * @param status - Status reported by the backend, when there is one
+ */
+export function classifyError(message: string, status?: number): ErrorCode {
+    const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(message));
+    if (match) return match[0];
+
+    if (status === 413) return 'too-large';
+    if (status === 502 || status === 503 || status === 504) return 'backend-unavailable';
+    return 'unknown';
+}
@@ -1,5 +1,5 @@
 // Utility for executing shell commands asynchronously
-import { exec } from 'child_process'; // Node.js built-in module for spawning child processes
+import { exec, execFile } from 'child_process'; // Node.js built-in module for spawning child processes
 import { promisify } from 'util'; // Utility to convert callback-based functions to promises
 
 /**
@@ -9,4 +9,15 @@ import { promisify } from 'util'; // Utility to convert callback-based functions
  * @returns Promise resolving with stdout/stderr output
  * @rejects {Error} If command writes to stderr or exits with non-zero code
  */
-export const execAsync = promisify(exec);
\ No newline at end of file
+export const execAsync = promisify(exec);
+
+/**
+ * Converts child_process.execFile to return a Promise
+ * Arguments are passed straight to the binary, without a shell, so they need no escaping
+ * @param file - Executable to run
+ * @param args - Argument list
+ * @param options - Optional execution options
+ * @returns Promise resolving with stdout/stderr output
+ * @rejects {Error} If the process exits with non-zero code
+ */
+export const execFileAsync = promisify(execFile);
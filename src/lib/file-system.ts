@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { rimraf } from 'rimraf';
 
 // Define a temp directory that will work in all environments
@@ -46,19 +48,36 @@ export function ensureDirExists(dirPath: string) {
   }
 }
 
+// Age after which temp files are removed (RETENTION_TEMP_TTL_SECONDS, 1 hour by default)
+export const TEMP_FILE_TTL_MS = (parseInt(process.env.RETENTION_TEMP_TTL_SECONDS || '', 10) || 60 * 60) * 1000;
+
+// Temp file removed (or due for removal in a dry run) by cleanTempDirectory
+export interface RemovedTempFile {
+  name: string;
+  size: number;
+  modifiedAt: Date;
+}
+
 /**
  * Cleans up old temporary files from disk
- * - Preserves files younger than 1 hour
+ * - Preserves files younger than maxAgeMs (TEMP_FILE_TTL_MS by default)
+ * - Only removes files, downloads and conversions stage everything at the top level; sub-directories are left alone
+ * - dryRun only reports the files that would be removed
  * - Uses rimraf for cross-platform compatibility
  * - Improved error handling for serverless environments
+ * @returns Files removed, or that would be removed
  */
-export async function cleanTempDirectory(): Promise<void> {
+export async function cleanTempDirectory(
+  { maxAgeMs = TEMP_FILE_TTL_MS, dryRun = false }: { maxAgeMs?: number; dryRun?: boolean } = {}
+): Promise<RemovedTempFile[]> {
+  const removed: RemovedTempFile[] = [];
+
   try {
     // First ensure the directory exists
     ensureTempDirectoryExists();
 
     const files = fs.readdirSync(TEMP_DIR);
-    const oneHourAgo = Date.now() - (60 * 60 * 1000); // Files older than 1 hour
+    const threshold = Date.now() - maxAgeMs;
 
     for (const file of files) {
       const filePath = path.join(TEMP_DIR, file);
@@ -66,9 +85,12 @@ export async function cleanTempDirectory(): Promise<void> {
       try {
         const stats = fs.statSync(filePath);
         // Delete file if it's older than threshold
-        if (stats.mtimeMs < oneHourAgo) {
-          await rimraf(filePath);
-          console.log(`Removed old temp file: ${file}`);
+        if (stats.isFile() && stats.mtimeMs < threshold) {
+          if (!dryRun) {
+            await rimraf(filePath);
+          }
+          removed.push({ name: file, size: stats.size, modifiedAt: stats.mtime });
+          console.log(`${dryRun ? '[dry run] Would remove' : 'Removed'} old temp file: ${file}`);
         }
       } catch (err) {
         console.error(`Error processing file ${file}:`, err);
@@ -80,18 +102,21 @@ export async function cleanTempDirectory(): Promise<void> {
     console.error('Failed to clean temporary directory:', error);
     // Continue execution - non-critical operation
   }
+
+  return removed;
 }
 
 /**
  * Creates a sanitized filename from video title and timestamp
  * @param title - Original video title
  * @param timestamp - Unique timestamp for file uniqueness
- * @returns Sanitized filename with .mp4 extension
+ * @param extension - File extension without the dot (mp4 by default)
+ * @returns Sanitized filename with the given extension
  */
-export function generateSafeFilename(title: string, timestamp: number): string {
+export function generateSafeFilename(title: string, timestamp: number, extension = 'mp4'): string {
   // Replace special characters with underscores and normalize spacing
   const safeTitle = title.replace(/[^\w]/g, '_').replace(/_+/g, '_');
-  return `${safeTitle}_${timestamp}.mp4`;
+  return `${safeTitle}_${timestamp}.${extension}`;
 }
 
 /**
@@ -118,4 +143,45 @@ export function cleanExtraFiles(baseFilename: string, targetFilename: string): v
     console.error('Error in cleanExtraFiles:', error);
     // Non-critical operation, continue execution
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Guesses a MIME type from a filename extension
+ * @param filename - Filename or pathname to inspect
+ * @param fallback - Type returned for unknown extensions
+ * @returns MIME type for the extension
+ */
+export function getContentTypeFromFilename(filename: string, fallback = 'application/octet-stream'): string {
+  const extension = filename.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'mp4': return 'video/mp4';
+    case 'webm': return 'video/webm';
+    case 'mov': return 'video/quicktime';
+    case 'avi': return 'video/x-msvideo';
+    case 'mkv': return 'video/x-matroska';
+    case 'mp3': return 'audio/mpeg';
+    case 'm4a': return 'audio/mp4';
+    case 'opus': return 'audio/ogg';
+    case 'vtt': return 'text/vtt';
+    case 'srt': return 'application/x-subrip';
+    case 'zip': return 'application/zip';
+    default: return fallback;
+  }
+}
+
+
+/**
+ * Writes a web stream to disk
+ * - Removes the partial file if the stream fails
+ * @param stream - Source stream (e.g. a fetch response body)
+ * @param filePath - Destination path
+ */
+export async function writeStreamToFile(stream: ReadableStream<Uint8Array>, filePath: string): Promise<void> {
+  try {
+    await pipeline(Readable.fromWeb(stream as import('stream/web').ReadableStream), fs.createWriteStream(filePath));
+  } catch (error) {
+    await fs.promises.rm(filePath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+import type youtubeDl from 'youtube-dl-exec';
+import { toChapters, Chapter } from './chapters';
+
+export type FormatKind = 'video' | 'audio' | 'video+audio';
+
+// Downloadable format, as listed by /api/formats
+export interface VideoFormat {
+    formatId: string;
+    kind: FormatKind;
+    ext: string;
+    resolution: string | null;  // e.g. "1920x1080", null for audio
+    height: number | null;
+    fps: number | null;
+    vcodec: string | null;
+    acodec: string | null;
+    bitrate: number | null;     // Total bitrate in KBit/s
+    estimatedSize: number | null; // Bytes, including merged audio for video-only formats
+    note: string | null;
+    selector: string;           // yt-dlp format selector to send to /api/download
+}
+
+export interface FormatList {
+    videoId: string;
+    title: string;
+    duration: number | null;
+    chapters: Chapter[];
+    formats: VideoFormat[];
+}
+
+// Shortcuts offered on top of the individual formats
+export const FORMAT_PRESETS = [
+    { id: 'best', selector: 'bv*+ba/b' },
+    { id: 'smallest', selector: 'wv*+wa/w' },
+] as const;
+
+// yt-dlp selector syntax only: ids, +, /, filters in brackets, comparison operators
+const FORMAT_SELECTOR_REGEX = /^[\w+\/\-\[\]<>=!*.,:?^$~]{1,100}$/;
+
+/**
+ * Checks that a format selector is safe to forward to the downloader
+ */
+export function isValidFormatSelector(selector: string): boolean {
+    return FORMAT_SELECTOR_REGEX.test(selector);
+}
+
+const hasCodec = (codec?: string) => !!codec && codec !== 'none';
+
+/**
+ * Size of a format in bytes, estimated from the bitrate when yt-dlp does not know it
+ */
+function estimateSize(format: youtubeDl.Format, duration: number | null): number | null {
+    const size = format.filesize ?? format.filesize_approx;
+    if (size) return size;
+    if (format.tbr && duration) return Math.round(format.tbr * 1000 / 8 * duration);
+    return null;
+}
+
+/**
+ * Builds the list of video and audio formats from yt-dlp metadata
+ * - Drops storyboards and other formats without audio or video
+ * - Video-only formats get the best audio merged in their selector
+ * - Sorted from highest to lowest quality
+ */
+export function toFormatList(metadata: youtubeDl.Response): FormatList {
+    const duration = metadata.duration ?? null;
+    const rawFormats = metadata.formats ?? [];
+
+    // Best audio track, used to estimate the final size of video-only formats
+    const bestAudio = rawFormats
+        .filter(f => hasCodec(f.acodec) && !hasCodec(f.vcodec))
+        .sort((a, b) => (b.abr ?? b.tbr ?? 0) - (a.abr ?? a.tbr ?? 0))[0];
+    const bestAudioSize = bestAudio ? estimateSize(bestAudio, duration) : null;
+
+    const formats = rawFormats
+        .filter(f => hasCodec(f.vcodec) || hasCodec(f.acodec))
+        .map((f): VideoFormat => {
+            const kind: FormatKind = hasCodec(f.vcodec)
+                ? (hasCodec(f.acodec) ? 'video+audio' : 'video')
+                : 'audio';
+            const size = estimateSize(f, duration);
+
+            return {
+                formatId: f.format_id,
+                kind,
+                ext: f.ext,
+                resolution: kind === 'audio' ? null : (f.width && f.height ? `${f.width}x${f.height}` : f.resolution ?? null),
+                height: f.height ?? null,
+                fps: f.fps ?? null,
+                vcodec: hasCodec(f.vcodec) ? f.vcodec! : null,
+                acodec: hasCodec(f.acodec) ? f.acodec! : null,
+                bitrate: f.tbr ?? null,
+                estimatedSize: kind === 'video' && size && bestAudioSize ? size + bestAudioSize : size,
+                note: f.format_note ?? null,
+                selector: kind === 'video' ? `${f.format_id}+bestaudio/best` : f.format_id,
+            };
+        })
+        .sort((a, b) =>
+            (b.height ?? 0) - (a.height ?? 0) ||
+            (b.fps ?? 0) - (a.fps ?? 0) ||
+            (b.bitrate ?? 0) - (a.bitrate ?? 0)
+        );
+
+    return {
+        videoId: metadata.id ?? '',
+        title: metadata.title ?? '',
+        duration,
+        chapters: toChapters(metadata),
+        formats,
+    };
+}
@@ -0,0 +1,19 @@
+/**
+ * Process-wide state: in-memory stores, timers and clients shared by the whole server
+ * - Next.js bundles every route separately and dev hot reloads evaluate modules again,
+ *   module-level variables would be duplicated, so the values live on globalThis instead
+ */
+const globalForTubechain = globalThis as typeof globalThis & { __tubechain?: Map<string, unknown> };
+
+/**
+ * Returns the process-wide value stored under a key, created on first use
+ * @param key - Unique name of the value
+ * @param init - Creates the value, called once per process
+ */
+export function getGlobalSingleton<T>(key: string, init: () => T): T {
+    const values = globalForTubechain.__tubechain ??= new Map();
+    if (!values.has(key)) {
+        values.set(key, init());
+    }
+    return values.get(key) as T;
+}
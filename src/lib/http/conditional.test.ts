@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { StoredFile } from '@/lib/storage';
+import { evaluatePreconditions, getETag, getLastModified, isRangeFresh } from './conditional';
+
+const file: StoredFile = {
+    pathname: '1700000000000_video.mp4',
+    size: 1000,
+    contentType: 'video/mp4',
+    uploadedAt: new Date('2024-05-01T10:00:00.750Z'),
+};
+
+const etag = getETag(file);
+const lastModified = getLastModified(file);
+
+function preconditions(headers: Record<string, string>, method = 'GET') {
+    return evaluatePreconditions(new Headers(headers), method, file);
+}
+
+describe('validators', () => {
+    it('derives a strong ETag from the size and upload time', () => {
+        expect(etag).toBe(`"3e8-${file.uploadedAt.getTime().toString(16)}"`);
+    });
+
+    it('sends Last-Modified with second precision', () => {
+        expect(lastModified).toBe('Wed, 01 May 2024 10:00:00 GMT');
+    });
+});
+
+describe('evaluatePreconditions', () => {
+    it('proceeds without conditional headers', () => {
+        expect(preconditions({})).toBe('proceed');
+    });
+
+    it('answers 304 when If-None-Match matches, weakly', () => {
+        expect(preconditions({ 'If-None-Match': etag })).toBe('not-modified');
+        expect(preconditions({ 'If-None-Match': `"other", W/${etag}` })).toBe('not-modified');
+        expect(preconditions({ 'If-None-Match': '*' }, 'HEAD')).toBe('not-modified');
+        expect(preconditions({ 'If-None-Match': '"other"' })).toBe('proceed');
+    });
+
+    it('answers 412 instead of 304 for other methods', () => {
+        expect(preconditions({ 'If-None-Match': etag }, 'DELETE')).toBe('precondition-failed');
+    });
+
+    it('answers 304 when the file is not newer than If-Modified-Since', () => {
+        expect(preconditions({ 'If-Modified-Since': lastModified })).toBe('not-modified');
+        expect(preconditions({ 'If-Modified-Since': 'Wed, 01 May 2024 09:59:59 GMT' })).toBe('proceed');
+        expect(preconditions({ 'If-Modified-Since': 'not a date' })).toBe('proceed');
+    });
+
+    it('lets If-None-Match take precedence over If-Modified-Since', () => {
+        expect(preconditions({ 'If-None-Match': '"other"', 'If-Modified-Since': lastModified })).toBe('proceed');
+    });
+
+    it('answers 412 when If-Match does not match strongly', () => {
+        expect(preconditions({ 'If-Match': etag })).toBe('proceed');
+        expect(preconditions({ 'If-Match': '*' })).toBe('proceed');
+        expect(preconditions({ 'If-Match': '"other"' })).toBe('precondition-failed');
+        expect(preconditions({ 'If-Match': `W/${etag}` })).toBe('precondition-failed');
+    });
+
+    it('answers 412 when the file changed after If-Unmodified-Since', () => {
+        expect(preconditions({ 'If-Unmodified-Since': lastModified })).toBe('proceed');
+        expect(preconditions({ 'If-Unmodified-Since': 'Wed, 01 May 2024 09:00:00 GMT' })).toBe('precondition-failed');
+    });
+
+    it('checks If-Match before If-None-Match', () => {
+        expect(preconditions({ 'If-Match': '"other"', 'If-None-Match': etag })).toBe('precondition-failed');
+    });
+});
+
+describe('isRangeFresh', () => {
+    it('honours the range without If-Range', () => {
+        expect(isRangeFresh(new Headers(), file)).toBe(true);
+    });
+
+    it('honours the range when If-Range matches the ETag strongly', () => {
+        expect(isRangeFresh(new Headers({ 'If-Range': etag }), file)).toBe(true);
+        expect(isRangeFresh(new Headers({ 'If-Range': `W/${etag}` }), file)).toBe(false);
+        expect(isRangeFresh(new Headers({ 'If-Range': '"stale"' }), file)).toBe(false);
+    });
+
+    it('honours the range when If-Range equals Last-Modified exactly', () => {
+        expect(isRangeFresh(new Headers({ 'If-Range': lastModified }), file)).toBe(true);
+        expect(isRangeFresh(new Headers({ 'If-Range': 'Wed, 01 May 2024 09:00:00 GMT' }), file)).toBe(false);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * HTTP conditional requests (RFC 7232) for files served from storage
+ */
+import type { StoredFile } from '@/lib/storage';
+
+export type ConditionalResult = 'proceed' | 'not-modified' | 'precondition-failed';
+
+/**
+ * Builds a strong ETag for a stored file
+ * - Stored files are never rewritten in place, size and upload time identify a version
+ */
+export function getETag(file: StoredFile): string {
+    return `"${file.size.toString(16)}-${file.uploadedAt.getTime().toString(16)}"`;
+}
+
+/**
+ * Last-Modified value, HTTP dates only have second precision
+ */
+export function getLastModified(file: StoredFile): string {
+    return file.uploadedAt.toUTCString();
+}
+
+// Splits an If-Match / If-None-Match list, keeping "*" as is
+function parseETagList(header: string): string[] {
+    return header.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+// Weak comparison ignores the W/ prefix, strong comparison rejects weak tags
+function etagMatches(tags: string[], etag: string, weak: boolean): boolean {
+    return tags.some(tag => {
+        if (tag === '*') return true;
+        if (!weak && tag.startsWith('W/')) return false;
+        return tag.replace(/^W\//, '') === etag;
+    });
+}
+
+// Parses an HTTP date, null when invalid
+function parseHttpDate(value: string | null): number | null {
+    if (!value) return null;
+    const time = Date.parse(value);
+    return isNaN(time) ? null : time;
+}
+
+// Modification time truncated to the second, as sent in Last-Modified
+function lastModifiedTime(file: StoredFile): number {
+    return Math.floor(file.uploadedAt.getTime() / 1000) * 1000;
+}
+
+/**
+ * Evaluates the request preconditions in the order of RFC 7232 section 6
+ * - If-Match, then If-Unmodified-Since when If-Match is absent → 412
+ * - If-None-Match, then If-Modified-Since when If-None-Match is absent → 304 for GET and HEAD
+ * @param headers - Request headers
+ * @param method - Request method, only GET and HEAD can get a 304
+ * @param file - File the request targets
+ */
+export function evaluatePreconditions(headers: Headers, method: string, file: StoredFile): ConditionalResult {
+    const etag = getETag(file);
+    const modified = lastModifiedTime(file);
+    const isRead = method === 'GET' || method === 'HEAD';
+
+    const ifMatch = headers.get('if-match');
+    if (ifMatch) {
+        if (!etagMatches(parseETagList(ifMatch), etag, false)) return 'precondition-failed';
+    } else {
+        const ifUnmodifiedSince = parseHttpDate(headers.get('if-unmodified-since'));
+        if (ifUnmodifiedSince !== null && modified > ifUnmodifiedSince) return 'precondition-failed';
+    }
+
+    const ifNoneMatch = headers.get('if-none-match');
+    if (ifNoneMatch) {
+        if (etagMatches(parseETagList(ifNoneMatch), etag, true)) {
+            return isRead ? 'not-modified' : 'precondition-failed';
+        }
+    } else if (isRead) {
+        const ifModifiedSince = parseHttpDate(headers.get('if-modified-since'));
+        if (ifModifiedSince !== null && modified <= ifModifiedSince) return 'not-modified';
+    }
+
+    return 'proceed';
+}
+
+/**
+ * Tells whether the Range header should be honoured according to If-Range
+ * - An ETag must match strongly, a date must equal Last-Modified exactly
+ * - Without If-Range the range always applies
+ */
+export function isRangeFresh(headers: Headers, file: StoredFile): boolean {
+    const ifRange = headers.get('if-range');
+    if (!ifRange) return true;
+
+    const value = ifRange.trim();
+    if (value.startsWith('"') || value.startsWith('W/')) {
+        return etagMatches([value], getETag(file), false);
+    }
+
+    return parseHttpDate(value) === lastModifiedTime(file);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createMultipartBody, formatContentRange, MAX_RANGES, parseRangeHeader } from './range';
+
+describe('parseRangeHeader', () => {
+    it('ignores missing and malformed headers', () => {
+        expect(parseRangeHeader(null, 1000)).toEqual({ type: 'none' });
+        expect(parseRangeHeader('items=0-10', 1000)).toEqual({ type: 'none' });
+        expect(parseRangeHeader('bytes=abc', 1000)).toEqual({ type: 'none' });
+        expect(parseRangeHeader('bytes=-', 1000)).toEqual({ type: 'none' });
+        expect(parseRangeHeader('bytes=500-100', 1000)).toEqual({ type: 'none' });
+    });
+
+    it('parses a closed range, clamping its end to the file', () => {
+        expect(parseRangeHeader('bytes=0-499', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 0, end: 499 }] });
+        expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 900, end: 999 }] });
+    });
+
+    it('parses open-ended ranges up to the last byte', () => {
+        expect(parseRangeHeader('bytes=200-', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 200, end: 999 }] });
+    });
+
+    it('parses suffix ranges as the last bytes of the file', () => {
+        expect(parseRangeHeader('bytes=-100', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 900, end: 999 }] });
+        expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 0, end: 999 }] });
+    });
+
+    it('sorts and coalesces several ranges', () => {
+        expect(parseRangeHeader('bytes=500-599, 0-99, 50-149, 150-199', 1000)).toEqual({
+            type: 'ranges',
+            ranges: [{ start: 0, end: 199 }, { start: 500, end: 599 }],
+        });
+    });
+
+    it('ignores too many ranges', () => {
+        const header = `bytes=${Array.from({ length: MAX_RANGES + 1 }, (_, index) => `${index * 10}-${index * 10 + 1}`).join(',')}`;
+        expect(parseRangeHeader(header, 1000)).toEqual({ type: 'none' });
+    });
+
+    it('is unsatisfiable when no range overlaps the file', () => {
+        expect(parseRangeHeader('bytes=1000-', 1000)).toEqual({ type: 'unsatisfiable' });
+        expect(parseRangeHeader('bytes=2000-3000, 1500-', 1000)).toEqual({ type: 'unsatisfiable' });
+        expect(parseRangeHeader('bytes=-0', 1000)).toEqual({ type: 'unsatisfiable' });
+        expect(parseRangeHeader('bytes=-10', 0)).toEqual({ type: 'unsatisfiable' });
+    });
+
+    it('drops the ranges past the end and keeps the others', () => {
+        expect(parseRangeHeader('bytes=0-9, 2000-', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 0, end: 9 }] });
+    });
+});
+
+describe('formatContentRange', () => {
+    it('formats a sent range, or the size alone for 416 responses', () => {
+        expect(formatContentRange({ start: 0, end: 99 }, 1000)).toBe('bytes 0-99/1000');
+        expect(formatContentRange(null, 1000)).toBe('bytes */1000');
+    });
+});
+
+describe('createMultipartBody', () => {
+    it('sends one part per range with the exact announced length', async () => {
+        const file = new TextEncoder().encode('0123456789abcdefghij');
+        const multipart = createMultipartBody(
+            [{ start: 0, end: 3 }, { start: 10, end: 12 }],
+            file.length,
+            'video/mp4',
+            async ({ start, end }) => new Response(file.slice(start, end + 1)).body!
+        );
+
+        const body = await new Response(multipart.body).text();
+        const boundary = multipart.contentType.match(/boundary=(.+)$/)![1];
+
+        expect(new TextEncoder().encode(body).length).toBe(multipart.length);
+        expect(body).toBe(
+            `--${boundary}\r\nContent-Type: video/mp4\r\nContent-Range: bytes 0-3/20\r\n\r\n0123` +
+            `\r\n--${boundary}\r\nContent-Type: video/mp4\r\nContent-Range: bytes 10-12/20\r\n\r\nabc` +
+            `\r\n--${boundary}--\r\n`
+        );
+    });
+});
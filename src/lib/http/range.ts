@@ -0,0 +1,150 @@
+/**
+ * HTTP Range requests (RFC 7233) for files served from storage
+ */
+import type { ByteRange } from '@/lib/storage';
+
+// More ranges than this in one request are ignored and the full file is sent
+export const MAX_RANGES = 16;
+
+export type RangeRequest =
+    | { type: 'none' }                                  // No usable Range header: send the full file (200)
+    | { type: 'unsatisfiable' }                         // No range overlaps the file (416)
+    | { type: 'ranges'; ranges: ByteRange[] };          // Satisfiable ranges, sorted and coalesced (206)
+
+/**
+ * Parses a Range header against the size of the file
+ * - Supports `start-end`, open-ended `start-` and suffix `-length` specs, several of them comma separated
+ * - Syntactically invalid headers, unknown units and too many ranges are ignored, as RFC 7233 allows
+ * - Ranges past the end are clamped, ranges starting past the end are dropped
+ * - Overlapping and adjacent ranges are merged so a multipart response never repeats bytes
+ * @param header - Raw Range header value
+ * @param size - File size in bytes
+ */
+export function parseRangeHeader(header: string | null, size: number): RangeRequest {
+    if (!header) return { type: 'none' };
+
+    const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+    if (!match) return { type: 'none' };
+
+    const specs = match[1].split(',').map(spec => spec.trim()).filter(Boolean);
+    if (specs.length === 0 || specs.length > MAX_RANGES) return { type: 'none' };
+
+    const ranges: ByteRange[] = [];
+
+    for (const spec of specs) {
+        const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+        if (!parts || (!parts[1] && !parts[2])) return { type: 'none' };
+
+        if (!parts[1]) {
+            // Suffix range: the last N bytes
+            const length = parseInt(parts[2], 10);
+            if (length > 0 && size > 0) {
+                ranges.push({ start: Math.max(size - length, 0), end: size - 1 });
+            }
+            continue;
+        }
+
+        const start = parseInt(parts[1], 10);
+        const end = parts[2] ? parseInt(parts[2], 10) : size - 1;
+
+        if (parts[2] && end < start) return { type: 'none' };
+        if (start >= size) continue;
+
+        ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+
+    if (ranges.length === 0) return { type: 'unsatisfiable' };
+
+    return { type: 'ranges', ranges: coalesceRanges(ranges) };
+}
+
+/**
+ * Sorts ranges and merges the ones that overlap or touch
+ */
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: ByteRange[] = [{ ...sorted[0] }];
+
+    for (const range of sorted.slice(1)) {
+        const last = merged[merged.length - 1];
+        if (range.start <= last.end + 1) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Formats a Content-Range header value
+ * @param range - Range being sent, or null for the `bytes * /size` form used by 416 responses
+ */
+export function formatContentRange(range: ByteRange | null, size: number): string {
+    return range ? `bytes ${range.start}-${range.end}/${size}` : `bytes */${size}`;
+}
+
+/**
+ * Builds a multipart/byteranges body, one part per range
+ * - Parts are read one after the other, only one storage stream is open at a time
+ * @param ranges - Coalesced ranges to send
+ * @param size - File size in bytes
+ * @param contentType - Type of the file, repeated in each part
+ * @param readRange - Opens a stream over one range of the file
+ * @returns Body stream, its exact length and the Content-Type header (with boundary)
+ */
+export function createMultipartBody(
+    ranges: ByteRange[],
+    size: number,
+    contentType: string,
+    readRange: (range: ByteRange) => Promise<ReadableStream<Uint8Array>>
+): { body: ReadableStream<Uint8Array>; length: number; contentType: string } {
+    const boundary = `tubechain-${crypto.randomUUID()}`;
+    const encoder = new TextEncoder();
+
+    const partHeaders = ranges.map((range, index) => encoder.encode(
+        `${index > 0 ? '\r\n' : ''}--${boundary}\r\n` +
+        `Content-Type: ${contentType}\r\n` +
+        `Content-Range: ${formatContentRange(range, size)}\r\n\r\n`
+    ));
+    const closing = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+    const length = partHeaders.reduce((total, header) => total + header.byteLength, 0)
+        + ranges.reduce((total, range) => total + range.end - range.start + 1, 0)
+        + closing.byteLength;
+
+    let index = 0;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+    const body = new ReadableStream<Uint8Array>({
+        // Every pull enqueues something, the stream is not pulled again after an empty one
+        async pull(controller) {
+            for (;;) {
+                if (!reader) {
+                    if (index >= ranges.length) {
+                        controller.enqueue(closing);
+                        controller.close();
+                        return;
+                    }
+                    controller.enqueue(partHeaders[index]);
+                    reader = (await readRange(ranges[index])).getReader();
+                    return;
+                }
+
+                const { done, value } = await reader.read();
+                if (!done) {
+                    controller.enqueue(value);
+                    return;
+                }
+                reader = null;
+                index++;
+            }
+        },
+        async cancel(reason) {
+            await reader?.cancel(reason);
+        },
+    });
+
+    return { body, length, contentType: `multipart/byteranges; boundary=${boundary}` };
+}
@@ -0,0 +1,59 @@
+import type { Locale } from './locales';
+
+// Units of formatFileSize, Intl names them in each language ("MB", "Mo"...)
+const SIZE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte'] as const;
+
+/**
+ * Formats a number with the separators of the language (1.234.567 / 1,234,567)
+ */
+export function formatNumber(value: number, locale: Locale): string {
+    return new Intl.NumberFormat(locale).format(value);
+}
+
+/**
+ * Formats a size in bytes with the largest fitting unit ("1,5 MB", "1.5 MB")
+ */
+export function formatFileSize(bytes: number, locale: Locale): string {
+    const exponent = bytes > 0 ? Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), SIZE_UNITS.length - 1) : 0;
+
+    return new Intl.NumberFormat(locale, {
+        style: 'unit',
+        unit: SIZE_UNITS[exponent],
+        unitDisplay: 'short',
+        maximumFractionDigits: exponent === 0 ? 0 : 2,
+    }).format(bytes / Math.pow(1024, exponent));
+}
+
+/**
+ * Formats a duration in seconds as h:mm:ss or m:ss, with the digits of the language
+ * - Strings are assumed to be formatted already and returned as they are
+ */
+export function formatDuration(duration: number | string | null | undefined, locale: Locale): string {
+    if (!duration) return '';
+    if (typeof duration === 'string') return duration;
+
+    const hours = Math.floor(duration / 3600);
+    const minutes = Math.floor((duration % 3600) / 60);
+    const seconds = Math.floor(duration % 60);
+
+    const plain = new Intl.NumberFormat(locale, { useGrouping: false });
+    const padded = new Intl.NumberFormat(locale, { minimumIntegerDigits: 2, useGrouping: false });
+
+    return hours > 0
+        ? `${plain.format(hours)}:${padded.format(minutes)}:${padded.format(seconds)}`
+        : `${plain.format(minutes)}:${padded.format(seconds)}`;
+}
+
+/**
+ * Formats a date, with the time when asked
+ * @param value - Date, or ISO string
+ * @param timeZone - Zone to show the time in, the local one by default (servers should pass 'UTC')
+ */
+export function formatDate(value: Date | string, locale: Locale, withTime = false, timeZone?: string): string {
+    const date = typeof value === 'string' ? new Date(value) : value;
+    return new Intl.DateTimeFormat(locale, {
+        dateStyle: 'medium',
+        ...(withTime && { timeStyle: 'short' }),
+        timeZone,
+    }).format(date);
+}
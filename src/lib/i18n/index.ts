@@ -0,0 +1,10 @@
+/**
+ * Internationalization: Spanish and English catalogs, language resolution and Intl formatting
+ * - Client-safe, request helpers live in '@/lib/i18n/server'
+ */
+export type { Locale } from './locales';
+export type { MessageKey } from './messages/es';
+export type { MessageParams, Translator } from './translate';
+export { DEFAULT_LOCALE, LOCALE_COOKIE, LOCALE_NAMES, LOCALES, isLocale, matchLocale, resolveLocale } from './locales';
+export { createTranslator } from './translate';
+export { formatDate, formatDuration, formatFileSize, formatNumber } from './format';
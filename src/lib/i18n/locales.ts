@@ -0,0 +1,48 @@
+export const LOCALES = ['es', 'en'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+// Used when neither the override nor Accept-Language names a supported language
+export const DEFAULT_LOCALE: Locale = 'es';
+
+// Cookie holding the language picked in the NavBar, it wins over Accept-Language
+export const LOCALE_COOKIE = 'tubechain-locale';
+
+// Names shown in the language picker, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+    es: 'Español',
+    en: 'English',
+};
+
+export function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the supported language the client prefers
+ * - Languages are tried by decreasing q-value, regional variants match their base language ('en-GB' → 'en')
+ * @param acceptLanguage - Accept-Language header, e.g. "en-US,en;q=0.9,es;q=0.8"
+ */
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+    if (!acceptLanguage) return DEFAULT_LOCALE;
+
+    const ranges = acceptLanguage.split(',')
+        .map(part => {
+            const [range, ...params] = part.trim().split(';');
+            const quality = params.map(param => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean);
+            return { language: range.trim().toLowerCase().split('-')[0], quality: quality ? parseFloat(quality) : 1 };
+        })
+        .filter(({ language, quality }) => language && quality > 0)
+        .sort((a, b) => b.quality - a.quality);
+
+    return ranges.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Resolves the language of a request: the saved override first, then Accept-Language
+ * @param override - Value of the LOCALE_COOKIE cookie
+ * @param acceptLanguage - Accept-Language header
+ */
+export function resolveLocale(override: string | null | undefined, acceptLanguage: string | null | undefined): Locale {
+    return isLocale(override) ? override : matchLocale(acceptLanguage);
+}
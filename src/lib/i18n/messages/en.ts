@@ -0,0 +1,257 @@
+import type { MessageKey } from './es';
+
+/**
+ * English catalog, same keys and placeholders as the Spanish one
+ */
+export const en: Record<MessageKey, string> = {
+    // Page metadata
+    'meta.description': 'Download YouTube videos with ease',
+
+    // Navigation bar
+    'nav.language': 'Language',
+
+    // Header
+    'header.tagline': 'Download YouTube videos in high quality',
+
+    // Footer
+    'footer.tagline': 'Maximum quality',
+
+    // Search box
+    'search.placeholder': 'Paste the video URL or type to search...',
+    'search.hint': 'Press Enter to search YouTube videos',
+    'search.rateLimited': 'Too many downloads in a row. You can try again in {seconds}s',
+    'search.mode.video': 'Video',
+    'search.mode.audio': 'Audio',
+    'search.subtitles.placeholder': 'Subtitles (e.g. en, es)',
+    'search.subtitles.auto': 'Auto-generated',
+    'search.subtitles.embed': 'Embed in the video',
+    'search.output.container': 'Video container',
+    'search.output.original': 'Original format',
+    'search.output.mp4': 'mp4 (H.264/AAC, compatible)',
+    'search.output.maxHeight': 'Maximum resolution',
+    'search.output.anyHeight': 'Original resolution',
+    'search.output.upTo': 'Up to {height}p',
+
+    // Search results
+    'results.title': 'Results for “{query}”',
+    'results.empty': 'No videos found',
+    'results.live': 'Live',
+    'results.more': 'Load more results',
+
+    // Video result
+    'video.unknownAuthor': 'Unknown',
+    'video.unavailable.private': 'This video is private',
+    'video.unavailable.ageRestricted': 'This video is age-restricted',
+    'video.unavailable.upcoming': 'This video has not premiered yet',
+    'video.unavailable.upcomingAt': 'This video has not premiered yet, it starts on {date}',
+    'video.unavailable.unavailable': 'This video is unavailable',
+    'video.views': '{count} views',
+    'video.subtitles.embedded': 'Embedded in the video',
+    'video.subtitles.missing': 'No subtitles: {languages}',
+    'video.chapters': '{count} chapters',
+    'video.chapters.bundled': 'one file per chapter in the zip',
+    'video.chapters.split': 'Split by chapters (zip)',
+    'video.reprocess': 'Process in this format',
+    'video.clip.frameAccurate': 'Frame accurate (slower, re-encodes)',
+    'video.clip.download': 'Cut clip',
+    'video.processing': 'Processing...',
+    'video.process': 'Process video',
+    'video.download': 'Download',
+    'video.live': 'Live',
+    'video.live.fromStart': 'Record from the start (when the stream allows it)',
+    'video.live.record': 'Record live stream',
+
+    // Video and audio previews
+    'preview.noSource': 'Error: No video source provided',
+    'preview.unsupportedVideo': 'Your browser does not support the video tag.',
+    'preview.playbackError': 'Error playing video. The file may be corrupted or in an unsupported format.',
+    'preview.attempted': 'Attempted to load: {path}',
+    'preview.reload': 'Reload Page',
+    'preview.subtitlesOff': 'Subtitles off',
+    'preview.clip.start': 'Start: {time}',
+    'preview.clip.end': 'End: {time}',
+    'preview.clip.markStart': 'Mark start ({time})',
+    'preview.clip.markEnd': 'Mark end',
+    'preview.clip.clear': 'Clear',
+    'preview.clip.length': '{time} clip',
+    'preview.clip.whole': 'Whole video',
+    'preview.audioError': 'Error playing audio. The file may be in a format your browser does not support.',
+    'preview.unsupportedAudio': 'Your browser does not support the audio element.',
+
+    // Format picker
+    'formats.preset.best': 'Best quality',
+    'formats.preset.smallest': 'Smallest file',
+    'formats.audio': 'Audio',
+    'formats.withAudio': 'with audio',
+    'formats.loading': 'Looking up formats...',
+    'formats.choose': 'Choose format and quality',
+    'formats.default': 'Default format',
+    'formats.group.presets': 'Shortcuts',
+    'formats.group.video': 'Video',
+    'formats.group.audio': 'Audio only',
+
+    // Download job phases
+    'phase.queued': 'Queued...',
+    'phase.queuedAt': 'Queued (position {position})...',
+    'phase.fetching': 'Fetching video...',
+    'phase.processing': 'Converting file...',
+    'phase.uploading': 'Saving video...',
+    'phase.default': 'Processing video...',
+    'phase.recording': 'Recording the live stream...',
+    'phase.recordingElapsed': '{elapsed} recorded out of a maximum of {max}',
+    'phase.stopRecording': 'Stop recording',
+    'phase.stoppingRecording': 'Stopping the recording...',
+
+    // Download list
+    'sessions.error': 'Error',
+    'sessions.readyCached': 'Ready (already saved)',
+    'sessions.ready': 'Ready',
+    'sessions.dismiss': 'Remove from the list',
+
+    // Playlists and channels
+    'playlist.channel': 'Channel',
+    'playlist.playlist': 'Playlist',
+    'playlist.count': '{count} videos',
+    'playlist.truncated': 'list truncated',
+    'playlist.selected': '{selected} of {total} selected',
+    'playlist.selectNone': 'Deselect all',
+    'playlist.selectAll': 'Select all',
+    'playlist.unavailable': 'Unavailable',
+    'playlist.packaging.zip': 'One zip file',
+    'playlist.packaging.files': 'Separate files',
+    'playlist.downloadZip': 'Download zip ({size})',
+    'playlist.downloading': 'Downloading {done} / {total}...',
+    'playlist.download': 'Download {count} videos',
+
+    // Download history
+    'history.deleteFailedStatus': 'Could not delete the file ({status})',
+    'history.deleteFailed': 'Could not delete the file',
+    'history.forgotOnly': 'Removed from the history. The file stays on the server until it expires.',
+    'history.downloadFailed': 'Download failed',
+    'history.copyFailed': 'Could not copy the link',
+    'history.title': 'History',
+    'history.clear': 'Clear history',
+    'history.expired': 'Link expired',
+    'history.refetch': 'Process again',
+    'history.redownload': 'Download again',
+    'history.copyLink': 'Copy link',
+    'history.remove': 'Remove from history',
+    'history.deleteFile': 'Delete file',
+
+    // Classified failures, title and next step (see ErrorCode)
+    'errorCode.private.title': 'The video is private',
+    'errorCode.private.hint': 'Only its owner and invited people can watch it. Ask for access or try another video.',
+    'errorCode.ageRestricted.title': 'The video is age-restricted',
+    'errorCode.ageRestricted.hint': 'YouTube requires signing in to watch it, so it cannot be downloaded.',
+    'errorCode.geoBlocked.title': 'The video is not available in this region',
+    'errorCode.geoBlocked.hint': 'The owner has blocked it in the server\'s country. Try another upload of the video.',
+    'errorCode.membersOnly.title': 'Members-only content',
+    'errorCode.membersOnly.hint': 'Only channel members can watch it, it cannot be downloaded.',
+    'errorCode.removed.title': 'The video no longer exists',
+    'errorCode.removed.hint': 'It was deleted or taken down by its owner or by YouTube. Check the URL.',
+    'errorCode.liveInProgress.title': 'The live stream is still in progress',
+    'errorCode.liveInProgress.hint': 'Record it as a live stream, or try again when the stream ends.',
+    'errorCode.premiere.title': 'The premiere has not started yet',
+    'errorCode.premiere.hint': 'Try again once the premiere has started.',
+    'errorCode.tooLarge.title': 'The video exceeds the allowed limit',
+    'errorCode.tooLarge.hint': 'Choose a lower quality format, audio only or cut a clip.',
+    'errorCode.backendUnavailable.title': 'The download service is not responding',
+    'errorCode.backendUnavailable.hint': 'This is a temporary problem, try again in a few minutes.',
+    'errorCode.storageFailure.title': 'The file could not be saved',
+    'errorCode.storageFailure.hint': 'Storage failed, try again in a few minutes.',
+    'errorCode.unknown.title': 'The video could not be downloaded',
+    'errorCode.unknown.hint': 'Try again, and if the error persists try another format.',
+
+    // Client errors
+    'errors.tooManyRequests': 'Too many requests, try again in {seconds} seconds',
+    'errors.downloadFailed': 'Video download failed',
+    'errors.progressLost': 'Lost connection to the download progress stream',
+    'errors.formatsFailed': 'Could not load available formats',
+    'errors.searchFailed': 'Search failed',
+    'errors.infoFailed': 'Could not load video details',
+    'errors.playlistFailed': 'Could not load playlist',
+    'errors.batchFailed': 'Batch download failed',
+    'errors.httpStatus': 'Error: {status}',
+    'errors.unknown': 'Unknown error occurred',
+    'errors.timeout': 'Request timed out. Please try again.',
+    'errors.noFile': 'No file information available',
+    'errors.linkExpired': 'Download link expired, please process the video again',
+    'errors.fileUnavailable': 'File not available ({status})',
+    'errors.fileDownloadFailed': 'Download failed: {message}',
+    'errors.fileDownloadRetry': 'Download failed. Please try again.',
+    'errors.retry': 'Retry',
+    'errors.premiereAt': 'This premiere has not started yet, it is scheduled for {date}',
+    'errors.stopFailed': 'Could not stop the recording',
+    'errors.badResponse': 'The server sent an unexpected response, please try again',
+
+    // Input validation, client and API
+    'validation.urlRequired': 'Please enter a video URL',
+    'validation.unsupportedSite': 'This URL is not from a supported site ({sites})',
+    'validation.invalidVideo': 'This {site} URL does not point to a video',
+    'validation.invalidUrl': 'Invalid video URL',
+    'validation.subtitles.object': 'Subtitles must be an object with a list of languages',
+    'validation.subtitles.count': 'Subtitles need between 1 and {max} languages',
+    'validation.subtitles.languages': 'Subtitle languages must be language codes such as "en" or "es-419"',
+    'validation.subtitles.flags': 'includeAutoGenerated and embed must be booleans',
+    'validation.subtitles.format': 'Subtitle format must be one of: {formats}',
+    'validation.clip.timestamps': 'start and end must be seconds or hh:mm:ss timestamps, end is required',
+    'validation.clip.order': 'end must be after start',
+    'validation.clip.frameAccurate': 'frameAccurate must be a boolean',
+    'validation.clip.tooLong': 'Clips cannot be longer than {seconds} seconds',
+    'validation.format': 'Please choose one of the formats listed by /api/formats',
+    'validation.mode': 'Mode must be "video" or "audio"',
+    'validation.audioFormat': 'Audio format must be one of: {formats}',
+    'validation.clip.subtitles': 'Subtitles are not available for clips',
+    'validation.chapters.flag': 'splitChapters must be a boolean',
+    'validation.chapters.conflict': 'Chapters cannot be split from clips or videos with embedded subtitles',
+    'validation.subtitles.audioEmbed': 'Subtitles can only be embedded in video downloads',
+    'validation.live.disabled': 'Live recordings are disabled on this server',
+    'validation.live.object': 'live must be an object { fromStart, maxDuration }',
+    'validation.live.fromStart': 'fromStart must be a boolean',
+    'validation.live.maxDuration': 'maxDuration must be between 1 and {max} seconds',
+    'validation.live.conflict': 'Live recordings cannot be combined with clips, chapters or subtitles',
+    'validation.output.object': 'output must be an object { container, maxHeight } with at least one of them',
+    'validation.output.container': 'Container must be one of: {containers}',
+    'validation.output.maxHeight': 'maxHeight must be a whole number between {min} and {max}',
+    'validation.output.audio': 'Video conversion is not available in audio mode, use audioFormat',
+
+    // API responses
+    'api.rateLimited': 'Too many download requests, try again in {seconds} seconds',
+    'api.urlRequired': 'Please provide a valid video URL',
+    'api.invalidBody': 'The request body must be a JSON object',
+    'api.download.cached': 'Video already downloaded',
+    'api.queueFull': 'The download queue is full, please try again later',
+    'api.download.created': 'Download job created',
+    'api.batch.entriesRequired': 'Please select at least one video',
+    'api.batch.tooMany': 'A batch can hold at most {max} videos',
+    'api.batch.invalidEntry': 'Every entry needs a valid video URL',
+    'api.batch.packaging': 'Packaging must be "zip" or "files"',
+    'api.batch.subtitles': 'Subtitles are only available for single video downloads',
+    'api.batch.clip': 'Clips are only available for single video downloads',
+    'api.batch.chapters': 'Chapters can only be split for single video downloads',
+    'api.batch.created': 'Batch job created',
+    'api.info.youtubeOnly': 'Previews are only available for YouTube videos',
+    'api.info.notFound': 'This video does not exist or has been removed',
+    'api.search.queryRequired': 'Please provide search terms',
+    'api.search.queryTooLong': 'Search terms cannot be longer than {max} characters',
+    'api.search.expired': 'These search results expired, please search again',
+    'api.playlist.urlRequired': 'Please provide a YouTube playlist or channel URL',
+    'api.file.tokenRequired': 'Files are only available through the signed links of a download job',
+    'api.file.expired': 'This link has expired, download the video again',
+    'api.file.invalidToken': 'The link is not valid for this operation',
+    'api.file.notFound': 'The file is no longer available',
+    'api.file.deleted': 'File deleted successfully',
+    'api.job.notFound': 'No download job with id {id}',
+    'api.retention.disabled': 'Retention API is disabled, set RETENTION_ADMIN_TOKEN to enable it',
+    'api.retention.unauthorized': 'A valid admin token is required',
+    'api.live.premiere': 'This premiere has not started yet',
+    'api.live.premiereAt': 'This premiere has not started yet, it is scheduled for {date} (UTC)',
+    'api.live.recordInstead': 'This video is being broadcast live, record it as a live stream to download it',
+    'api.batch.live': 'Live recordings are only available for single video downloads',
+    'api.job.notRecording': 'This download is not recording a live stream',
+    'api.limit.duration': 'The video is too long ({duration}), the limit is {maxDuration}',
+    'api.limit.size': 'The file is too large ({size}), the limit is {maxSize}',
+    'api.processing.timeout': 'Processing the file took too long (over {duration}), try a shorter clip or a lower resolution',
+    'api.storageFailed': 'Could not store the file',
+    'api.batch.allFailed': 'None of the selected entries could be downloaded',
+};
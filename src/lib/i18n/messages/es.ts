@@ -0,0 +1,259 @@
+/**
+ * Spanish catalog, the reference language
+ * - Keys are grouped by screen or API area, {name} marks a placeholder
+ * - Every other catalog must define the same keys
+ */
+export const es = {
+    // Page metadata
+    'meta.description': 'Descarga vídeos de YouTube con facilidad',
+
+    // Navigation bar
+    'nav.language': 'Idioma',
+
+    // Header
+    'header.tagline': 'Descarga videos de YouTube en alta calidad',
+
+    // Footer
+    'footer.tagline': 'Máxima calidad',
+
+    // Search box
+    'search.placeholder': 'Pega la URL del video o escribe para buscar...',
+    'search.hint': 'Pulsa Intro para buscar videos en YouTube',
+    'search.rateLimited': 'Demasiadas descargas seguidas. Podrás volver a intentarlo en {seconds}s',
+    'search.mode.video': 'Video',
+    'search.mode.audio': 'Audio',
+    'search.subtitles.placeholder': 'Subtítulos (ej. es, en)',
+    'search.subtitles.auto': 'Automáticos',
+    'search.subtitles.embed': 'Incrustar en el video',
+    'search.output.container': 'Contenedor del video',
+    'search.output.original': 'Formato original',
+    'search.output.mp4': 'mp4 (H.264/AAC, compatible)',
+    'search.output.maxHeight': 'Resolución máxima',
+    'search.output.anyHeight': 'Resolución original',
+    'search.output.upTo': 'Hasta {height}p',
+
+    // Search results
+    'results.title': 'Resultados para “{query}”',
+    'results.empty': 'No se encontraron videos',
+    'results.live': 'En directo',
+    'results.more': 'Cargar más resultados',
+
+    // Video result
+    'video.unknownAuthor': 'Desconocido',
+    'video.unavailable.private': 'Este video es privado',
+    'video.unavailable.ageRestricted': 'Este video tiene restricción de edad',
+    'video.unavailable.upcoming': 'Este video todavía no se ha estrenado',
+    'video.unavailable.upcomingAt': 'Este video todavía no se ha estrenado, empieza el {date}',
+    'video.unavailable.unavailable': 'Este video no está disponible',
+    'video.views': '{count} visualizaciones',
+    'video.subtitles.embedded': 'Incrustados en el video',
+    'video.subtitles.missing': 'Sin subtítulos: {languages}',
+    'video.chapters': '{count} capítulos',
+    'video.chapters.bundled': 'un archivo por capítulo en el zip',
+    'video.chapters.split': 'Dividir por capítulos (zip)',
+    'video.reprocess': 'Procesar en este formato',
+    'video.clip.frameAccurate': 'Precisión de fotograma (más lento, vuelve a codificar)',
+    'video.clip.download': 'Recortar clip',
+    'video.processing': 'Procesando...',
+    'video.process': 'Procesar video',
+    'video.download': 'Descargar',
+    'video.live': 'En directo',
+    'video.live.fromStart': 'Grabar desde el principio (si el directo lo permite)',
+    'video.live.record': 'Grabar directo',
+
+    // Video and audio previews
+    'preview.noSource': 'Error: no se ha indicado el origen del video',
+    'preview.unsupportedVideo': 'Tu navegador no puede reproducir este video.',
+    'preview.playbackError': 'Error al reproducir el video. El archivo puede estar dañado o en un formato no compatible.',
+    'preview.attempted': 'Se intentó cargar: {path}',
+    'preview.reload': 'Recargar página',
+    'preview.subtitlesOff': 'Subtítulos desactivados',
+    'preview.clip.start': 'Inicio: {time}',
+    'preview.clip.end': 'Fin: {time}',
+    'preview.clip.markStart': 'Marcar inicio ({time})',
+    'preview.clip.markEnd': 'Marcar fin',
+    'preview.clip.clear': 'Quitar',
+    'preview.clip.length': 'Clip de {time}',
+    'preview.clip.whole': 'Video completo',
+    'preview.audioError': 'Error al reproducir el audio. El archivo puede estar en un formato que tu navegador no admite.',
+    'preview.unsupportedAudio': 'Tu navegador no puede reproducir este audio.',
+
+    // Format picker
+    'formats.preset.best': 'Máxima calidad',
+    'formats.preset.smallest': 'Archivo más pequeño',
+    'formats.audio': 'Audio',
+    'formats.withAudio': 'con audio',
+    'formats.loading': 'Buscando formatos...',
+    'formats.choose': 'Elegir formato y calidad',
+    'formats.default': 'Formato por defecto',
+    'formats.group.presets': 'Atajos',
+    'formats.group.video': 'Video',
+    'formats.group.audio': 'Solo audio',
+
+    // Download job phases
+    'phase.queued': 'En cola...',
+    'phase.queuedAt': 'En cola (posición {position})...',
+    'phase.fetching': 'Obteniendo video...',
+    'phase.processing': 'Convirtiendo archivo...',
+    'phase.uploading': 'Guardando video...',
+    'phase.default': 'Procesando video...',
+    'phase.recording': 'Grabando el directo...',
+    'phase.recordingElapsed': '{elapsed} grabados de un máximo de {max}',
+    'phase.stopRecording': 'Detener grabación',
+    'phase.stoppingRecording': 'Deteniendo la grabación...',
+
+    // Download list
+    'sessions.error': 'Error',
+    'sessions.readyCached': 'Listo (ya estaba guardado)',
+    'sessions.ready': 'Listo',
+    'sessions.dismiss': 'Quitar de la lista',
+
+    // Playlists and channels
+    'playlist.channel': 'Canal',
+    'playlist.playlist': 'Lista de reproducción',
+    'playlist.count': '{count} videos',
+    'playlist.truncated': 'lista recortada',
+    'playlist.selected': '{selected} de {total} seleccionados',
+    'playlist.selectNone': 'Quitar todos',
+    'playlist.selectAll': 'Seleccionar todos',
+    'playlist.unavailable': 'No disponible',
+    'playlist.packaging.zip': 'Un archivo zip',
+    'playlist.packaging.files': 'Archivos separados',
+    'playlist.downloadZip': 'Descargar zip ({size})',
+    'playlist.downloading': 'Descargando {done} / {total}...',
+    'playlist.download': 'Descargar {count} videos',
+
+    // Download history
+    'history.deleteFailedStatus': 'No se pudo eliminar el archivo ({status})',
+    'history.deleteFailed': 'No se pudo eliminar el archivo',
+    'history.forgotOnly': 'Se ha quitado del historial. El archivo sigue en el servidor hasta que caduque.',
+    'history.downloadFailed': 'La descarga ha fallado',
+    'history.copyFailed': 'No se pudo copiar el enlace',
+    'history.title': 'Historial',
+    'history.clear': 'Vaciar historial',
+    'history.expired': 'Enlace caducado',
+    'history.refetch': 'Volver a procesar',
+    'history.redownload': 'Descargar de nuevo',
+    'history.copyLink': 'Copiar enlace',
+    'history.remove': 'Quitar del historial',
+    'history.deleteFile': 'Eliminar archivo',
+
+    // Classified failures, title and next step (see ErrorCode)
+    'errorCode.private.title': 'El video es privado',
+    'errorCode.private.hint': 'Solo su autor y las personas invitadas pueden verlo. Pide acceso o prueba con otro video.',
+    'errorCode.ageRestricted.title': 'El video tiene restricción de edad',
+    'errorCode.ageRestricted.hint': 'YouTube exige iniciar sesión para verlo, por lo que no se puede descargar.',
+    'errorCode.geoBlocked.title': 'El video no está disponible en esta región',
+    'errorCode.geoBlocked.hint': 'El autor lo ha bloqueado en el país del servidor. Prueba con otra versión del video.',
+    'errorCode.membersOnly.title': 'Contenido exclusivo para miembros',
+    'errorCode.membersOnly.hint': 'Solo los miembros del canal pueden verlo, no se puede descargar.',
+    'errorCode.removed.title': 'El video ya no existe',
+    'errorCode.removed.hint': 'Ha sido eliminado o retirado por su autor o por YouTube. Comprueba la URL.',
+    'errorCode.liveInProgress.title': 'La emisión en directo sigue en curso',
+    'errorCode.liveInProgress.hint': 'Grábala como directo o vuelve a intentarlo cuando termine la emisión.',
+    'errorCode.premiere.title': 'El estreno todavía no ha empezado',
+    'errorCode.premiere.hint': 'Vuelve a intentarlo cuando empiece el estreno.',
+    'errorCode.tooLarge.title': 'El video supera el límite permitido',
+    'errorCode.tooLarge.hint': 'Elige un formato de menor calidad, solo el audio o recorta un clip.',
+    'errorCode.backendUnavailable.title': 'El servicio de descargas no responde',
+    'errorCode.backendUnavailable.hint': 'Es un problema temporal, vuelve a intentarlo en unos minutos.',
+    'errorCode.storageFailure.title': 'No se pudo guardar el archivo',
+    'errorCode.storageFailure.hint': 'El almacenamiento ha fallado, vuelve a intentarlo en unos minutos.',
+    'errorCode.unknown.title': 'No se pudo descargar el video',
+    'errorCode.unknown.hint': 'Vuelve a intentarlo, y si el error persiste prueba con otro formato.',
+
+    // Client errors
+    'errors.tooManyRequests': 'Demasiadas peticiones, vuelve a intentarlo en {seconds} segundos',
+    'errors.downloadFailed': 'No se pudo descargar el video',
+    'errors.progressLost': 'Se perdió la conexión con el progreso de la descarga',
+    'errors.formatsFailed': 'No se pudieron cargar los formatos disponibles',
+    'errors.searchFailed': 'La búsqueda ha fallado',
+    'errors.infoFailed': 'No se pudieron cargar los datos del video',
+    'errors.playlistFailed': 'No se pudo cargar la lista',
+    'errors.batchFailed': 'La descarga por lotes ha fallado',
+    'errors.httpStatus': 'Error: {status}',
+    'errors.unknown': 'Se produjo un error desconocido',
+    'errors.timeout': 'La petición ha tardado demasiado, vuelve a intentarlo',
+    'errors.noFile': 'No hay información del archivo',
+    'errors.linkExpired': 'El enlace de descarga ha caducado, vuelve a procesar el video',
+    'errors.fileUnavailable': 'Archivo no disponible ({status})',
+    'errors.fileDownloadFailed': 'La descarga ha fallado: {message}',
+    'errors.fileDownloadRetry': 'La descarga ha fallado, vuelve a intentarlo',
+    'errors.retry': 'Reintentar',
+    'errors.premiereAt': 'Este estreno todavía no ha empezado, está programado para el {date}',
+    'errors.stopFailed': 'No se pudo detener la grabación',
+    'errors.badResponse': 'El servidor envió una respuesta inesperada, inténtalo de nuevo',
+
+    // Input validation, client and API
+    'validation.urlRequired': 'Introduce la URL de un video',
+    'validation.unsupportedSite': 'Esta URL no es de un sitio compatible ({sites})',
+    'validation.invalidVideo': 'Esta URL de {site} no apunta a un video',
+    'validation.invalidUrl': 'URL de video no válida',
+    'validation.subtitles.object': 'Los subtítulos deben ser un objeto con una lista de idiomas',
+    'validation.subtitles.count': 'Los subtítulos necesitan entre 1 y {max} idiomas',
+    'validation.subtitles.languages': 'Los idiomas de los subtítulos deben ser códigos como "es" o "es-419"',
+    'validation.subtitles.flags': 'includeAutoGenerated y embed deben ser booleanos',
+    'validation.subtitles.format': 'El formato de subtítulos debe ser uno de: {formats}',
+    'validation.clip.timestamps': 'start y end deben ser segundos o marcas hh:mm:ss, end es obligatorio',
+    'validation.clip.order': 'end debe ser posterior a start',
+    'validation.clip.frameAccurate': 'frameAccurate debe ser un booleano',
+    'validation.clip.tooLong': 'Los clips no pueden durar más de {seconds} segundos',
+    'validation.format': 'Elige uno de los formatos que devuelve /api/formats',
+    'validation.mode': 'El modo debe ser "video" o "audio"',
+    'validation.audioFormat': 'El formato de audio debe ser uno de: {formats}',
+    'validation.clip.subtitles': 'Los subtítulos no están disponibles para clips',
+    'validation.chapters.flag': 'splitChapters debe ser un booleano',
+    'validation.chapters.conflict': 'No se pueden dividir capítulos de clips ni de videos con subtítulos incrustados',
+    'validation.subtitles.audioEmbed': 'Los subtítulos solo se pueden incrustar en descargas de video',
+    'validation.live.disabled': 'Las grabaciones de directos están desactivadas en este servidor',
+    'validation.live.object': 'live debe ser un objeto { fromStart, maxDuration }',
+    'validation.live.fromStart': 'fromStart debe ser un booleano',
+    'validation.live.maxDuration': 'maxDuration debe estar entre 1 y {max} segundos',
+    'validation.live.conflict': 'Las grabaciones de directos no admiten clips, capítulos ni subtítulos',
+    'validation.output.object': 'output debe ser un objeto { container, maxHeight } con al menos uno de los dos',
+    'validation.output.container': 'El contenedor debe ser uno de: {containers}',
+    'validation.output.maxHeight': 'maxHeight debe ser un número entero entre {min} y {max}',
+    'validation.output.audio': 'La conversión de video no está disponible en modo audio, usa audioFormat',
+
+    // API responses
+    'api.rateLimited': 'Demasiadas peticiones de descarga, vuelve a intentarlo en {seconds} segundos',
+    'api.urlRequired': 'Indica una URL de video válida',
+    'api.invalidBody': 'El cuerpo de la petición debe ser un objeto JSON',
+    'api.download.cached': 'El video ya estaba descargado',
+    'api.queueFull': 'La cola de descargas está llena, vuelve a intentarlo más tarde',
+    'api.download.created': 'Trabajo de descarga creado',
+    'api.batch.entriesRequired': 'Selecciona al menos un video',
+    'api.batch.tooMany': 'Un lote admite como máximo {max} videos',
+    'api.batch.invalidEntry': 'Cada entrada necesita una URL de video válida',
+    'api.batch.packaging': 'El empaquetado debe ser "zip" o "files"',
+    'api.batch.subtitles': 'Los subtítulos solo están disponibles al descargar un único video',
+    'api.batch.clip': 'Los clips solo están disponibles al descargar un único video',
+    'api.batch.chapters': 'Los capítulos solo se pueden dividir al descargar un único video',
+    'api.batch.created': 'Trabajo por lotes creado',
+    'api.info.youtubeOnly': 'La vista previa solo está disponible para videos de YouTube',
+    'api.info.notFound': 'Este video no existe o ha sido eliminado',
+    'api.search.queryRequired': 'Escribe qué quieres buscar',
+    'api.search.queryTooLong': 'La búsqueda no puede tener más de {max} caracteres',
+    'api.search.expired': 'Estos resultados han caducado, vuelve a buscar',
+    'api.playlist.urlRequired': 'Indica la URL de una lista o un canal de YouTube',
+    'api.file.tokenRequired': 'Los archivos solo están disponibles mediante los enlaces firmados de un trabajo de descarga',
+    'api.file.expired': 'Este enlace ha caducado, vuelve a descargar el video',
+    'api.file.invalidToken': 'El enlace no es válido para esta operación',
+    'api.file.notFound': 'El archivo ya no está disponible',
+    'api.file.deleted': 'Archivo eliminado correctamente',
+    'api.job.notFound': 'No hay ningún trabajo de descarga con id {id}',
+    'api.retention.disabled': 'La API de retención está desactivada, define RETENTION_ADMIN_TOKEN para activarla',
+    'api.retention.unauthorized': 'Se necesita un token de administración válido',
+    'api.live.premiere': 'Este estreno todavía no ha empezado',
+    'api.live.premiereAt': 'Este estreno todavía no ha empezado, está programado para el {date} (UTC)',
+    'api.live.recordInstead': 'Este video se está emitiendo en directo, grábalo como directo para descargarlo',
+    'api.batch.live': 'Las grabaciones de directos solo están disponibles al descargar un único video',
+    'api.job.notRecording': 'Esta descarga no está grabando un directo',
+    'api.limit.duration': 'El video es demasiado largo ({duration}), el límite es {maxDuration}',
+    'api.limit.size': 'El archivo es demasiado grande ({size}), el límite es {maxSize}',
+    'api.processing.timeout': 'El procesamiento del archivo tardó demasiado (más de {duration}), prueba con un fragmento más corto o una resolución menor',
+    'api.storageFailed': 'No se pudo guardar el archivo',
+    'api.batch.allFailed': 'No se pudo descargar ninguna de las entradas seleccionadas',
+} as const;
+
+export type MessageKey = keyof typeof es;
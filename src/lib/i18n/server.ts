@@ -0,0 +1,26 @@
+import { cookies, headers } from 'next/headers';
+import type { NextRequest } from 'next/server';
+import { LOCALE_COOKIE, Locale, resolveLocale } from './locales';
+import { createTranslator, Translator } from './translate';
+
+/**
+ * Language of an API request: the NavBar override cookie, then Accept-Language
+ */
+export function getRequestLocale(request: NextRequest): Locale {
+    return resolveLocale(request.cookies.get(LOCALE_COOKIE)?.value, request.headers.get('accept-language'));
+}
+
+/**
+ * Translation function in the language of an API request
+ */
+export function getRequestTranslator(request: NextRequest): Translator {
+    return createTranslator(getRequestLocale(request));
+}
+
+/**
+ * Language of the page being rendered, for server components
+ */
+export async function getServerLocale(): Promise<Locale> {
+    const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+    return resolveLocale(cookieStore.get(LOCALE_COOKIE)?.value, headerList.get('accept-language'));
+}
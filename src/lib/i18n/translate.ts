@@ -0,0 +1,26 @@
+import { es, MessageKey } from './messages/es';
+import { en } from './messages/en';
+import type { Locale } from './locales';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { es, en };
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Creates the translation function of a language
+ * - {name} placeholders are replaced by params.name, unknown placeholders are left as they are
+ * @param locale - Catalog to read from
+ */
+export function createTranslator(locale: Locale): Translator {
+    const catalog = CATALOGS[locale];
+
+    return (key, params) => {
+        const message = catalog[key] ?? es[key] ?? key;
+        if (!params) return message;
+        return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+            name in params ? String(params[name]) : placeholder
+        );
+    };
+}
@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto';
+import { Innertube, YTNodes } from 'youtubei.js';
+import type { YT } from 'youtubei.js';
+import { getGlobalSingleton } from '@/lib/global';
+
+// Why a video cannot be downloaded
+export type UnavailableReason = 'private' | 'age_restricted' | 'upcoming' | 'unavailable';
+
+// Lightweight video details, shown before anything is downloaded
+export interface VideoDetails {
+    videoId: string;
+    title: string;
+    author: string;
+    duration: number | null;    // Seconds, null for live streams
+    thumbnail: string | null;
+    viewCount: number | null;
+    uploadDate: string | null;  // ISO date
+    description: string;
+    isLive: boolean;            // Broadcasting now, it can only be recorded
+    scheduledStart: string | null; // ISO date a premiere or live event starts, while it is upcoming
+    downloadable: boolean;
+    unavailableReason: UnavailableReason | null;
+    unavailableMessage: string | null; // Explanation given by YouTube, when there is one
+}
+
+// One client per process, creating a session costs a round trip to YouTube
+function getClientHolder(): { client: Promise<Innertube> | null } {
+    return getGlobalSingleton('innertube', () => ({ client: null as Promise<Innertube> | null }));
+}
+
+/**
+ * Returns the shared youtubei.js client
+ * - The player script is not needed to read metadata, it is not fetched
+ * - A failed session is dropped so the next call tries again
+ */
+export function getInnertube(): Promise<Innertube> {
+    const holder = getClientHolder();
+    if (!holder.client) {
+        holder.client = Innertube.create({ retrieve_player: false }).catch(error => {
+            holder.client = null;
+            throw error;
+        });
+    }
+    return holder.client;
+}
+
+/**
+ * Tells whether yt-dlp could download a video, from its player response
+ * - Private, age-gated (sign-in required) and upcoming videos are refused
+ * - Live streams are available, as recordings
+ */
+function getAvailability(
+    status: string | undefined,
+    { isPrivate, isFamilySafe, isUpcoming }: { isPrivate?: boolean; isFamilySafe?: boolean; isUpcoming?: boolean },
+    reason: string | undefined
+): UnavailableReason | null {
+    if (isPrivate) return 'private';
+    if (isUpcoming) return 'upcoming';
+    if (status === 'LOGIN_REQUIRED') {
+        return isFamilySafe === false || /age/i.test(reason ?? '') ? 'age_restricted' : 'private';
+    }
+    if (isFamilySafe === false) return 'age_restricted';
+    if (status && status !== 'OK') return 'unavailable';
+    return null;
+}
+
+/**
+ * Fetches the details of a video from YouTube's internal API, much faster than yt-dlp
+ * @param videoId - 11 character video id
+ * @returns The details, or null when YouTube does not know the video
+ */
+export async function getVideoDetails(videoId: string): Promise<VideoDetails | null> {
+    const innertube = await getInnertube();
+    const info = await innertube.getBasicInfo(videoId);
+    const { basic_info: details, playability_status: playability } = info;
+
+    if (!details.title && playability?.status === 'ERROR') {
+        return null;
+    }
+
+    // Upload date only comes with the microformat of the player response
+    const microformat = info.page[0].microformat;
+    const uploadTime = microformat?.is(YTNodes.PlayerMicroformat)
+        ? Date.parse(microformat.upload_date || microformat.publish_date)
+        : NaN;
+
+    const unavailableReason = getAvailability(playability?.status, {
+        isPrivate: details.is_private,
+        isFamilySafe: details.is_family_safe,
+        isUpcoming: details.is_upcoming,
+    }, playability?.reason);
+
+    // Thumbnails are sorted from the largest
+    const thumbnail = details.thumbnail?.[0]?.url ?? null;
+
+    return {
+        videoId,
+        title: details.title ?? 'Untitled video',
+        author: details.author ?? details.channel?.name ?? 'Unknown',
+        duration: details.is_live ? null : details.duration ?? null,
+        thumbnail,
+        viewCount: details.view_count ?? null,
+        uploadDate: isNaN(uploadTime) ? null : new Date(uploadTime).toISOString(),
+        description: details.short_description ?? '',
+        isLive: Boolean(details.is_live),
+        scheduledStart: details.is_upcoming && details.start_timestamp ? details.start_timestamp.toISOString() : null,
+        downloadable: unavailableReason === null,
+        unavailableReason,
+        unavailableMessage: unavailableReason ? playability?.reason || null : null,
+    };
+}
+
+// Video found by a keyword search
+export interface SearchResult {
+    videoId: string;
+    url: string;
+    title: string;
+    channel: string;
+    duration: number | null;    // Seconds, null for live streams
+    thumbnail: string | null;
+    isLive: boolean;
+}
+
+export interface SearchPage {
+    query: string;
+    results: SearchResult[];
+    nextPageToken: string | null; // Send back to get the following results
+}
+
+// How long the following page of a search can be requested
+const SEARCH_PAGE_TTL_MS = 10 * 60 * 1000;
+const MAX_SEARCH_PAGES = 500;
+
+type PendingPage = { query: string; search: YT.Search; expiresAt: number };
+
+// YouTube continuations live on the youtubei.js search object, it is kept here until its next page is asked for
+function getPendingPages(): Map<string, PendingPage> {
+    return getGlobalSingleton('searchPages', () => new Map<string, PendingPage>());
+}
+
+/**
+ * Keeps a search that has more results and returns the token of its next page
+ * - Expired searches are dropped, and the oldest ones beyond MAX_SEARCH_PAGES
+ */
+function rememberSearch(query: string, search: YT.Search): string | null {
+    if (!search.has_continuation) return null;
+
+    const pages = getPendingPages();
+    const now = Date.now();
+    for (const [token, page] of pages) {
+        if (page.expiresAt <= now || pages.size >= MAX_SEARCH_PAGES) pages.delete(token);
+    }
+
+    const token = randomUUID();
+    pages.set(token, { query, search, expiresAt: now + SEARCH_PAGE_TTL_MS });
+    return token;
+}
+
+/**
+ * Keeps the plain videos of a results page (channels, playlists, shelves and shorts are skipped)
+ */
+function toSearchResults(search: YT.Search): SearchResult[] {
+    return search.results.filterType(YTNodes.Video).map(video => ({
+        videoId: video.video_id,
+        url: `https://www.youtube.com/watch?v=${video.video_id}`,
+        title: video.title.toString(),
+        channel: video.author?.name ?? 'Unknown',
+        duration: video.is_live ? null : video.duration.seconds || null,
+        thumbnail: video.best_thumbnail?.url ?? null,
+        isLive: video.is_live,
+    }));
+}
+
+/**
+ * Searches YouTube videos by keywords
+ * @param query - Search terms
+ * @param pageToken - Token of a previous page, continues that search instead
+ * @returns One page of results, or null when the page token is unknown or expired
+ */
+export async function searchVideos(query: string, pageToken?: string | null): Promise<SearchPage | null> {
+    let search: YT.Search;
+
+    if (pageToken) {
+        const pages = getPendingPages();
+        const page = pages.get(pageToken);
+        if (!page || page.expiresAt <= Date.now() || page.query !== query) {
+            pages.delete(pageToken);
+            return null;
+        }
+        // Each page can only be continued once
+        pages.delete(pageToken);
+        search = await page.search.getContinuation();
+    } else {
+        const innertube = await getInnertube();
+        search = await innertube.search(query, { type: 'video' });
+    }
+
+    return {
+        query,
+        results: toSearchResults(search),
+        nextPageToken: rememberSearch(query, search),
+    };
+}
@@ -0,0 +1,185 @@
+import path from 'path';
+import { Readable } from 'stream';
+import archiver from 'archiver';
+import { getStorage } from '@/lib/storage';
+import { createFileLinks } from '@/lib/signing';
+import { localizedMessage, toStorageError } from '@/lib/downloader';
+import { downloadToStorage, toJobError } from './download-job';
+import { runQueued } from './queue';
+import { getJob, updateJob } from './store';
+import type { BatchItem, BatchState, Job, JobFile } from './types';
+
+/**
+ * Applies changes to one batch entry and publishes the new batch state
+ */
+function updateItem(job: Job, index: number, changes: Partial<BatchItem>): void {
+  const batch = getJob(job.id)?.batch;
+  if (!batch) return;
+
+  const items = batch.items.map((item, i) => i === index ? { ...item, ...changes } : item);
+  updateJob(job.id, { batch: { ...batch, items } });
+}
+
+/**
+ * Builds unique, readable archive entry names: "03 - Title.mp4"
+ */
+function archiveEntryNames(files: Array<{ index: number; title: string; file: JobFile }>, total: number): string[] {
+  const digits = String(total).length;
+  const used = new Set<string>();
+
+  return files.map(({ index, title, file }) => {
+    const extension = path.extname(file.originalFilename) || path.extname(file.filename);
+    const safeTitle = title.replace(/[\\/:*?"<>|]/g, '_').substring(0, 100);
+    let name = `${String(index + 1).padStart(digits, '0')} - ${safeTitle}${extension}`;
+
+    for (let n = 2; used.has(name); n++) {
+      name = `${String(index + 1).padStart(digits, '0')} - ${safeTitle} (${n})${extension}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Packs stored files into a single zip archive in storage
+ * - Entries are stored uncompressed, media files do not compress (zip64 kicks in for large archives)
+ * - Files are read one at a time, the next one is opened when the previous entry is written
+ * - Source files are removed once the archive is stored
+ */
+async function createArchive(job: Job, batch: BatchState, files: Array<{ index: number; title: string; file: JobFile }>): Promise<JobFile> {
+  const storage = getStorage();
+  const names = archiveEntryNames(files, batch.items.length);
+  const archive = archiver('zip', { store: true });
+
+  let next = 0;
+  const appendNext = async () => {
+    if (next >= files.length) {
+      await archive.finalize();
+      return;
+    }
+
+    const current = next++;
+    try {
+      const body = await storage.read(files[current].file.filename);
+      archive.append(Readable.fromWeb(body as import('stream/web').ReadableStream), { name: names[current] });
+    } catch (error) {
+      archive.abort();
+      archive.emit('error', error);
+    }
+  };
+
+  archive.on('entry', () => {
+    void appendNext();
+  });
+  void appendNext();
+
+  const archiveTitle = batch.title.replace(/[^\w\s-]/g, '').replace(/\s+/g, '_').substring(0, 80) || 'playlist';
+  const filename = `${Date.now()}_${archiveTitle}.zip`;
+
+  updateJob(job.id, { phase: 'uploading', bytesTransferred: 0, totalBytes: null });
+  archive.on('progress', ({ fs: progress }) => {
+    updateJob(job.id, { bytesTransferred: progress.processedBytes });
+  });
+
+  const storedFile = await storage.put(filename, Readable.toWeb(archive) as ReadableStream<Uint8Array>, {
+    contentType: 'application/zip',
+  }).catch(error => {
+    throw toStorageError(error);
+  });
+
+  // The archive holds everything, drop the individual files
+  for (const { file } of files) {
+    try {
+      await storage.delete(file.filename);
+    } catch (error) {
+      console.error(`[job ${job.id}] Could not remove archived file ${file.filename}:`, error);
+    }
+  }
+
+  return {
+    filename: storedFile.pathname,
+    originalFilename: `${archiveTitle}.zip`,
+    size: storedFile.size,
+    ...createFileLinks(storedFile.pathname, job.id),
+    contentType: 'application/zip',
+  };
+}
+
+/**
+ * Runs a batch job over the entries of a playlist or channel
+ * - The whole batch takes one job slot, entries are downloaded one after another
+ * - A failing entry (private, deleted...) is recorded on the item and the batch continues
+ * - The batch only fails when no entry could be downloaded, or the archive cannot be built
+ */
+export async function runBatchJob(job: Job): Promise<void> {
+  await runQueued(job, () => processBatch(job));
+}
+
+async function processBatch(job: Job): Promise<void> {
+  const { id } = job;
+  const batch = job.batch;
+
+  if (!batch) {
+    updateJob(id, { phase: 'failed', error: toJobError(new Error('Batch job without entries')) });
+    return;
+  }
+
+  const downloaded: Array<{ index: number; title: string; file: JobFile }> = [];
+
+  for (let index = 0; index < batch.items.length; index++) {
+    const item = batch.items[index];
+    updateItem(job, index, { phase: 'running' });
+    console.log(`[job ${id}] Batch entry ${index + 1}/${batch.items.length}: ${item.url}`);
+
+    try {
+      const result = await downloadToStorage(job, item.url);
+      const title = result.videoInfo.title;
+
+      downloaded.push({ index, title, file: result.file });
+      updateItem(job, index, {
+        phase: 'done',
+        title,
+        file: batch.packaging === 'files' ? result.file : undefined,
+      });
+    } catch (error) {
+      console.error(`[job ${id}] Batch entry ${index + 1} failed:`, error);
+      updateItem(job, index, { phase: 'failed', error: toJobError(error) });
+    }
+  }
+
+  if (downloaded.length === 0) {
+    updateJob(id, {
+      phase: 'failed',
+      error: {
+        error: 'Batch Failed',
+        message: 'None of the selected entries could be downloaded',
+        localized: localizedMessage('api.batch.allFailed'),
+        status: 502,
+        // Every entry carries its own cause, the batch as a whole may work later
+        code: 'unknown',
+        retryable: true,
+      }
+    });
+    return;
+  }
+
+  try {
+    if (batch.packaging === 'zip') {
+      const archive = await createArchive(job, batch, downloaded);
+      const current = getJob(id)?.batch ?? batch;
+      updateJob(id, {
+        phase: 'done',
+        bytesTransferred: archive.size,
+        totalBytes: archive.size,
+        batch: { ...current, archive },
+      });
+    } else {
+      updateJob(id, { phase: 'done' });
+    }
+
+    console.log(`[job ${id}] Batch completed: ${downloaded.length}/${batch.items.length} entries`);
+  } catch (error) {
+    console.error(`[job ${id}] Batch packaging failed:`, error);
+    updateJob(id, { phase: 'failed', error: toJobError(error) });
+  }
+}
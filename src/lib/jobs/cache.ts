@@ -0,0 +1,194 @@
+import { getGlobalSingleton } from '@/lib/global';
+import { getStorage } from '@/lib/storage';
+import { createReadLinks } from '@/lib/signing';
+import { recordFileAccess } from '@/lib/retention/access';
+import { parseVideoUrl } from '@/lib/urls';
+import { getJob, isTerminalPhase, subscribeToJob, updateJob } from './store';
+import type { DownloadOptions, Job, JobFile, JobResult } from './types';
+
+// How long a stored download is reused for the same video and format
+const CACHE_TTL_MS = (parseInt(process.env.DOWNLOAD_CACHE_TTL_SECONDS || '', 10) || 60 * 60) * 1000;
+
+interface CacheEntry {
+  key: string;
+  result: JobResult;        // Result of the job that stored the file, read links are re-issued on every hit
+  expiresAt: number;
+}
+
+type DownloadCache = {
+  entries: Map<string, CacheEntry>;
+  // Downloads in progress, keyed like entries, with the job doing the actual fetch
+  inFlight: Map<string, { jobId: string; promise: Promise<JobResult> }>;
+};
+
+function getCache(): DownloadCache {
+  return getGlobalSingleton<DownloadCache>('downloadCache', () => ({ entries: new Map(), inFlight: new Map() }));
+}
+
+/**
+ * Builds the cache key of a download: site and video id plus everything that changes the output file
+ * - Every URL form of a video (short links, mobile hosts, tracking parameters) shares the key
+ * @returns The key, or null when the URL has no recognizable video id or asks for a live recording (never cached)
+ */
+export function getCacheKey(url: string, options: DownloadOptions): string | null {
+  const video = parseVideoUrl(url);
+  // Every live recording captures a different stretch of the broadcast
+  if (!video || options.live) return null;
+
+  const mode = options.mode ?? 'video';
+  const audioFormat = mode === 'audio' ? options.audioFormat ?? 'mp3' : '';
+
+  // Requested captions change the result (and the video itself when embedded)
+  const { subtitles } = options;
+  const subtitleKey = subtitles
+    ? [
+      [...subtitles.languages].map(language => language.toLowerCase()).sort().join(','),
+      subtitles.includeAutoGenerated ? 'auto' : '',
+      subtitles.format ?? 'vtt',
+      subtitles.embed ? 'embed' : '',
+    ].join('+')
+    : '';
+
+  // Each range (and cut precision) is a different file
+  const { clip } = options;
+  const clipKey = clip ? `${clip.start}-${clip.end}${clip.frameAccurate ? '+exact' : ''}` : '';
+
+  const chaptersKey = options.splitChapters ? 'chapters' : '';
+
+  // Converted videos are different files from the download
+  const { output } = options;
+  const outputKey = output ? `${output.container ?? 'source'}${output.maxHeight ? `@${output.maxHeight}p` : ''}` : '';
+
+  return [video.site, video.videoId, mode, audioFormat, options.format ?? 'default', subtitleKey, clipKey, chaptersKey, outputKey].join(':');
+}
+
+/**
+ * Gives a cached result to another job
+ * - Read links are issued for the new job, the stored file is shared
+ * - The delete capability stays with the job that created the file, other users may still be watching it
+ */
+function relinkResult(result: JobResult, jobId: string): JobResult {
+  const relink = ({ deleteUrl: _ownerOnly, deleteExpiresAt: _ownerExpiry, ...file }: JobFile): JobFile => ({ ...file, ...createReadLinks(file.filename, jobId) });
+  const file = relink(result.file);
+
+  return {
+    ...result,
+    file,
+    downloadUrl: file.downloadUrl,
+    subtitles: result.subtitles && {
+      ...result.subtitles,
+      tracks: result.subtitles.tracks.map(track => ({
+        ...track,
+        file: relink(track.file),
+        vttFile: relink(track.vttFile),
+      })),
+    },
+  };
+}
+
+/**
+ * Looks up a finished download of the same video and format
+ * - Drops entries that expired or whose file is no longer in storage
+ * @returns The cached result with links for the given job, or null on a miss
+ */
+export async function findCachedResult(key: string, jobId: string): Promise<JobResult | null> {
+  const { entries } = getCache();
+  const entry = entries.get(key);
+  if (!entry) return null;
+
+  if (entry.expiresAt <= Date.now()) {
+    entries.delete(key);
+    return null;
+  }
+
+  const storedFile = await getStorage().head(entry.result.file.filename);
+  if (!storedFile) {
+    console.log(`Cached file is gone, dropping cache entry ${key}`);
+    entries.delete(key);
+    return null;
+  }
+
+  recordFileAccess(storedFile.pathname);
+  return relinkResult(entry.result, jobId);
+}
+
+/**
+ * Removes the cache entries pointing at a stored file
+ * - Called whenever a file is deleted from storage
+ */
+export function invalidateCachedFile(pathname: string): void {
+  const { entries } = getCache();
+  for (const [key, entry] of entries) {
+    const { file, subtitles } = entry.result;
+    const subtitleFiles = subtitles?.tracks.flatMap(track => [track.file.filename, track.vttFile.filename]) ?? [];
+
+    if (file.filename === pathname || subtitleFiles.includes(pathname)) {
+      entries.delete(key);
+      console.log(`Invalidated cache entry ${key}`);
+    }
+  }
+}
+
+/**
+ * Mirrors the progress of the job doing the fetch onto a job waiting for it
+ * @returns Function that stops mirroring
+ */
+function followJob(leaderId: string, followerId: string): () => void {
+  return subscribeToJob(leaderId, leader => {
+    if (isTerminalPhase(leader.phase)) return;
+    updateJob(followerId, {
+      phase: leader.phase,
+      bytesTransferred: leader.bytesTransferred,
+      totalBytes: leader.totalBytes,
+    });
+  });
+}
+
+/**
+ * Runs a download through the cache
+ * - A cache hit returns the stored file without contacting the downloader
+ * - Concurrent jobs for the same key wait for the first one and share its file
+ * - Otherwise runs the download and records its result
+ * @param job - Job that owns the download
+ * @param url - Video to download
+ * @param download - Fetches the video into storage on a miss
+ */
+export async function withDownloadCache(job: Job, url: string, download: () => Promise<JobResult>): Promise<JobResult> {
+  const key = getCacheKey(url, job.options);
+  if (!key) return download();
+
+  const cached = await findCachedResult(key, job.id);
+  if (cached) {
+    console.log(`[job ${job.id}] Cache hit for ${key}`);
+    return cached;
+  }
+
+  const { entries, inFlight } = getCache();
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    console.log(`[job ${job.id}] Waiting for job ${pending.jobId}, already downloading ${key}`);
+    const leader = getJob(pending.jobId);
+    if (leader) {
+      updateJob(job.id, { phase: leader.phase, bytesTransferred: leader.bytesTransferred, totalBytes: leader.totalBytes });
+    }
+
+    const unfollow = followJob(pending.jobId, job.id);
+    try {
+      return relinkResult(await pending.promise, job.id);
+    } finally {
+      unfollow();
+    }
+  }
+
+  const promise = download();
+  inFlight.set(key, { jobId: job.id, promise });
+
+  try {
+    const result = await promise;
+    entries.set(key, { key, result, expiresAt: Date.now() + CACHE_TTL_MS });
+    return result;
+  } finally {
+    inFlight.delete(key);
+  }
+}
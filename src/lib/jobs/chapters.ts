@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import { toChapters, Chapter } from '@/lib/chapters';
+import { cutClip } from '@/lib/media/clip';
+import { getVideoMetadata } from '@/lib/ytdlp';
+import { TEMP_DIR } from '@/lib/file-system';
+import { DownloaderError } from '@/lib/downloader';
+import { updateJob } from './store';
+import type { Job } from './types';
+
+/**
+ * Chapters of a downloaded video
+ * - Uses the ones sent by the downloader, asks yt-dlp otherwise (the NestJS backend may leave them out)
+ * @throws DownloaderError (422) when the video has no chapters
+ */
+export async function resolveChapters(job: Job, url: string, chapters: Chapter[] | undefined): Promise<Chapter[]> {
+  if (chapters && chapters.length > 0) return chapters;
+
+  let fromMetadata: Chapter[] = [];
+  try {
+    fromMetadata = toChapters(await getVideoMetadata(url));
+  } catch (error) {
+    console.error(`[job ${job.id}] Could not list chapters:`, error);
+  }
+
+  if (fromMetadata.length === 0) {
+    throw new DownloaderError('No Chapters', 'This video has no chapters to split', 422);
+  }
+  return fromMetadata;
+}
+
+/**
+ * Names of the files inside the bundle: "01 - Intro.mp4"
+ */
+function chapterFilenames(chapters: Chapter[], extension: string): string[] {
+  const digits = String(chapters.length).length;
+  return chapters.map(({ title }, index) => {
+    const safeTitle = title.replace(/[\\/:*?"<>|]/g, '_').substring(0, 100);
+    return `${String(index + 1).padStart(digits, '0')} - ${safeTitle}${extension}`;
+  });
+}
+
+/**
+ * Splits a media file into one file per chapter and packs them into a zip
+ * - Cuts land on keyframes, the streams are copied
+ * - Entries are stored uncompressed, media files do not compress
+ * @param job - Job that owns the download (progress)
+ * @param sourcePath - Video or audio file to split
+ * @param chapters - Chapters of the source
+ * @param baseName - Prefix of the staged files
+ * @returns Path of the zip inside TEMP_DIR
+ */
+export async function splitIntoChapters(job: Job, sourcePath: string, chapters: Chapter[], baseName: string): Promise<string> {
+  const extension = path.extname(sourcePath);
+  const names = chapterFilenames(chapters, extension);
+  const bundlePath = path.join(TEMP_DIR, `${baseName}.chapters.zip`);
+
+  updateJob(job.id, { phase: 'processing' });
+  console.log(`[job ${job.id}] Splitting into ${chapters.length} chapter(s)`);
+
+  const chapterPaths: string[] = [];
+  for (const [index, chapter] of chapters.entries()) {
+    const chapterPath = path.join(TEMP_DIR, `${baseName}.chapter${index + 1}${extension}`);
+    await cutClip(sourcePath, chapterPath, chapter);
+    chapterPaths.push(chapterPath);
+  }
+
+  const archive = archiver('zip', { store: true });
+  const output = fs.createWriteStream(bundlePath);
+  const written = new Promise<void>((resolve, reject) => {
+    output.on('close', resolve);
+    output.on('error', reject);
+    archive.on('error', reject);
+  });
+
+  archive.pipe(output);
+  chapterPaths.forEach((chapterPath, index) => archive.file(chapterPath, { name: names[index] }));
+  await archive.finalize();
+  await written;
+
+  return bundlePath;
+}
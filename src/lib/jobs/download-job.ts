@@ -0,0 +1,482 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { getStorage } from '@/lib/storage';
+import { createFileLinks } from '@/lib/signing';
+import { DownloaderError, DownloadedMedia, getDownloader, getRecorder, limitExceededError, toStorageError } from '@/lib/downloader';
+import { classifyError, RETRYABLE_ERRORS } from '@/lib/errors';
+import { getDownloadLimits } from '@/lib/limits';
+import { extractAudio } from '@/lib/media/audio';
+import { cutClip, ClipRange } from '@/lib/media/clip';
+import { canEmbedSubtitles, embedSubtitles } from '@/lib/media/subtitles';
+import { convertMedia, OutputTarget } from '@/lib/media/transcode';
+import {
+  TEMP_DIR,
+  cleanExtraFiles,
+  ensureTempDirectoryExists,
+  generateSafeFilename,
+  getContentTypeFromFilename,
+  writeStreamToFile,
+} from '@/lib/file-system';
+import { withDownloadCache } from './cache';
+import { runQueued } from './queue';
+import { resolveChapters, splitIntoChapters } from './chapters';
+import { fetchSubtitles, uploadSubtitles, LocalSubtitle } from './subtitles';
+import { checkLiveStatus, endRecording, startRecording } from './live';
+import { updateJob } from './store';
+import type { BackendVideoInfo, Job, JobError, JobResult, SubtitleResult, VideoInfo } from './types';
+
+// Minimum delay between two progress notifications
+const PROGRESS_INTERVAL_MS = 250;
+
+// Función para sanitizar nombres de archivo
+function sanitizeFilename(filename: string): string {
+  return filename
+    .replace(/[^\w\s-\.]/g, '')
+    .replace(/\s+/g, '_')
+    .replace(/_{2,}/g, '_')
+    .substring(0, 100);
+}
+
+/**
+ * Wraps a stream so every chunk passing through is counted
+ * Progress is reported at most once every PROGRESS_INTERVAL_MS
+ */
+function trackProgress(
+  stream: ReadableStream<Uint8Array>,
+  onProgress: (bytes: number) => void
+): ReadableStream<Uint8Array> {
+  let bytes = 0;
+  let lastReport = 0;
+
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength;
+      const now = Date.now();
+      if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress(bytes);
+      }
+      controller.enqueue(chunk);
+    },
+    flush() {
+      onProgress(bytes);
+    }
+  }));
+}
+
+/**
+ * Wraps a stream so it fails once more than maxBytes pass through
+ * - Catches downloads whose size was unknown, or wrong, when they started
+ */
+function limitStreamSize(stream: ReadableStream<Uint8Array>, maxBytes: number): ReadableStream<Uint8Array> {
+  let bytes = 0;
+
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength;
+      if (bytes > maxBytes) {
+        controller.error(limitExceededError('size', bytes, maxBytes));
+        return;
+      }
+      controller.enqueue(chunk);
+    }
+  }));
+}
+
+/**
+ * Makes sure the downloaded media sits on disk, ffmpeg needs seekable inputs
+ * - Reuses the downloader's file when there is one, otherwise writes the stream to TEMP_DIR
+ * @returns Path of the media file
+ */
+async function stageDownload(job: Job, download: DownloadedMedia, baseName: string): Promise<string> {
+  const { id } = job;
+
+  if (download.filePath) {
+    // The stream is not needed, release the file handle
+    await download.stream.cancel();
+    return download.filePath;
+  }
+
+  ensureTempDirectoryExists();
+  const extension = path.extname(download.originalFilename) || '.mp4';
+  const sourcePath = path.join(TEMP_DIR, `${baseName}.source${extension}`);
+  updateJob(id, { phase: 'fetching', totalBytes: download.totalBytes });
+  await writeStreamToFile(
+    trackProgress(download.stream, bytesTransferred => updateJob(id, { bytesTransferred })),
+    sourcePath
+  );
+  return sourcePath;
+}
+
+/**
+ * Cuts the requested segment out of a full download
+ * - Used when the downloader could not fetch the segment alone
+ * - Frame-accurate clips are re-encoded to mp4, keyframe clips keep the source container
+ * @returns The clip as downloaded media, cleaning it up also cleans up the full download
+ */
+async function clipDownload(job: Job, download: DownloadedMedia, baseName: string, clip: ClipRange): Promise<DownloadedMedia> {
+  const sourcePath = await stageDownload(job, download, baseName);
+  const extension = clip.frameAccurate ? '.mp4' : path.extname(sourcePath);
+  const clipPath = path.join(TEMP_DIR, `${baseName}.clip${extension}`);
+
+  updateJob(job.id, { phase: 'processing' });
+  console.log(`[job ${job.id}] Cutting clip ${clip.start}s-${clip.end}s${clip.frameAccurate ? ' (frame accurate)' : ''}`);
+  await cutClip(sourcePath, clipPath, clip);
+
+  return {
+    ...download,
+    stream: Readable.toWeb(fs.createReadStream(clipPath)) as ReadableStream<Uint8Array>,
+    originalFilename: `${path.parse(download.originalFilename).name}${extension}`,
+    contentType: getContentTypeFromFilename(clipPath),
+    totalBytes: fs.statSync(clipPath).size,
+    filePath: clipPath,
+    clipped: true,
+  };
+}
+
+/**
+ * Adds the clip range to a filename: video.mp4 → video_clip_90-120.mp4
+ */
+function withClipSuffix(filename: string, { start, end }: ClipRange): string {
+  const { name, ext } = path.parse(filename);
+  return `${name}_clip_${Math.floor(start)}-${Math.ceil(end)}${ext}`;
+}
+
+/**
+ * Converts the downloaded video into a tagged audio file inside TEMP_DIR
+ * - Stages the source and the thumbnail on disk
+ * @returns Path and original filename of the audio file
+ */
+async function prepareAudioFile(job: Job, url: string, download: DownloadedMedia, baseName: string): Promise<{ filePath: string; originalFilename: string }> {
+  const { id, options } = job;
+  const audioFormat = options.audioFormat ?? 'mp3';
+  const { videoInfo } = download;
+
+  const outputPath = path.join(TEMP_DIR, `${baseName}.${audioFormat}`);
+  const sourcePath = await stageDownload(job, download, baseName);
+
+  updateJob(id, { phase: 'processing' });
+
+  // Thumbnail becomes the cover art, a failure here only loses the artwork
+  let coverPath: string | undefined;
+  if (videoInfo.thumbnail) {
+    try {
+      const thumbnailResponse = await fetch(videoInfo.thumbnail);
+      if (thumbnailResponse.ok && thumbnailResponse.body) {
+        coverPath = path.join(TEMP_DIR, `${baseName}.thumbnail`);
+        await writeStreamToFile(thumbnailResponse.body, coverPath);
+      }
+    } catch (error) {
+      console.error(`[job ${id}] Could not fetch thumbnail for cover art:`, error);
+    }
+  }
+
+  console.log(`[job ${id}] Extracting ${audioFormat} audio`);
+  await extractAudio({
+    input: sourcePath,
+    output: outputPath,
+    format: audioFormat,
+    tags: {
+      title: videoInfo.title,
+      artist: getAuthorName(videoInfo),
+      date: videoInfo.uploadDate,
+      comment: url,
+    },
+    coverPath,
+  });
+
+  const title = videoInfo.title || path.parse(download.originalFilename).name;
+  return {
+    filePath: outputPath,
+    originalFilename: `${sanitizeFilename(title)}.${audioFormat}`,
+  };
+}
+
+/**
+ * Adds the caption tracks to the video as soft subtitles
+ * - Containers that cannot carry subtitles, and ffmpeg failures, keep the video as downloaded
+ * @returns Path of the video with subtitles, or null when they could not be embedded
+ */
+async function embedSubtitleTracks(job: Job, sourcePath: string, baseName: string, subtitles: LocalSubtitle[]): Promise<string | null> {
+  const extension = path.extname(sourcePath).slice(1);
+  if (!canEmbedSubtitles(extension)) {
+    console.log(`[job ${job.id}] Subtitles cannot be embedded in .${extension} files, keeping them separate`);
+    return null;
+  }
+
+  const outputPath = path.join(TEMP_DIR, `${baseName}.subtitled.${extension}`);
+  try {
+    console.log(`[job ${job.id}] Embedding ${subtitles.length} subtitle track(s)`);
+    await embedSubtitles(sourcePath, outputPath, subtitles.map(({ vttPath, language, label }) => ({ path: vttPath, language, label })));
+    return outputPath;
+  } catch (error) {
+    console.error(`[job ${job.id}] Could not embed subtitles:`, error);
+    return null;
+  }
+}
+
+/**
+ * Remuxes or transcodes the staged video to the requested container and resolution
+ * @returns Path of the converted video, the source itself when it already matched
+ */
+async function convertVideo(job: Job, sourcePath: string, baseName: string, output: OutputTarget): Promise<string> {
+  updateJob(job.id, { phase: 'processing' });
+
+  const { filePath, plan } = await convertMedia(sourcePath, path.join(TEMP_DIR, `${baseName}.converted`), output);
+  const action = filePath === sourcePath
+    ? 'already matches'
+    : plan.copyVideo && plan.copyAudio ? 'remuxed' : `transcoded${plan.scale ? `, downscaled to ${output.maxHeight}p` : ''}`;
+  console.log(`[job ${job.id}] Output ${plan.container}: ${action}`);
+
+  return filePath;
+}
+
+/**
+ * Channel name of the backend metadata, some backends send the author as a plain string
+ */
+function getAuthorName(videoInfo: Partial<BackendVideoInfo>): string | undefined {
+  const author: unknown = videoInfo.author;
+  return typeof author === 'string' ? author : videoInfo.author?.name;
+}
+
+/**
+ * Turns the backend metadata into the video info of the API contract
+ * - Fields the backend left out get their defaults, the rest of its metadata is not sent to clients
+ */
+function toResultVideoInfo(videoInfo: Partial<BackendVideoInfo>, fileSize: number): VideoInfo {
+  return {
+    title: videoInfo.title || 'Unknown Title',
+    duration: videoInfo.duration || 0,
+    quality: videoInfo.quality || 'Unknown Quality',
+    author: getAuthorName(videoInfo) || '',
+    viewCount: videoInfo.viewCount || 0,
+    fileSize,
+    thumbnail: videoInfo.thumbnail || undefined,
+    videoId: videoInfo.id || undefined,
+    chapters: videoInfo.chapters ?? [],
+  };
+}
+
+/**
+ * Converts any thrown value into the error reported on a job
+ * - Errors other than DownloaderErrors are classified from their message
+ */
+export function toJobError(error: unknown): JobError {
+  if (error instanceof DownloaderError) {
+    return {
+      error: error.error,
+      message: error.message,
+      status: error.status,
+      localized: error.localized,
+      code: error.code,
+      retryable: RETRYABLE_ERRORS[error.code],
+      details: error.details
+    };
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+  const code = classifyError(message);
+  return {
+    error: 'Internal Server Error',
+    message,
+    status: 500,
+    code,
+    retryable: RETRYABLE_ERRORS[code],
+    details: {
+      errorType: error instanceof Error ? error.constructor.name : 'Unknown'
+    }
+  };
+}
+
+/**
+ * Downloads one video into storage on behalf of a job
+ * - Requests the video from the configured downloader (NestJS backend or local yt-dlp), in the job's format
+ * - Clips only keep the requested segment, cut here when the downloader cannot
+ * - Live streams are recorded by local yt-dlp until stopped on demand or the maximum duration, then stored like any video
+ * - Audio mode converts it to a tagged audio file first
+ * - Split mode cuts one file per chapter and stores them as a zip bundle
+ * - Requested captions are stored as separate files, and embedded in the video when asked
+ * - Videos are remuxed or transcoded to the requested output container and resolution, before chapters are split
+ * - Streams the result into the configured storage backend, reporting phase and byte progress on the job
+ * @param job - Job that owns the download (options, progress)
+ * @param url - Video to download, the job URL for single jobs or an entry URL for batches
+ * @returns Video info and stored file
+ */
+export async function downloadToStorage(job: Job, url: string): Promise<JobResult> {
+  const { id, options } = job;
+  const timestamp = Date.now();
+  // Base name shared by every file this download stages in TEMP_DIR
+  const baseName = path.parse(generateSafeFilename(`job_${id}`, timestamp)).name;
+
+  // Audio mode only needs the best audio track
+  const format = options.format ?? (options.mode === 'audio' ? 'bestaudio/best' : undefined);
+  let download: DownloadedMedia | null = null;
+
+  try {
+    updateJob(id, { phase: 'fetching', bytesTransferred: 0, totalBytes: null });
+
+    // Clips are short by design, only whole videos are held to the duration limit
+    const { maxDurationSeconds, maxFileSizeBytes } = getDownloadLimits();
+    const { live } = options;
+    download = await (live ? getRecorder() : getDownloader()).download({
+      url,
+      format,
+      clip: options.clip,
+      maxDuration: options.clip ? undefined : maxDurationSeconds || undefined,
+      maxFileSize: maxFileSizeBytes || undefined,
+      live,
+    }, {
+      jobId: id,
+      // Local downloads report progress while yt-dlp runs, before any stream is read
+      onProgress: (bytesTransferred, totalBytes) => updateJob(id, { bytesTransferred, totalBytes }),
+      onRecordingStart: live && (() => updateJob(id, {
+        phase: 'recording',
+        recording: { startedAt: new Date().toISOString(), maxDuration: live.maxDuration, fromStart: live.fromStart, stopRequested: false }
+      })),
+      stopSignal: live && startRecording(id),
+    });
+    if (maxFileSizeBytes) {
+      download = { ...download, stream: limitStreamSize(download.stream, maxFileSizeBytes) };
+    }
+
+    // The downloader sent the whole video, cut the segment here
+    if (options.clip && !download.clipped) {
+      download = await clipDownload(job, download, baseName, options.clip);
+    }
+    const { videoInfo } = download;
+
+    // File on disk to upload, null streams the download straight into storage
+    let mediaPath: string | null = null;
+    let originalFilename = download.originalFilename;
+    let contentType = download.contentType;
+    let totalBytes = download.totalBytes;
+
+    // Captions, fetched before the upload only when they go inside the video
+    let subtitles: Awaited<ReturnType<typeof fetchSubtitles>> | null = null;
+    let embedded = false;
+
+    if (options.mode === 'audio') {
+      const audioFile = await prepareAudioFile(job, url, download, baseName);
+      originalFilename = audioFile.originalFilename;
+      mediaPath = audioFile.filePath;
+    } else if (options.subtitles?.embed) {
+      const sourcePath = await stageDownload(job, download, baseName);
+      updateJob(id, { phase: 'processing' });
+      subtitles = await fetchSubtitles(id, url, options.subtitles, baseName);
+
+      const subtitledPath = subtitles.subtitles.length > 0
+        ? await embedSubtitleTracks(job, sourcePath, baseName, subtitles.subtitles)
+        : null;
+      embedded = subtitledPath !== null;
+
+      mediaPath = subtitledPath ?? sourcePath;
+    } else if (options.splitChapters || options.output) {
+      mediaPath = await stageDownload(job, download, baseName);
+    }
+
+    if (options.output && mediaPath) {
+      mediaPath = await convertVideo(job, mediaPath, baseName, options.output);
+      originalFilename = `${path.parse(originalFilename).name}${path.extname(mediaPath)}`;
+    }
+
+    if (options.clip) {
+      originalFilename = withClipSuffix(originalFilename, options.clip);
+    }
+
+    // One file per chapter, the bundle replaces the single file
+    if (options.splitChapters && mediaPath) {
+      const chapters = await resolveChapters(job, url, videoInfo.chapters);
+      videoInfo.chapters = chapters;
+      mediaPath = await splitIntoChapters(job, mediaPath, chapters, baseName);
+      originalFilename = `${path.parse(originalFilename).name}_chapters.zip`;
+    }
+
+    let uploadStream = download.stream;
+    if (mediaPath) {
+      contentType = getContentTypeFromFilename(mediaPath, contentType);
+      totalBytes = fs.statSync(mediaPath).size;
+      uploadStream = Readable.toWeb(fs.createReadStream(mediaPath)) as ReadableStream<Uint8Array>;
+    }
+
+    // Sanitize filename and ensure it's unique
+    const sanitizedFilename = sanitizeFilename(originalFilename);
+    const uniqueFilename = `${timestamp}_${sanitizedFilename}`;
+
+    const storage = getStorage();
+    console.log(`[job ${id}] Uploading file to ${storage.name} storage as: ${uniqueFilename}`);
+    updateJob(id, { phase: 'uploading', bytesTransferred: 0, totalBytes });
+
+    const trackedStream = trackProgress(uploadStream, bytesTransferred => {
+      updateJob(id, { bytesTransferred });
+    });
+    const storedFile = await storage.put(uniqueFilename, trackedStream, { contentType }).catch(error => {
+      throw toStorageError(error);
+    });
+
+    // Files are only served through signed /api/file links
+    const links = createFileLinks(storedFile.pathname, id);
+
+    console.log(`[job ${id}] File uploaded successfully to ${storage.name} storage: ${storedFile.pathname}`);
+
+    // Prefer the size reported by storage, the backend may not send Content-Length
+    const fileSize = storedFile.size || totalBytes || 0;
+
+    let subtitleResult: SubtitleResult | undefined;
+    if (options.subtitles) {
+      subtitles ??= await fetchSubtitles(id, url, options.subtitles, baseName);
+      subtitleResult = {
+        tracks: await uploadSubtitles(id, subtitles.subtitles, storedFile.pathname),
+        missing: subtitles.missing,
+        embedded,
+      };
+    }
+
+    return {
+      videoInfo: toResultVideoInfo(videoInfo, fileSize),
+      file: {
+        filename: storedFile.pathname,
+        originalFilename: originalFilename,
+        size: fileSize,
+        ...links,
+        contentType: storedFile.contentType || contentType
+      },
+      downloadUrl: links.downloadUrl,
+      subtitles: subtitleResult,
+    };
+  } finally {
+    // Remove every staged file of this download
+    download?.cleanup();
+    cleanExtraFiles(baseName, '');
+    endRecording(id);
+  }
+}
+
+/**
+ * Runs a single-video download job to completion
+ * - Looks the video up first, premieres and live streams sent without a recording fail the job (see checkLiveStatus)
+ * - Goes through the download cache, the same video and format is only fetched once
+ * - Waits for a free slot before fetching, jobs sharing another job's download do not take one
+ * - Stores the result (or the failure) on the job
+ */
+export async function runDownloadJob(job: Job): Promise<void> {
+  const { id } = job;
+
+  try {
+    const checked = await checkLiveStatus(job);
+    const result = await withDownloadCache(checked, checked.url, () => runQueued(checked, () => downloadToStorage(checked, checked.url)));
+
+    updateJob(id, {
+      phase: 'done',
+      bytesTransferred: result.file.size,
+      totalBytes: result.file.size,
+      result
+    });
+
+    console.log(`[job ${id}] Download and upload completed successfully`);
+
+  } catch (error) {
+    console.error(`[job ${id}] Download job failed:`, error);
+    updateJob(id, { phase: 'failed', error: toJobError(error) });
+  }
+}
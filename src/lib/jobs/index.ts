@@ -0,0 +1,9 @@
+export type { BackendVideoInfo, BatchItem, BatchItemPhase, BatchPackaging, BatchState, DownloadMode, DownloadOptions, Job, JobKind, JobError, JobFile, JobPhase, JobResult, RecordingState, SubtitleFile, SubtitleResult, VideoInfo } from './types';
+export { createJob, getJob, isTerminalPhase, subscribeToJob, updateJob } from './store';
+export { runDownloadJob } from './download-job';
+export { findCachedResult, getCacheKey, invalidateCachedFile } from './cache';
+export { runBatchJob } from './batch-job';
+export { parseDownloadOptions } from './validation';
+export { stopRecording } from './live';
+export { localizeJob } from './localize';
+export { getQueueState, isQueueFull, QUEUE_RETRY_AFTER_SECONDS } from './queue';
@@ -0,0 +1,94 @@
+import { liveStreamError, premiereError } from '@/lib/downloader';
+import { getGlobalSingleton } from '@/lib/global';
+import { getVideoDetails } from '@/lib/innertube';
+import { getStubBackendConfig } from '@/lib/stub-backend';
+import { getYoutubeVideoId } from '@/lib/urls';
+import { getJob, updateJob } from './store';
+import type { Job } from './types';
+
+// Broadcast state of a video, looked up before downloading it
+export interface LiveStatus {
+  isLive: boolean;
+  isUpcoming: boolean;
+  scheduledStart: string | null; // ISO date an upcoming premiere or live event starts, when known
+}
+
+/**
+ * Metadata step of a download: tells live streams and premieres apart from regular videos
+ * - Best effort, a failed lookup returns null and the local downloader checks yt-dlp's metadata instead
+ * - Only YouTube is looked up, the other sites are left to yt-dlp's metadata too
+ * @param url - Video URL
+ */
+async function getLiveStatus(url: string): Promise<LiveStatus | null> {
+  const videoId = getYoutubeVideoId(url);
+  if (!videoId) return null;
+
+  try {
+    const details = await getVideoDetails(videoId);
+    if (!details) return null;
+
+    return {
+      isLive: details.isLive,
+      isUpcoming: details.unavailableReason === 'upcoming',
+      scheduledStart: details.scheduledStart,
+    };
+  } catch (error) {
+    console.error(`Live status lookup failed for ${videoId}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Metadata step of a single-video job, run when the job starts rather than before it is created
+ * - Premieres fail the job (premiere), live streams too unless a recording was asked for (live-in-progress)
+ * - A broadcast that is over is downloaded as a regular video, the recording options are dropped
+ * - Skipped with the stub backend, its fixtures never go to YouTube
+ * @returns The job to run, with the options it should run with
+ */
+export async function checkLiveStatus(job: Job): Promise<Job> {
+  if (getStubBackendConfig().enabled) return job;
+
+  const status = await getLiveStatus(job.url);
+  if (!status) return job;
+
+  if (status.isUpcoming) throw premiereError(status.scheduledStart);
+  if (status.isLive && !job.options.live) throw liveStreamError();
+
+  return !status.isLive && job.options.live ? { ...job, options: { ...job.options, live: undefined } } : job;
+}
+
+// Shared by the stop route and the job runner
+function getRecordings(): Map<string, AbortController> {
+  return getGlobalSingleton('recordings', () => new Map<string, AbortController>());
+}
+
+/**
+ * Registers the stop switch of a live recording job
+ * @returns Signal handed to the downloader, aborted by stopRecording
+ */
+export function startRecording(jobId: string): AbortSignal {
+  const controller = new AbortController();
+  getRecordings().set(jobId, controller);
+  return controller.signal;
+}
+
+/**
+ * Stops a live recording on demand, the part recorded so far is processed and stored as usual
+ * @returns false when the job is not recording
+ */
+export function stopRecording(jobId: string): boolean {
+  const controller = getRecordings().get(jobId);
+  const job = getJob(jobId);
+  if (!controller || !job?.recording || job.phase !== 'recording') return false;
+
+  controller.abort();
+  updateJob(jobId, { recording: { ...job.recording, stopRequested: true } });
+  return true;
+}
+
+/**
+ * Drops the stop switch once the recording job is over
+ */
+export function endRecording(jobId: string): void {
+  getRecordings().delete(jobId);
+}
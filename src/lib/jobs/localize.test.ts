@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { limitExceededError, localizedMessage, premiereError } from '@/lib/downloader';
+import { toJobError } from './download-job';
+import { localizeJob } from './localize';
+import type { Job, JobError } from './types';
+
+function failedJob(error: JobError, itemError?: JobError): Job {
+  return {
+    id: 'job-1',
+    kind: itemError ? 'batch' : 'single',
+    phase: 'failed',
+    bytesTransferred: 0,
+    totalBytes: null,
+    createdAt: '2024-05-01T10:00:00.000Z',
+    updatedAt: '2024-05-01T10:00:00.000Z',
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    options: {},
+    error,
+    batch: itemError && {
+      title: 'Playlist',
+      packaging: 'zip',
+      items: [{ url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', title: 'Entry', phase: 'failed', error: itemError }],
+    },
+  };
+}
+
+describe('localizeJob', () => {
+  it('translates job errors in the language of the request, formatting their parameters', () => {
+    const job = failedJob(toJobError(limitExceededError('duration', 7200, 600)));
+
+    expect(localizeJob(job, 'en').error?.message).toBe('The video is too long (2:00:00), the limit is 10:00');
+    expect(localizeJob(job, 'es').error?.message).toBe('El video es demasiado largo (2:00:00), el límite es 10:00');
+    expect(job.error?.message).toBe('Video is too long (7200s), the limit is 600s');
+  });
+
+  it('formats dates in UTC', () => {
+    const job = failedJob(toJobError(premiereError('2030-01-01T18:30:00.000Z')));
+    expect(localizeJob(job, 'en').error?.message).toBe('This premiere has not started yet, it is scheduled for Jan 1, 2030, 6:30 PM (UTC)');
+  });
+
+  it('translates batch entry errors too', () => {
+    const batchError: JobError = {
+      error: 'Batch Failed',
+      message: 'None of the selected entries could be downloaded',
+      localized: localizedMessage('api.batch.allFailed'),
+      status: 502,
+      code: 'unknown',
+      retryable: true,
+    };
+    const job = localizeJob(failedJob(batchError, toJobError(limitExceededError('size', 3 * 1024 ** 3, 2 * 1024 ** 3))), 'en');
+
+    expect(job.error?.message).toBe('None of the selected entries could be downloaded');
+    expect(job.batch?.items[0].error?.message).toBe('The file is too large (3 GB), the limit is 2 GB');
+  });
+
+  it('leaves errors without a catalog message as they are', () => {
+    const job = failedJob(toJobError(new Error('yt-dlp exited with code 1')));
+    expect(localizeJob(job, 'es')).toEqual(job);
+  });
+});
@@ -0,0 +1,45 @@
+import type { LocalizedMessage } from '@/lib/api';
+import { createTranslator, formatDate, formatDuration, formatFileSize, Locale, MessageKey, MessageParams } from '@/lib/i18n';
+import type { Job, JobError } from './types';
+
+// Placeholders formatted in the language of the request, the others are inserted as they are
+const PARAM_FORMATTERS: Record<string, (value: string | number, locale: Locale) => string> = {
+  duration: (value, locale) => formatDuration(Number(value), locale),
+  maxDuration: (value, locale) => formatDuration(Number(value), locale),
+  size: (value, locale) => formatFileSize(Number(value), locale),
+  maxSize: (value, locale) => formatFileSize(Number(value), locale),
+  date: (value, locale) => formatDate(String(value), locale, true, 'UTC'),
+};
+
+/**
+ * Translates a catalog message kept on a job
+ */
+function translateMessage({ key, params }: LocalizedMessage, locale: Locale): string {
+  const formatted: MessageParams | undefined = params && Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [name, PARAM_FORMATTERS[name]?.(value, locale) ?? value])
+  );
+  return createTranslator(locale)(key as MessageKey, formatted);
+}
+
+function localizeError<E extends JobError | undefined>(error: E, locale: Locale): E {
+  return error?.localized ? { ...error, message: translateMessage(error.localized, locale) } : error;
+}
+
+/**
+ * Copy of a job with its error messages in the language of a request
+ * - Jobs keep errors as catalog keys and parameters, every client reads them in its own language
+ * @param job - Job as kept in the store
+ * @param locale - Language of the request, see getRequestLocale
+ */
+export function localizeJob(job: Job, locale: Locale): Job {
+  if (!job.error && !job.batch?.items.some(item => item.error)) return job;
+
+  return {
+    ...job,
+    error: localizeError(job.error, locale),
+    batch: job.batch && {
+      ...job.batch,
+      items: job.batch.items.map(item => ({ ...item, error: localizeError(item.error, locale) })),
+    },
+  };
+}
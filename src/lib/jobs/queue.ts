@@ -0,0 +1,68 @@
+import { getGlobalSingleton } from '@/lib/global';
+import { getDownloadLimits } from '@/lib/limits/policy';
+import { updateJob } from './store';
+import type { Job } from './types';
+
+// Suggested wait when the queue is full, jobs usually take longer than this to finish
+export const QUEUE_RETRY_AFTER_SECONDS = 30;
+
+type JobQueue = {
+  running: Set<string>;
+  waiting: Array<{ jobId: string; start: () => void }>;
+};
+
+function getQueue(): JobQueue {
+  return getGlobalSingleton<JobQueue>('jobQueue', () => ({ running: new Set(), waiting: [] }));
+}
+
+/**
+ * Publishes the position of every waiting job (1 = next to start)
+ */
+function publishPositions(): void {
+  getQueue().waiting.forEach(({ jobId }, index) => updateJob(jobId, { queuePosition: index + 1 }));
+}
+
+/**
+ * Tells whether a new job would be rejected: every slot is busy and the wait queue is full
+ */
+export function isQueueFull(): boolean {
+  const { running, waiting } = getQueue();
+  const { maxConcurrentJobs, maxQueuedJobs } = getDownloadLimits();
+  return running.size >= maxConcurrentJobs && waiting.length >= maxQueuedJobs;
+}
+
+/**
+ * Jobs running and waiting, for monitoring
+ */
+export function getQueueState(): { running: number; waiting: number } {
+  const { running, waiting } = getQueue();
+  return { running: running.size, waiting: waiting.length };
+}
+
+/**
+ * Runs a job's work once one of the MAX_CONCURRENT_JOBS slots is free
+ * - Waiting jobs stay 'queued' and report their queuePosition
+ * - The slot is released when the work settles, the next waiting job starts then
+ */
+export async function runQueued<T>(job: Job, task: () => Promise<T>): Promise<T> {
+  const queue = getQueue();
+
+  if (queue.running.size >= getDownloadLimits().maxConcurrentJobs) {
+    console.log(`[job ${job.id}] Waiting for a free slot (${queue.waiting.length} job(s) ahead)`);
+    await new Promise<void>(resolve => {
+      queue.waiting.push({ jobId: job.id, start: resolve });
+      publishPositions();
+    });
+    updateJob(job.id, { queuePosition: null });
+  }
+
+  queue.running.add(job.id);
+  try {
+    return await task();
+  } finally {
+    queue.running.delete(job.id);
+    const next = queue.waiting.shift();
+    next?.start();
+    publishPositions();
+  }
+}
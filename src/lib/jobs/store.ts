@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { getGlobalSingleton } from '@/lib/global';
+import type { VideoUrl } from '@/lib/urls';
+import type { BatchState, DownloadOptions, Job, JobPhase } from './types';
+
+// Finished jobs are kept around so clients can still fetch the result
+const FINISHED_JOB_TTL_MS = parseInt(process.env.JOB_TTL_MS || '', 10) || 60 * 60 * 1000;
+
+type JobStore = {
+  jobs: Map<string, Job>;
+  events: EventEmitter;
+};
+
+function getStore(): JobStore {
+  return getGlobalSingleton<JobStore>('jobs', () => {
+    const events = new EventEmitter();
+    events.setMaxListeners(0); // One listener per open progress stream
+    return { jobs: new Map(), events };
+  });
+}
+
+/**
+ * Checks whether a phase is final (no more updates will follow)
+ */
+export function isTerminalPhase(phase: JobPhase): boolean {
+  return phase === 'done' || phase === 'failed';
+}
+
+/**
+ * Registers a new queued job for the given URL and options
+ * - Passing a batch state creates a batch job over its items
+ * - Single jobs keep the parsed video URL, with the start time dropped from the canonical URL
+ */
+export function createJob(url: string, options: DownloadOptions = {}, batch?: BatchState, source?: VideoUrl): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    kind: batch ? 'batch' : 'single',
+    url,
+    source,
+    options,
+    phase: 'queued',
+    bytesTransferred: 0,
+    totalBytes: null,
+    batch,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  getStore().jobs.set(job.id, job);
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return getStore().jobs.get(id);
+}
+
+/**
+ * Applies changes to a job and notifies subscribers
+ * - Schedules removal of the job once it reaches a terminal phase
+ */
+export function updateJob(id: string, changes: Partial<Omit<Job, 'id' | 'kind' | 'url' | 'source' | 'options' | 'createdAt'>>): Job | undefined {
+  const store = getStore();
+  const job = store.jobs.get(id);
+  if (!job) return undefined;
+
+  const updated: Job = { ...job, ...changes, updatedAt: new Date().toISOString() };
+  store.jobs.set(id, updated);
+  store.events.emit(id, updated);
+
+  if (isTerminalPhase(updated.phase) && !isTerminalPhase(job.phase)) {
+    setTimeout(() => store.jobs.delete(id), FINISHED_JOB_TTL_MS).unref?.();
+  }
+
+  return updated;
+}
+
+/**
+ * Subscribes to updates of a single job
+ * @returns Function that removes the subscription
+ */
+export function subscribeToJob(id: string, listener: (job: Job) => void): () => void {
+  const { events } = getStore();
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
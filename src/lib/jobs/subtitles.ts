@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { getStorage } from '@/lib/storage';
+import { createFileLinks } from '@/lib/signing';
+import { toStorageError } from '@/lib/downloader';
+import { getVideoMetadata } from '@/lib/ytdlp';
+import { TEMP_DIR, ensureTempDirectoryExists, getContentTypeFromFilename } from '@/lib/file-system';
+import { selectSubtitleTracks, vttToSrt, SubtitleOptions, SubtitleTrack } from '@/lib/media/subtitles';
+import type { JobFile, SubtitleFile } from './types';
+
+// Caption track staged in TEMP_DIR
+export interface LocalSubtitle extends SubtitleTrack {
+  vttPath: string;
+  srtPath?: string;         // Only when SRT files were requested
+}
+
+/**
+ * Downloads the requested caption tracks into TEMP_DIR
+ * - Missing languages, and tracks that fail to download, are reported instead of failing the job
+ * @param jobId - Job that owns the download, for logging
+ * @param url - Video URL
+ * @param options - Requested languages and format
+ * @param baseName - Prefix of the staged files
+ */
+export async function fetchSubtitles(
+  jobId: string,
+  url: string,
+  options: SubtitleOptions,
+  baseName: string
+): Promise<{ subtitles: LocalSubtitle[]; missing: string[] }> {
+  let selection: ReturnType<typeof selectSubtitleTracks>;
+  try {
+    selection = selectSubtitleTracks(await getVideoMetadata(url), options);
+  } catch (error) {
+    console.error(`[job ${jobId}] Could not list subtitles:`, error);
+    return { subtitles: [], missing: [...options.languages] };
+  }
+
+  ensureTempDirectoryExists();
+  const subtitles: LocalSubtitle[] = [];
+  const missing = [...selection.missing];
+
+  for (const track of selection.tracks) {
+    try {
+      const response = await fetch(track.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const vtt = await response.text();
+
+      const vttPath = path.join(TEMP_DIR, `${baseName}.${track.language}.vtt`);
+      fs.writeFileSync(vttPath, vtt);
+
+      let srtPath: string | undefined;
+      if (options.format === 'srt') {
+        srtPath = path.join(TEMP_DIR, `${baseName}.${track.language}.srt`);
+        fs.writeFileSync(srtPath, vttToSrt(vtt));
+      }
+
+      subtitles.push({ ...track, vttPath, srtPath });
+      console.log(`[job ${jobId}] Fetched ${track.autoGenerated ? 'automatic ' : ''}subtitles: ${track.language}`);
+    } catch (error) {
+      console.error(`[job ${jobId}] Could not fetch ${track.language} subtitles:`, error);
+      missing.push(track.language);
+    }
+  }
+
+  return { subtitles, missing };
+}
+
+/**
+ * Uploads one staged subtitle file to storage
+ */
+async function uploadSubtitleFile(jobId: string, filePath: string, pathname: string): Promise<JobFile> {
+  const contentType = getContentTypeFromFilename(filePath);
+  const stream = Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>;
+  const storedFile = await getStorage().put(pathname, stream, { contentType }).catch(error => {
+    throw toStorageError(error);
+  });
+
+  return {
+    filename: storedFile.pathname,
+    originalFilename: path.basename(pathname).replace(/^\d+_/, ''),
+    size: storedFile.size,
+    ...createFileLinks(storedFile.pathname, jobId),
+    contentType,
+  };
+}
+
+/**
+ * Stores the caption tracks next to the video
+ * @param jobId - Job that owns the files (signed links)
+ * @param subtitles - Staged tracks
+ * @param videoPathname - Stored video pathname, subtitle files reuse its name
+ */
+export async function uploadSubtitles(jobId: string, subtitles: LocalSubtitle[], videoPathname: string): Promise<SubtitleFile[]> {
+  const baseName = path.parse(videoPathname).name;
+  const files: SubtitleFile[] = [];
+
+  for (const subtitle of subtitles) {
+    const vttFile = await uploadSubtitleFile(jobId, subtitle.vttPath, `${baseName}.${subtitle.language}.vtt`);
+    const file = subtitle.srtPath
+      ? await uploadSubtitleFile(jobId, subtitle.srtPath, `${baseName}.${subtitle.language}.srt`)
+      : vttFile;
+
+    files.push({
+      language: subtitle.language,
+      label: subtitle.label,
+      autoGenerated: subtitle.autoGenerated,
+      format: subtitle.srtPath ? 'srt' : 'vtt',
+      file,
+      vttFile,
+    });
+  }
+
+  return files;
+}
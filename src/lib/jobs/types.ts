@@ -0,0 +1,68 @@
+/**
+ * Types for asynchronous download jobs
+ */
+import type { DownloadMode, JobSnapshot } from '@/lib/api';
+import type { Chapter } from '@/lib/chapters';
+import type { AudioFormat } from '@/lib/media/audio';
+import type { ClipRange } from '@/lib/media/clip';
+import type { LiveRecording } from '@/lib/media/recording';
+import type { SubtitleOptions } from '@/lib/media/subtitles';
+import type { OutputTarget } from '@/lib/media/transcode';
+import type { VideoUrl } from '@/lib/urls';
+
+// Job, file, result and error shapes are part of the API contract
+export type {
+  BatchItem,
+  BatchItemPhase,
+  BatchPackaging,
+  BatchState,
+  DownloadMode,
+  JobError,
+  JobFile,
+  JobKind,
+  JobPhase,
+  JobResult,
+  RecordingState,
+  SubtitleFile,
+  SubtitleResult,
+  VideoInfo,
+} from '@/lib/api';
+
+// Video metadata as sent by the NestJS backend in the X-Video-Info header, jobs turn it into the contract's VideoInfo
+export interface BackendVideoInfo {
+  id: string;
+  title: string;
+  description: string;
+  duration: number;
+  durationFormatted: string;
+  thumbnail: string;
+  author: {
+    name: string;
+    channelId: string;
+  };
+  viewCount: number;
+  uploadDate: string;
+  quality: string;
+  format: string;
+  fileSize: number;
+  chapters: Chapter[];      // Empty when the video has no chapters
+}
+
+// Options chosen by the user, forwarded to the downloader
+export interface DownloadOptions {
+  format?: string;          // yt-dlp format selector, backend default when omitted
+  mode?: DownloadMode;      // 'audio' extracts a tagged audio file, 'video' by default
+  audioFormat?: AudioFormat; // Output format in audio mode, mp3 by default
+  subtitles?: SubtitleOptions; // Caption tracks to fetch next to the video
+  clip?: ClipRange;         // Only keep this segment of the video
+  splitChapters?: boolean;  // Deliver one file per chapter, bundled in a zip
+  live?: LiveRecording;     // Record the live stream, the video must be broadcasting
+  output?: OutputTarget;    // Remux or transcode the video to this container and resolution
+}
+
+// Job as kept by the server, sent to clients as a JobSnapshot
+export interface Job extends JobSnapshot {
+  url: string;              // Canonical URL for single jobs
+  source?: VideoUrl;        // Site, video id and start time of single jobs
+  options: DownloadOptions;
+}
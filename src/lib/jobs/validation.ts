@@ -0,0 +1,298 @@
+import { isValidFormatSelector } from '@/lib/formats';
+import { AUDIO_FORMATS, AudioFormat } from '@/lib/media/audio';
+import { parseTimestamp, ClipRange } from '@/lib/media/clip';
+import { getDownloadLimits } from '@/lib/limits/policy';
+import { SUBTITLE_FORMATS, SubtitleFormat, SubtitleOptions } from '@/lib/media/subtitles';
+import type { LiveRecording } from '@/lib/media/recording';
+import { OUTPUT_CONTAINERS, OutputContainer, OutputTarget } from '@/lib/media/transcode';
+import type { Translator } from '@/lib/i18n';
+import type { DownloadOptions } from './types';
+
+// Upper bound of caption languages per download
+const MAX_SUBTITLE_LANGUAGES = 10;
+
+// Language codes as used by YouTube: 'en', 'es-419', 'zh-Hans'
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+// Range of heights a video can be downscaled to
+const MIN_OUTPUT_HEIGHT = 144;
+const MAX_OUTPUT_HEIGHT = 4320;
+
+export type ParsedOptions =
+  | { valid: true; options: DownloadOptions }
+  | { valid: false; error: string; message: string };
+
+type ParsedSubtitles =
+  | { valid: true; subtitles: SubtitleOptions | undefined }
+  | { valid: false; error: string; message: string };
+
+/**
+ * Validates the subtitles option: { languages, includeAutoGenerated?, format?, embed? }
+ */
+function parseSubtitleOptions(value: unknown, t: Translator): ParsedSubtitles {
+  if (value === undefined || value === null) {
+    return { valid: true, subtitles: undefined };
+  }
+
+  const invalid = (message: string): ParsedSubtitles => ({ valid: false, error: 'Invalid subtitles', message });
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return invalid(t('validation.subtitles.object'));
+  }
+
+  const { languages, includeAutoGenerated = false, format = 'vtt', embed = false } = value as Record<string, unknown>;
+
+  if (!Array.isArray(languages) || languages.length === 0 || languages.length > MAX_SUBTITLE_LANGUAGES) {
+    return invalid(t('validation.subtitles.count', { max: MAX_SUBTITLE_LANGUAGES }));
+  }
+  if (!languages.every(language => typeof language === 'string' && LANGUAGE_PATTERN.test(language))) {
+    return invalid(t('validation.subtitles.languages'));
+  }
+  if (typeof includeAutoGenerated !== 'boolean' || typeof embed !== 'boolean') {
+    return invalid(t('validation.subtitles.flags'));
+  }
+  if (!SUBTITLE_FORMATS.includes(format as SubtitleFormat)) {
+    return invalid(t('validation.subtitles.format', { formats: SUBTITLE_FORMATS.join(', ') }));
+  }
+
+  return {
+    valid: true,
+    subtitles: {
+      languages: [...new Set(languages as string[])],
+      includeAutoGenerated,
+      format: format as SubtitleFormat,
+      embed,
+    }
+  };
+}
+
+type ParsedClip =
+  | { valid: true; clip: ClipRange | undefined }
+  | { valid: false; error: string; message: string };
+
+/**
+ * Validates the clip fields: start (0 by default), end and frameAccurate
+ * - Timestamps are seconds or "hh:mm:ss" strings
+ */
+function parseClipOptions({ start, end, frameAccurate = false }: Record<string, unknown>, t: Translator): ParsedClip {
+  if (start === undefined && end === undefined) {
+    return { valid: true, clip: undefined };
+  }
+
+  const invalid = (message: string): ParsedClip => ({ valid: false, error: 'Invalid clip', message });
+
+  const startSeconds = start === undefined ? 0 : parseTimestamp(start);
+  const endSeconds = parseTimestamp(end);
+
+  if (startSeconds === null || endSeconds === null) {
+    return invalid(t('validation.clip.timestamps'));
+  }
+  if (endSeconds <= startSeconds) {
+    return invalid(t('validation.clip.order'));
+  }
+  if (typeof frameAccurate !== 'boolean') {
+    return invalid(t('validation.clip.frameAccurate'));
+  }
+
+  const { maxDurationSeconds } = getDownloadLimits();
+  if (maxDurationSeconds && endSeconds - startSeconds > maxDurationSeconds) {
+    return invalid(t('validation.clip.tooLong', { seconds: maxDurationSeconds }));
+  }
+
+  return { valid: true, clip: { start: startSeconds, end: endSeconds, frameAccurate } };
+}
+
+type ParsedLive =
+  | { valid: true; live: LiveRecording | undefined }
+  | { valid: false; error: string; message: string };
+
+/**
+ * Validates the live recording option: { fromStart?, maxDuration? }
+ * - maxDuration (seconds) defaults to, and cannot go over, the configured maximum
+ */
+function parseLiveOptions(value: unknown, t: Translator): ParsedLive {
+  if (value === undefined || value === null) {
+    return { valid: true, live: undefined };
+  }
+
+  const invalid = (message: string): ParsedLive => ({ valid: false, error: 'Invalid live recording', message });
+
+  const { maxLiveDurationSeconds } = getDownloadLimits();
+  if (!maxLiveDurationSeconds) {
+    return invalid(t('validation.live.disabled'));
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return invalid(t('validation.live.object'));
+  }
+
+  const { fromStart = false, maxDuration = maxLiveDurationSeconds } = value as Record<string, unknown>;
+
+  if (typeof fromStart !== 'boolean') {
+    return invalid(t('validation.live.fromStart'));
+  }
+  if (typeof maxDuration !== 'number' || !Number.isFinite(maxDuration) || maxDuration <= 0 || maxDuration > maxLiveDurationSeconds) {
+    return invalid(t('validation.live.maxDuration', { max: maxLiveDurationSeconds }));
+  }
+
+  return { valid: true, live: { fromStart, maxDuration: Math.ceil(maxDuration) } };
+}
+
+type ParsedOutput =
+  | { valid: true; output: OutputTarget | undefined }
+  | { valid: false; error: string; message: string };
+
+/**
+ * Validates the output option: { container?, maxHeight? }, at least one of them
+ */
+function parseOutputOptions(value: unknown, t: Translator): ParsedOutput {
+  if (value === undefined || value === null) {
+    return { valid: true, output: undefined };
+  }
+
+  const invalid = (message: string): ParsedOutput => ({ valid: false, error: 'Invalid output', message });
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return invalid(t('validation.output.object'));
+  }
+
+  const { container, maxHeight } = value as Record<string, unknown>;
+
+  if (container === undefined && maxHeight === undefined) {
+    return invalid(t('validation.output.object'));
+  }
+  if (container !== undefined && !OUTPUT_CONTAINERS.includes(container as OutputContainer)) {
+    return invalid(t('validation.output.container', { containers: OUTPUT_CONTAINERS.join(', ') }));
+  }
+  if (maxHeight !== undefined && (!Number.isInteger(maxHeight) || (maxHeight as number) < MIN_OUTPUT_HEIGHT || (maxHeight as number) > MAX_OUTPUT_HEIGHT)) {
+    return invalid(t('validation.output.maxHeight', { min: MIN_OUTPUT_HEIGHT, max: MAX_OUTPUT_HEIGHT }));
+  }
+
+  return {
+    valid: true,
+    output: {
+      container: container as OutputContainer | undefined,
+      maxHeight: maxHeight as number | undefined,
+    }
+  };
+}
+
+/**
+ * Validates the download options of a request body (format, mode, audioFormat, subtitles, start / end, splitChapters, live, output)
+ * Shared by the single and batch download routes
+ * @param t - Translator in the language of the request, for the messages
+ */
+export function parseDownloadOptions(body: Record<string, unknown>, t: Translator): ParsedOptions {
+  const { format, mode = 'video', audioFormat, subtitles, splitChapters = false, live, output } = body;
+
+  // Validate format selector, as listed by /api/formats
+  if (format !== undefined && (typeof format !== 'string' || !isValidFormatSelector(format))) {
+    return {
+      valid: false,
+      error: 'Invalid format',
+      message: t('validation.format')
+    };
+  }
+
+  // Validate download mode and audio output format
+  if (mode !== 'video' && mode !== 'audio') {
+    return {
+      valid: false,
+      error: 'Invalid mode',
+      message: t('validation.mode')
+    };
+  }
+
+  if (audioFormat !== undefined && !AUDIO_FORMATS.includes(audioFormat as AudioFormat)) {
+    return {
+      valid: false,
+      error: 'Invalid audio format',
+      message: t('validation.audioFormat', { formats: AUDIO_FORMATS.join(', ') })
+    };
+  }
+
+  const parsedSubtitles = parseSubtitleOptions(subtitles, t);
+  if (!parsedSubtitles.valid) {
+    return parsedSubtitles;
+  }
+
+  const parsedClip = parseClipOptions(body, t);
+  if (!parsedClip.valid) {
+    return parsedClip;
+  }
+
+  // Caption timings would not match the clip
+  if (parsedClip.clip && parsedSubtitles.subtitles) {
+    return {
+      valid: false,
+      error: 'Invalid clip',
+      message: t('validation.clip.subtitles')
+    };
+  }
+
+  if (typeof splitChapters !== 'boolean') {
+    return {
+      valid: false,
+      error: 'Invalid chapters',
+      message: t('validation.chapters.flag')
+    };
+  }
+
+  // Chapter times refer to the whole video, and cut files only keep audio and video
+  if (splitChapters && (parsedClip.clip || parsedSubtitles.subtitles?.embed)) {
+    return {
+      valid: false,
+      error: 'Invalid chapters',
+      message: t('validation.chapters.conflict')
+    };
+  }
+
+  const parsedLive = parseLiveOptions(live, t);
+  if (!parsedLive.valid) {
+    return parsedLive;
+  }
+
+  // A recording has no set length to cut, nor chapters or captions yet
+  if (parsedLive.live && (parsedClip.clip || splitChapters || parsedSubtitles.subtitles)) {
+    return {
+      valid: false,
+      error: 'Invalid live recording',
+      message: t('validation.live.conflict')
+    };
+  }
+
+  if (mode === 'audio' && parsedSubtitles.subtitles?.embed) {
+    return {
+      valid: false,
+      error: 'Invalid subtitles',
+      message: t('validation.subtitles.audioEmbed')
+    };
+  }
+
+  const parsedOutput = parseOutputOptions(output, t);
+  if (!parsedOutput.valid) {
+    return parsedOutput;
+  }
+
+  // Audio mode has its own output formats
+  if (mode === 'audio' && parsedOutput.output) {
+    return {
+      valid: false,
+      error: 'Invalid output',
+      message: t('validation.output.audio')
+    };
+  }
+
+  return {
+    valid: true,
+    options: {
+      format,
+      mode,
+      audioFormat: mode === 'audio' ? (audioFormat as AudioFormat | undefined) ?? 'mp3' : undefined,
+      subtitles: parsedSubtitles.subtitles,
+      clip: parsedClip.clip,
+      splitChapters: splitChapters || undefined,
+      live: parsedLive.live,
+      output: parsedOutput.output,
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { respondError } from '@/lib/api/server';
+import { getGlobalSingleton } from '@/lib/global';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { getDownloadLimits } from './policy';
+import { getClientKey, takeToken } from './rate-limit';
+
+export type { DownloadLimits } from './policy';
+export type { RateLimitResult } from './rate-limit';
+export { getDownloadLimits } from './policy';
+export { getClientKey, takeToken } from './rate-limit';
+
+/**
+ * Builds a 429 response telling the client when to come back
+ * @param message - Why the request was rejected
+ * @param retryAfterSeconds - Sent as Retry-After and in the body
+ */
+export function tooManyRequests(message: string, retryAfterSeconds: number): NextResponse {
+    return respondError({
+        error: 'Too Many Requests',
+        message,
+        retryAfter: retryAfterSeconds
+    }, 429, { 'Retry-After': String(retryAfterSeconds) });
+}
+
+/**
+ * Warns once per process that requests carry no client address
+ */
+function warnUnknownClient() {
+    getGlobalSingleton('unknownClientWarning', () => {
+        console.warn('Could not identify the client of a request (check TRUSTED_PROXY_HOPS), it is not rate limited');
+        return true;
+    });
+}
+
+/**
+ * Applies the per-client rate limit (token bucket) to a request
+ * - Requests whose client is unknown are not rate limited, sharing one bucket would let one client block everyone
+ *   (the queue limits still apply)
+ * @returns The 429 response to send, or null when the request may go on
+ */
+export function rateLimitRequest(request: NextRequest): NextResponse | null {
+    const limits = getDownloadLimits();
+    const clientKey = getClientKey(request.headers, limits.trustedProxyHops);
+    if (!clientKey) {
+        warnUnknownClient();
+        return null;
+    }
+
+    const result = takeToken(clientKey, limits);
+    if (result.allowed) return null;
+
+    console.log(`Rate limit reached for ${clientKey}, retry in ${result.retryAfterSeconds}s`);
+    return tooManyRequests(
+        getRequestTranslator(request)('api.rateLimited', { seconds: result.retryAfterSeconds }),
+        result.retryAfterSeconds
+    );
+}
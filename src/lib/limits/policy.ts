@@ -0,0 +1,47 @@
+/**
+ * Download limits: request rate, concurrent jobs, video duration and file size
+ */
+import { parseSize } from '@/lib/retention/policy';
+
+export interface DownloadLimits {
+    rateLimitRequests: number;  // Burst size of a client's token bucket, 0 disables rate limiting
+    rateLimitWindowMs: number;  // Time to refill a whole bucket
+    trustedProxyHops: number;   // Reverse proxies in front of the app appending to X-Forwarded-For, 0 ignores forwarded headers
+    maxConcurrentJobs: number;  // Jobs running at once, the rest wait in the queue
+    maxQueuedJobs: number;      // Jobs allowed to wait, new requests are rejected beyond that
+    maxDurationSeconds: number; // Longest video (or clip) accepted, 0 for no limit
+    maxFileSizeBytes: number;   // Largest file produced, 0 for no limit
+    maxLiveDurationSeconds: number; // Longest live recording, 0 disables live recordings
+}
+
+function integerFromEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Reads the download limits from the environment
+ * - RATE_LIMIT_REQUESTS (10) per RATE_LIMIT_WINDOW_SECONDS (60) and client
+ * - TRUSTED_PROXY_HOPS (1), proxies whose X-Forwarded-For entries identify the client
+ * - MAX_CONCURRENT_JOBS (3), MAX_QUEUED_JOBS (20)
+ * - MAX_VIDEO_DURATION_SECONDS (3 hours, 0 for no limit)
+ * - MAX_FILE_SIZE ("2GB", 0 for no limit)
+ * - MAX_LIVE_DURATION_SECONDS (1 hour, 0 disables live recordings)
+ */
+export function getDownloadLimits(): DownloadLimits {
+    const maxFileSize = parseSize(process.env.MAX_FILE_SIZE || '2GB');
+    if (maxFileSize === null) {
+        console.warn(`Invalid MAX_FILE_SIZE "${process.env.MAX_FILE_SIZE}", no size limit applied`);
+    }
+
+    return {
+        rateLimitRequests: integerFromEnv('RATE_LIMIT_REQUESTS', 10),
+        rateLimitWindowMs: Math.max(integerFromEnv('RATE_LIMIT_WINDOW_SECONDS', 60), 1) * 1000,
+        trustedProxyHops: integerFromEnv('TRUSTED_PROXY_HOPS', 1),
+        maxConcurrentJobs: Math.max(integerFromEnv('MAX_CONCURRENT_JOBS', 3), 1),
+        maxQueuedJobs: integerFromEnv('MAX_QUEUED_JOBS', 20),
+        maxDurationSeconds: integerFromEnv('MAX_VIDEO_DURATION_SECONDS', 3 * 60 * 60),
+        maxFileSizeBytes: maxFileSize ?? 0,
+        maxLiveDurationSeconds: integerFromEnv('MAX_LIVE_DURATION_SECONDS', 60 * 60),
+    };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { DownloadLimits } from './policy';
+import { getClientKey, takeToken } from './rate-limit';
+
+function clientKey(headers: Record<string, string>, trustedProxyHops = 1) {
+    return getClientKey(new Headers(headers), trustedProxyHops);
+}
+
+describe('getClientKey', () => {
+    it('takes the X-Forwarded-For entry added by the trusted proxy, not a forged one', () => {
+        expect(clientKey({ 'X-Forwarded-For': '203.0.113.7' })).toBe('203.0.113.7');
+        expect(clientKey({ 'X-Forwarded-For': '10.0.0.1, 203.0.113.7' })).toBe('203.0.113.7');
+        expect(clientKey({ 'X-Forwarded-For': '10.0.0.1, 203.0.113.7, 192.168.1.2' }, 2)).toBe('203.0.113.7');
+        expect(clientKey({ 'X-Forwarded-For': '203.0.113.7' }, 2)).toBe('203.0.113.7');
+    });
+
+    it('falls back to X-Real-IP without X-Forwarded-For', () => {
+        expect(clientKey({ 'X-Real-IP': '203.0.113.8' })).toBe('203.0.113.8');
+    });
+
+    it('does not pool unknown clients under one key', () => {
+        expect(clientKey({})).toBeNull();
+        expect(clientKey({ 'X-Forwarded-For': '203.0.113.7', 'X-Real-IP': '203.0.113.8' }, 0)).toBeNull();
+    });
+});
+
+describe('takeToken', () => {
+    const limits = { rateLimitRequests: 2, rateLimitWindowMs: 60_000 } as DownloadLimits;
+
+    it('rejects a client once its bucket is empty, without touching other clients', () => {
+        const now = 1_000_000;
+        expect(takeToken('client-a', limits, now).allowed).toBe(true);
+        expect(takeToken('client-a', limits, now).allowed).toBe(true);
+        expect(takeToken('client-a', limits, now)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 30 });
+        expect(takeToken('client-b', limits, now).allowed).toBe(true);
+        expect(takeToken('client-a', limits, now + 30_000).allowed).toBe(true);
+    });
+});
@@ -0,0 +1,83 @@
+import { getGlobalSingleton } from '@/lib/global';
+import type { DownloadLimits } from './policy';
+
+interface TokenBucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;          // Whole tokens left after this request
+    retryAfterSeconds: number;  // Wait until the next token, 0 when allowed
+}
+
+// Buckets untouched for this long are full again and can be dropped
+const BUCKET_IDLE_MS = 60 * 60 * 1000;
+
+function getBuckets(): Map<string, TokenBucket> {
+    return getGlobalSingleton('rateLimits', () => new Map<string, TokenBucket>());
+}
+
+/**
+ * Identifies the client of a request
+ * - Each proxy appends the address it received the request from to X-Forwarded-For, so only the last
+ *   trustedProxyHops entries are written by our proxies, the ones before may be forged by the client
+ * - The client is the entry added by the outermost trusted proxy, X-Real-IP (set by the platform) when there is no X-Forwarded-For
+ * - Forwarded headers are ignored when trustedProxyHops is 0
+ * @param headers - Request headers
+ * @param trustedProxyHops - Reverse proxies in front of the app, see DownloadLimits
+ * @returns Client address, or null when the request does not tell
+ */
+export function getClientKey(headers: Headers, trustedProxyHops: number): string | null {
+    if (trustedProxyHops <= 0) return null;
+
+    const forwarded = headers.get('x-forwarded-for')?.split(',').map(address => address.trim()).filter(Boolean) ?? [];
+    if (forwarded.length > 0) {
+        // Fewer entries than hops: the first one is still the farthest address our proxies saw
+        return forwarded[Math.max(forwarded.length - trustedProxyHops, 0)];
+    }
+
+    return headers.get('x-real-ip')?.trim() || null;
+}
+
+/**
+ * Takes one token from a client's bucket
+ * - Buckets hold rateLimitRequests tokens and refill continuously over rateLimitWindowMs
+ * - Always allowed when rateLimitRequests is 0
+ * @param key - Client key, see getClientKey
+ * @param limits - Download limits in effect
+ * @param now - Current time
+ */
+export function takeToken(key: string, limits: DownloadLimits, now = Date.now()): RateLimitResult {
+    const capacity = limits.rateLimitRequests;
+    if (capacity <= 0) {
+        return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+    }
+
+    const buckets = getBuckets();
+    const refillPerMs = capacity / limits.rateLimitWindowMs;
+
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+
+    // Opportunistic cleanup of idle clients
+    if (buckets.size > 1000) {
+        for (const [otherKey, other] of buckets) {
+            if (now - other.updatedAt > BUCKET_IDLE_MS) buckets.delete(otherKey);
+        }
+    }
+
+    if (bucket.tokens < 1) {
+        return {
+            allowed: false,
+            remaining: 0,
+            retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000)),
+        };
+    }
+
+    bucket.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+}
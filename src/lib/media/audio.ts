@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import { buildFfmetadata, runFfmpeg } from './ffmpeg';
+
+export type AudioFormat = 'mp3' | 'm4a' | 'opus';
+
+export const AUDIO_FORMATS: AudioFormat[] = ['mp3', 'm4a', 'opus'];
+
+// Tags embedded in the audio file, taken from the video metadata
+export interface AudioTags {
+    title?: string;
+    artist?: string;        // Channel / uploader
+    date?: string;          // Upload date, YYYY-MM-DD or YYYYMMDD
+    comment?: string;       // Source URL
+}
+
+interface ExtractAudioOptions {
+    input: string;          // Downloaded video or audio file
+    output: string;         // Target file, extension must match the format
+    format: AudioFormat;
+    tags: AudioTags;
+    coverPath?: string;     // Thumbnail image, embedded as cover art when present
+}
+
+// Encoder settings per output format
+const AUDIO_CODEC_ARGS: Record<AudioFormat, string[]> = {
+    mp3: ['-c:a', 'libmp3lame', '-q:a', '2'],
+    m4a: ['-c:a', 'aac', '-b:a', '192k'],
+    opus: ['-c:a', 'libopus', '-b:a', '128k'],
+};
+
+/**
+ * Normalizes upload dates to YYYY-MM-DD (yt-dlp reports YYYYMMDD)
+ */
+function normalizeDate(date?: string): string | undefined {
+    if (!date) return undefined;
+    const compact = date.match(/^(\d{4})(\d{2})(\d{2})$/);
+    return compact ? `${compact[1]}-${compact[2]}-${compact[3]}` : date;
+}
+
+/**
+ * Builds a FLAC picture block, the way Ogg/Opus files carry cover art
+ * @see https://xiph.org/flac/format.html#metadata_block_picture
+ */
+function buildPictureBlock(image: Buffer, mimeType: string): string {
+    const mime = Buffer.from(mimeType);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(3, 0); // Picture type: front cover
+    header.writeUInt32BE(mime.length, 4);
+
+    const dimensions = Buffer.alloc(4 * 5); // Description length, width, height, depth, colors: unknown
+    const dataLength = Buffer.alloc(4);
+    dataLength.writeUInt32BE(image.length, 0);
+
+    return Buffer.concat([header, mime, dimensions, dataLength, image]).toString('base64');
+}
+
+/**
+ * Extracts the audio track into a tagged mp3, m4a or opus file
+ * - Title, artist and date tags come from the video metadata
+ * - Cover art is attached as a picture stream (mp3, m4a) or a picture block (opus)
+ */
+export async function extractAudio({ input, output, format, tags, coverPath }: ExtractAudioOptions): Promise<void> {
+    const workDir = path.dirname(output);
+    const base = path.basename(output, path.extname(output));
+    const metadataPath = path.join(workDir, `${base}.ffmetadata`);
+    const coverJpegPath = path.join(workDir, `${base}.cover.jpg`);
+
+    try {
+        // Cover art is always converted to JPEG, thumbnails are often webp
+        let cover: string | undefined;
+        if (coverPath) {
+            try {
+                await runFfmpeg(['-i', coverPath, '-frames:v', '1', '-c:v', 'mjpeg', coverJpegPath]);
+                cover = coverJpegPath;
+            } catch (error) {
+                console.error('Could not convert cover art, continuing without it:', error);
+            }
+        }
+
+        const metadata: Record<string, string | undefined> = {
+            title: tags.title,
+            artist: tags.artist,
+            album_artist: tags.artist,
+            date: normalizeDate(tags.date),
+            comment: tags.comment,
+        };
+        if (cover && format === 'opus') {
+            metadata.METADATA_BLOCK_PICTURE = buildPictureBlock(fs.readFileSync(cover), 'image/jpeg');
+        }
+        fs.writeFileSync(metadataPath, buildFfmetadata(metadata));
+
+        const args = ['-i', input, '-i', metadataPath];
+        const attachCover = cover && format !== 'opus';
+        if (attachCover) args.push('-i', cover!);
+
+        args.push('-map', '0:a:0', '-map_metadata', '1');
+        if (attachCover) {
+            args.push('-map', '2:v', '-c:v', 'mjpeg', '-disposition:v:0', 'attached_pic');
+        }
+        if (format === 'mp3') args.push('-id3v2_version', '3');
+
+        args.push(...AUDIO_CODEC_ARGS[format], output);
+
+        await runFfmpeg(args);
+    } finally {
+        fs.rmSync(metadataPath, { force: true });
+        fs.rmSync(coverJpegPath, { force: true });
+    }
+}
@@ -0,0 +1,65 @@
+import { runFfmpeg } from './ffmpeg';
+
+// Segment of a video, in seconds from the start
+export interface ClipRange {
+    start: number;
+    end: number;
+    frameAccurate?: boolean;    // Re-encode so the cut lands on the exact frame, keyframe cuts otherwise
+}
+
+/**
+ * Formats seconds as hh:mm:ss.mmm, the form ffmpeg and yt-dlp accept
+ */
+export function formatTimestamp(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = (seconds % 60).toFixed(3).padStart(6, '0');
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${rest}`;
+}
+
+/**
+ * Parses a timestamp: seconds (90, "90.5") or "mm:ss" / "hh:mm:ss(.mmm)"
+ * @returns Seconds, or null when the value is not a timestamp
+ */
+export function parseTimestamp(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value >= 0 ? value : null;
+    }
+    if (typeof value !== 'string') return null;
+
+    const match = value.trim().match(/^(?:(?:(\d+):)?(\d{1,2}):)?(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+
+    const [, hours = '0', minutes = '0', seconds] = match;
+    if (match[2] !== undefined && parseFloat(seconds) >= 60) return null;
+
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+}
+
+/**
+ * Cuts a segment out of a media file
+ * - Keyframe cuts copy the streams: fast, but the clip may start slightly before `start`
+ * - Frame-accurate cuts re-encode video (x264) and audio (aac)
+ * @param input - Source file
+ * @param output - Target file, same container as the source
+ * @param range - Segment to keep
+ */
+export async function cutClip(input: string, output: string, { start, end, frameAccurate }: ClipRange): Promise<void> {
+    const duration = end - start;
+
+    // -ss before -i seeks on the input, which is fast and frame exact when re-encoding
+    const args = ['-ss', formatTimestamp(start), '-i', input, '-t', duration.toFixed(3), '-map', '0:v?', '-map', '0:a?'];
+
+    if (frameAccurate) {
+        args.push('-c:v', 'libx264', '-preset', 'veryfast', '-crf', '18', '-c:a', 'aac', '-b:a', '192k');
+    } else {
+        args.push('-c', 'copy', '-avoid_negative_ts', 'make_zero');
+    }
+
+    if (/\.(mp4|m4a|mov)$/i.test(output)) {
+        args.push('-movflags', '+faststart');
+    }
+
+    args.push(output);
+    await runFfmpeg(args);
+}
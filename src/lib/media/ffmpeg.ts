@@ -0,0 +1,131 @@
+import { processingTimeoutError } from '@/lib/downloader/types';
+import { execFileAsync } from '@/lib/execute';
+
+// ffmpeg binary, taken from PATH unless FFMPEG_PATH is set
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+// ffprobe binary, taken from PATH unless FFPROBE_PATH is set
+export const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+// ffmpeg may run FFMPEG_TIMEOUT_FACTOR seconds per second of input (4 by default), on top of a minute to start
+const FFMPEG_TIMEOUT_FACTOR = parseFloat(process.env.FFMPEG_TIMEOUT_FACTOR || '') || 4;
+const FFMPEG_BASE_TIMEOUT_MS = 60 * 1000;
+
+// Time given when no input duration can be read (pictures, probe failures)
+const FFMPEG_DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Main streams of a media file, as reported by ffprobe
+export interface MediaInfo {
+    videoCodec: string | null;  // ffmpeg codec name (h264, vp9, av1...), null without video
+    audioCodec: string | null;  // ffmpeg codec name (aac, opus...), null without audio
+    height: number | null;      // Video height in pixels
+}
+
+/**
+ * Reads the duration of a media file
+ * @returns Seconds, or null when ffprobe cannot tell (pictures, unreadable files)
+ */
+export async function probeDuration(input: string): Promise<number | null> {
+    try {
+        const { stdout } = await execFileAsync(FFPROBE_PATH, [
+            '-v', 'error',
+            '-show_entries', 'format=duration',
+            '-of', 'default=noprint_wrappers=1:nokey=1',
+            input,
+        ]);
+        const duration = parseFloat(stdout);
+        return Number.isFinite(duration) && duration > 0 ? duration : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Time an ffmpeg run is given, scaled to its longest input
+ * @param args - ffmpeg arguments, the inputs are read from their -i options
+ */
+async function getFfmpegTimeout(args: string[]): Promise<number> {
+    const inputs = args.filter((_, index) => args[index - 1] === '-i');
+    const durations = (await Promise.all(inputs.map(probeDuration))).filter((duration): duration is number => duration !== null);
+    if (durations.length === 0) return FFMPEG_DEFAULT_TIMEOUT_MS;
+
+    return FFMPEG_BASE_TIMEOUT_MS + Math.max(...durations) * FFMPEG_TIMEOUT_FACTOR * 1000;
+}
+
+/**
+ * Runs ffmpeg with the given arguments
+ * - Always overwrites outputs and only logs errors
+ * - Killed once it runs longer than its input allows (see getFfmpegTimeout), the job then fails with processingTimeoutError
+ * - Surfaces ffmpeg's stderr in the thrown error
+ * @param args - ffmpeg arguments (inputs, filters, outputs)
+ */
+export async function runFfmpeg(args: string[]): Promise<void> {
+    const timeout = await getFfmpegTimeout(args);
+
+    try {
+        await execFileAsync(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-y', ...args], {
+            maxBuffer: 10 * 1024 * 1024,
+            timeout,
+            killSignal: 'SIGKILL',
+        });
+    } catch (error) {
+        // Killed by the timeout, not by a stderr flood over maxBuffer
+        const { killed, code } = error as { killed?: boolean; code?: unknown };
+        if (killed && code !== 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+            throw processingTimeoutError(timeout);
+        }
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw new Error(`ffmpeg failed${stderr ? `: ${stderr}` : ''}`);
+    }
+}
+
+/**
+ * Reads the codecs and resolution of a media file
+ * - Cover art attached as a picture stream is not taken for the video
+ * @param input - Media file
+ */
+export async function probeMedia(input: string): Promise<MediaInfo> {
+    let stdout: string;
+    try {
+        ({ stdout } = await execFileAsync(FFPROBE_PATH, [
+            '-v', 'error',
+            '-show_entries', 'stream=codec_type,codec_name,height:stream_disposition=attached_pic',
+            '-of', 'json',
+            input,
+        ], { maxBuffer: 10 * 1024 * 1024 }));
+    } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw new Error(`ffprobe failed${stderr ? `: ${stderr}` : ''}`);
+    }
+
+    type ProbedStream = { codec_type?: string; codec_name?: string; height?: number; disposition?: { attached_pic?: number } };
+    const { streams = [] } = JSON.parse(stdout) as { streams?: ProbedStream[] };
+    const video = streams.find(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+    const audio = streams.find(stream => stream.codec_type === 'audio');
+
+    return {
+        videoCodec: video?.codec_name ?? null,
+        audioCodec: audio?.codec_name ?? null,
+        height: video?.height ?? null,
+    };
+}
+
+/**
+ * Escapes a value for an ffmetadata file (=, ;, #, \ and newlines)
+ */
+function escapeMetadataValue(value: string): string {
+    return value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+}
+
+/**
+ * Builds the contents of an ffmetadata file
+ * Used instead of -metadata arguments so long values (cover art blocks) fit
+ * @param tags - Global tags to write
+ */
+export function buildFfmetadata(tags: Record<string, string | undefined>): string {
+    const lines = [';FFMETADATA1'];
+    for (const [key, value] of Object.entries(tags)) {
+        if (value) lines.push(`${key}=${escapeMetadataValue(value)}`);
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,26 @@
+import { runFfmpeg } from './ffmpeg';
+
+// Live stream recording asked for by the user
+export interface LiveRecording {
+    fromStart: boolean;         // From the start of the DVR window when the stream keeps one, from now otherwise
+    maxDuration: number;        // Seconds, the recording stops by itself after that
+}
+
+/**
+ * Turns a live recording into a regular mp4 file
+ * - Recordings are written as MPEG-TS so a stopped recording stays readable, browsers do not play it
+ * - A recording stopped before yt-dlp merged its streams leaves one file per stream, they are joined here
+ * - Streams are copied, timestamps restart at zero and the index goes first for playback while loading
+ * @param inputs - Recorded files
+ * @param output - Target .mp4 file
+ */
+export async function finalizeRecording(inputs: string[], output: string): Promise<void> {
+    await runFfmpeg([
+        ...inputs.flatMap(input => ['-i', input]),
+        ...inputs.flatMap((_, index) => ['-map', `${index}:v?`, '-map', `${index}:a?`]),
+        '-c', 'copy',
+        '-avoid_negative_ts', 'make_zero',
+        '-movflags', '+faststart',
+        output,
+    ]);
+}
@@ -0,0 +1,167 @@
+import type youtubeDl from 'youtube-dl-exec';
+import { runFfmpeg } from './ffmpeg';
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['vtt', 'srt'];
+
+// Subtitles requested with a download
+export interface SubtitleOptions {
+    languages: string[];            // Language codes, 'en' also matches regional variants such as 'en-US'
+    includeAutoGenerated?: boolean; // Fall back to YouTube's automatic captions
+    format?: SubtitleFormat;        // Format of the separate files, vtt by default
+    embed?: boolean;                // Also add them as soft subtitle tracks in the video container
+}
+
+// Track picked from the video metadata
+export interface SubtitleTrack {
+    language: string;               // Language key reported by YouTube ('en', 'es-419'...)
+    label: string;                  // Display name
+    autoGenerated: boolean;
+    url: string;                    // WebVTT download URL
+}
+
+/**
+ * Picks one WebVTT track per requested language
+ * - Uploaded subtitles win over automatic captions
+ * - A language matches its own key or any regional variant ('en' → 'en-GB')
+ * @param metadata - yt-dlp metadata of the video
+ * @returns Selected tracks, and the languages nothing was found for
+ */
+export function selectSubtitleTracks(
+    metadata: youtubeDl.Response,
+    { languages, includeAutoGenerated = false }: SubtitleOptions
+): { tracks: SubtitleTrack[]; missing: string[] } {
+    const sources: Array<{ autoGenerated: boolean; tracks: Record<string, youtubeDl.Subtitle[]> }> = [
+        { autoGenerated: false, tracks: metadata.subtitles ?? {} },
+    ];
+    if (includeAutoGenerated) {
+        sources.push({ autoGenerated: true, tracks: metadata.automatic_captions ?? {} });
+    }
+
+    const tracks: SubtitleTrack[] = [];
+    const missing: string[] = [];
+
+    for (const language of languages) {
+        const wanted = language.toLowerCase();
+        let found: SubtitleTrack | null = null;
+
+        for (const { autoGenerated, tracks: available } of sources) {
+            const key = Object.keys(available).find(key => key.toLowerCase() === wanted)
+                ?? Object.keys(available).find(key => key.toLowerCase().startsWith(`${wanted}-`));
+            const vtt = key ? available[key].find(track => track.ext === 'vtt') : undefined;
+
+            if (key && vtt) {
+                found = { language: key, label: vtt.name || key, autoGenerated, url: vtt.url };
+                break;
+            }
+        }
+
+        if (found) {
+            tracks.push(found);
+        } else {
+            missing.push(language);
+        }
+    }
+
+    return { tracks, missing };
+}
+
+// Inline tags SRT players understand, every other WebVTT tag is dropped
+const SRT_TAGS = /^<\/?[ibu]>$/;
+
+/**
+ * Formats a WebVTT timestamp (mm:ss.ttt or hh:mm:ss.ttt) as an SRT one (hh:mm:ss,ttt)
+ */
+function toSrtTimestamp(timestamp: string): string {
+    const parts = timestamp.split(':');
+    const withHours = parts.length === 2 ? ['00', ...parts] : parts;
+    return withHours.map((part, index) => index === 0 ? part.padStart(2, '0') : part).join(':').replace('.', ',');
+}
+
+/**
+ * Converts WebVTT subtitles to SubRip
+ * - Drops the header, NOTE, STYLE and REGION blocks, cue settings and styling tags
+ * - Cues are renumbered from 1
+ */
+export function vttToSrt(vtt: string): string {
+    const blocks = vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+    const cues: string[] = [];
+
+    for (const block of blocks) {
+        const lines = block.split('\n').filter(line => line.trim() !== '');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) continue; // Header, NOTE, STYLE, REGION
+
+        const timing = lines[timingIndex].match(/^\s*(\S+)\s+-->\s+(\S+)/);
+        if (!timing) continue;
+
+        const text = lines.slice(timingIndex + 1)
+            .map(line => line.replace(/<[^>]+>/g, tag => SRT_TAGS.test(tag) ? tag : ''))
+            .map(line => line.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' '))
+            .filter(line => line.trim() !== '');
+        if (text.length === 0) continue;
+
+        cues.push([
+            String(cues.length + 1),
+            `${toSrtTimestamp(timing[1])} --> ${toSrtTimestamp(timing[2])}`,
+            ...text,
+        ].join('\n'));
+    }
+
+    return cues.join('\n\n') + '\n';
+}
+
+// Subtitle file on disk to embed
+export interface EmbeddedSubtitle {
+    path: string;                   // WebVTT file
+    language: string;
+    label: string;
+}
+
+// Subtitle codec per container, mp4 only accepts timed text
+const SUBTITLE_CODECS: Record<string, string> = {
+    mp4: 'mov_text',
+    m4v: 'mov_text',
+    mov: 'mov_text',
+    webm: 'webvtt',
+    mkv: 'srt',
+};
+
+/**
+ * Tells whether subtitles can be embedded in a container
+ * @param extension - Container extension without the dot
+ */
+export function canEmbedSubtitles(extension: string): boolean {
+    return extension.toLowerCase() in SUBTITLE_CODECS;
+}
+
+/**
+ * Adds subtitles to a video as soft (toggleable) tracks
+ * - Audio and video streams are copied, only the subtitles are encoded
+ * @param input - Video file
+ * @param output - Target file, same container as the input
+ * @param subtitles - WebVTT files with their language and label
+ */
+export async function embedSubtitles(input: string, output: string, subtitles: EmbeddedSubtitle[]): Promise<void> {
+    const extension = output.split('.').pop()?.toLowerCase() ?? '';
+    const codec = SUBTITLE_CODECS[extension];
+    if (!codec) {
+        throw new Error(`Subtitles cannot be embedded in .${extension} files`);
+    }
+
+    const args = ['-i', input];
+    subtitles.forEach(({ path }) => args.push('-i', path));
+
+    args.push('-map', '0:v?', '-map', '0:a?');
+    subtitles.forEach((_, index) => args.push('-map', `${index + 1}:0`));
+
+    args.push('-c', 'copy', '-c:s', codec);
+    subtitles.forEach(({ language, label }, index) => {
+        args.push(`-metadata:s:s:${index}`, `language=${language}`);
+        args.push(`-metadata:s:s:${index}`, `title=${label}`);
+    });
+
+    args.push(output);
+    await runFfmpeg(args);
+}
@@ -0,0 +1,123 @@
+import path from 'path';
+import { MediaInfo, probeMedia, runFfmpeg } from './ffmpeg';
+
+export type OutputContainer = 'mp4' | 'webm' | 'mkv';
+
+export const OUTPUT_CONTAINERS: OutputContainer[] = ['mp4', 'webm', 'mkv'];
+
+// Conversion asked for on a video download, at least one of the fields is set
+export interface OutputTarget {
+    container?: OutputContainer;    // Keeps the downloaded container when missing (mp4 if it is none of these)
+    maxHeight?: number;             // Taller videos are downscaled to this height, keeping the aspect ratio
+}
+
+interface ContainerProfile {
+    videoCodecs: string[] | null;   // Codecs copied as they are, null accepts any
+    audioCodecs: string[] | null;
+    videoEncoder: string[];         // Used when the video codec is not accepted or has to be scaled
+    audioEncoder: string[];
+    subtitleCodec: string;
+}
+
+const CONTAINER_PROFILES: Record<OutputContainer, ContainerProfile> = {
+    // H.264/AAC: plays in every browser and imports in every editor
+    mp4: {
+        videoCodecs: ['h264'],
+        audioCodecs: ['aac'],
+        videoEncoder: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p'],
+        audioEncoder: ['-c:a', 'aac', '-b:a', '192k'],
+        subtitleCodec: 'mov_text',
+    },
+    webm: {
+        videoCodecs: ['vp8', 'vp9', 'av1'],
+        audioCodecs: ['opus', 'vorbis'],
+        videoEncoder: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-deadline', 'good', '-cpu-used', '4', '-row-mt', '1'],
+        audioEncoder: ['-c:a', 'libopus', '-b:a', '128k'],
+        subtitleCodec: 'webvtt',
+    },
+    // Matroska carries any codec, only downscaling re-encodes
+    mkv: {
+        videoCodecs: null,
+        audioCodecs: null,
+        videoEncoder: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20'],
+        audioEncoder: ['-c:a', 'aac', '-b:a', '192k'],
+        subtitleCodec: 'srt',
+    },
+};
+
+// What a conversion does to each stream
+export interface ConversionPlan {
+    container: OutputContainer;
+    copyVideo: boolean;
+    copyAudio: boolean;
+    scale: boolean;
+}
+
+/**
+ * Tells whether a codec can be copied into a container
+ */
+function accepts(codecs: string[] | null, codec: string | null): boolean {
+    return codec === null || codecs === null || codecs.includes(codec);
+}
+
+/**
+ * Works out the cheapest way to reach the target
+ * - Streams the container accepts are copied (remux), the others are re-encoded
+ * - Downscaling always re-encodes the video
+ * @param sourceExtension - Extension of the downloaded file, without the dot
+ * @param info - Streams of the downloaded file
+ */
+export function planConversion(sourceExtension: string, info: MediaInfo, target: OutputTarget): ConversionPlan {
+    const extension = sourceExtension.toLowerCase() as OutputContainer;
+    const container = target.container ?? (OUTPUT_CONTAINERS.includes(extension) ? extension : 'mp4');
+    const profile = CONTAINER_PROFILES[container];
+
+    // An unknown height may be over the limit, the scale filter keeps smaller videos as they are
+    const scale = target.maxHeight !== undefined && info.videoCodec !== null
+        && (info.height === null || info.height > target.maxHeight);
+
+    return {
+        container,
+        copyVideo: !scale && accepts(profile.videoCodecs, info.videoCodec),
+        copyAudio: accepts(profile.audioCodecs, info.audioCodec),
+        scale,
+    };
+}
+
+/**
+ * Remuxes or transcodes a video to the requested container and resolution
+ * - Files already matching the target are returned untouched
+ * - Subtitle tracks are kept, converted to the container's subtitle format
+ * @param input - Downloaded video
+ * @param outputBase - Target path without extension, the container's one is added
+ * @returns Path of the converted file, the input itself when nothing had to change
+ */
+export async function convertMedia(input: string, outputBase: string, target: OutputTarget): Promise<{ filePath: string; plan: ConversionPlan }> {
+    const sourceExtension = path.extname(input).slice(1);
+    const plan = planConversion(sourceExtension, await probeMedia(input), target);
+    const { container, copyVideo, copyAudio, scale } = plan;
+    const profile = CONTAINER_PROFILES[container];
+
+    if (copyVideo && copyAudio && container === sourceExtension.toLowerCase()) {
+        return { filePath: input, plan };
+    }
+
+    const output = `${outputBase}.${container}`;
+    const args = ['-i', input, '-map', '0:v:0?', '-map', '0:a?', '-map', '0:s?'];
+
+    args.push(...(copyVideo ? ['-c:v', 'copy'] : profile.videoEncoder));
+    if (scale) {
+        args.push('-vf', `scale=-2:'min(ih,${target.maxHeight})'`);
+    }
+    args.push(...(copyAudio ? ['-c:a', 'copy'] : profile.audioEncoder));
+    args.push('-c:s', profile.subtitleCodec);
+
+    if (container === 'mp4') {
+        args.push('-movflags', '+faststart');
+    }
+
+    args.push(output);
+    await runFfmpeg(args);
+
+    return { filePath: output, plan };
+}
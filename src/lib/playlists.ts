@@ -0,0 +1,94 @@
+import type youtubeDl from 'youtube-dl-exec';
+
+export type CollectionType = 'playlist' | 'channel';
+
+export interface PlaylistEntry {
+    id: string;
+    url: string;
+    title: string;
+    duration: number | null;    // Seconds, null when unknown (e.g. upcoming streams)
+    thumbnail: string | null;
+    unavailable: boolean;       // Private or deleted, listed but cannot be downloaded
+}
+
+export interface Playlist {
+    id: string;
+    type: CollectionType;
+    title: string;
+    uploader: string | null;
+    entries: PlaylistEntry[];
+    truncated: boolean;         // More entries exist than MAX_PLAYLIST_ENTRIES
+}
+
+// Entry of a flat yt-dlp listing (only the fields we use)
+interface FlatPlaylistEntry {
+    id: string;
+    url?: string;
+    title?: string;
+    duration?: number | null;
+    thumbnails?: Array<{ url: string }>;
+    availability?: string | null;
+}
+
+// Titles YouTube uses in flat listings for entries that cannot be watched
+const UNAVAILABLE_TITLES = ['[Private video]', '[Deleted video]', '[Unavailable video]'];
+
+const CHANNEL_PATTERN = /^(?:https?:\/\/)?(?:www\.|m\.)?youtube\.com\/(?:@[\w.-]+|channel\/[\w-]+|c\/[\w.-]+|user\/[\w.-]+)(\/[\w-]*)?\/?(?:\?.*)?$/i;
+
+/**
+ * Detects playlist and channel URLs
+ * - Auto-generated mixes (list=RD...) are treated as single videos, they never end
+ * @returns Collection type, or null for anything else
+ */
+export function getCollectionType(url: string): CollectionType | null {
+    if (CHANNEL_PATTERN.test(url)) return 'channel';
+
+    const listMatch = url.match(/^(?:https?:\/\/)?(?:www\.|m\.|music\.)?youtube\.com\/.*[?&]list=([\w-]+)/i);
+    if (listMatch && !listMatch[1].startsWith('RD')) return 'playlist';
+
+    return null;
+}
+
+/**
+ * Channel roots list tabs (videos, shorts, live) instead of videos, so point them at the uploads
+ */
+export function toListingUrl(url: string, type: CollectionType): string {
+    if (type !== 'channel') return url;
+
+    const match = url.match(CHANNEL_PATTERN);
+    if (match && match[1] && match[1] !== '/') return url;
+
+    const [base, query] = url.split('?');
+    return `${base.replace(/\/+$/, '')}/videos${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Builds a playlist from a flat yt-dlp listing
+ * @param result - dumpSingleJson output of a flat playlist listing
+ * @param type - Collection type of the listed URL
+ * @param maxEntries - Entries kept, anything beyond marks the playlist as truncated
+ */
+export function toPlaylist(result: youtubeDl.Response, type: CollectionType, maxEntries: number): Playlist {
+    const rawEntries: FlatPlaylistEntry[] = result.entries ?? [];
+
+    const entries = rawEntries.slice(0, maxEntries).map((entry): PlaylistEntry => {
+        const title: string = entry.title || entry.id;
+        return {
+            id: entry.id,
+            url: entry.url?.startsWith('http') ? entry.url : `https://www.youtube.com/watch?v=${entry.id}`,
+            title,
+            duration: typeof entry.duration === 'number' ? entry.duration : null,
+            thumbnail: entry.thumbnails?.[entry.thumbnails.length - 1]?.url ?? null,
+            unavailable: UNAVAILABLE_TITLES.includes(title) || (!!entry.availability && entry.availability !== 'public' && entry.availability !== 'unlisted'),
+        };
+    });
+
+    return {
+        id: result.id ?? '',
+        type,
+        title: result.title ?? 'Playlist',
+        uploader: result.uploader ?? result.channel ?? null,
+        entries,
+        truncated: rawEntries.length > maxEntries,
+    };
+}
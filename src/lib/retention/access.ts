@@ -0,0 +1,31 @@
+/**
+ * Last-access times of stored files, used for least-recently-accessed eviction
+ * - Kept in memory: after a restart, files fall back to their upload time
+ */
+import { getGlobalSingleton } from '@/lib/global';
+
+function getAccessTimes(): Map<string, number> {
+    return getGlobalSingleton('fileAccess', () => new Map<string, number>());
+}
+
+/**
+ * Marks a stored file as used now (served, or handed out from the download cache)
+ */
+export function recordFileAccess(pathname: string, now: number = Date.now()): void {
+    getAccessTimes().set(pathname, now);
+}
+
+/**
+ * Last time a stored file was used
+ * @returns Epoch milliseconds, or undefined when it was not used since the process started
+ */
+export function getLastFileAccess(pathname: string): number | undefined {
+    return getAccessTimes().get(pathname);
+}
+
+/**
+ * Forgets a stored file once it is deleted
+ */
+export function forgetFileAccess(pathname: string): void {
+    getAccessTimes().delete(pathname);
+}
@@ -0,0 +1,5 @@
+export type { EvictionReason, PlannedEviction, RetentionPolicy } from './policy';
+export type { RemovedFile, SweepReport } from './sweeper';
+export { forgetFileAccess, getLastFileAccess, recordFileAccess } from './access';
+export { getRetentionPolicy, parseSize, planStorageEviction } from './policy';
+export { getSweepReports, startRetentionSweeper, sweepStorage } from './sweeper';
@@ -0,0 +1,111 @@
+/**
+ * Retention policy: how long files are kept and how much storage they may use
+ */
+import { TEMP_FILE_TTL_MS } from '@/lib/file-system';
+import type { StoredFile } from '@/lib/storage';
+
+export interface RetentionPolicy {
+    tempTtlMs: number;          // Age limit of files in the temp directory
+    fileTtlMs: number;          // Age limit of stored files, 0 keeps them forever
+    quotaBytes: number;         // Total size allowed in storage, 0 for no quota
+    sweepIntervalMs: number;    // Delay between two scheduled sweeps, 0 disables the sweeper
+    dryRun: boolean;            // Report what would be removed without removing anything
+}
+
+export type EvictionReason = 'expired' | 'quota';
+
+export interface PlannedEviction {
+    file: StoredFile;
+    reason: EvictionReason;
+    lastAccessedAt: number;     // Last access, or upload time when never accessed
+}
+
+const SIZE_UNITS: Record<string, number> = {
+    '': 1,
+    'B': 1,
+    'KB': 1024,
+    'MB': 1024 ** 2,
+    'GB': 1024 ** 3,
+    'TB': 1024 ** 4,
+};
+
+/**
+ * Parses a size such as "500MB", "2 GB" or "1048576"
+ * @returns Size in bytes, or null when the value is not a size
+ */
+export function parseSize(value: string): number | null {
+    const match = value.trim().toUpperCase().match(/^(\d+(?:\.\d+)?)\s*([KMGT]?B)?$/);
+    if (!match) return null;
+    return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] ?? '']);
+}
+
+function secondsFromEnv(name: string, fallbackSeconds: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return (isNaN(value) ? fallbackSeconds : value) * 1000;
+}
+
+/**
+ * Reads the retention policy from the environment
+ * - RETENTION_TEMP_TTL_SECONDS (1 hour)
+ * - RETENTION_FILE_TTL_SECONDS (unset keeps files forever), stored files are only deleted once it or RETENTION_QUOTA is set
+ * - RETENTION_QUOTA ("10GB", unlimited when empty)
+ * - RETENTION_SWEEP_INTERVAL_SECONDS (15 minutes, 0 disables scheduled sweeps)
+ * - RETENTION_DRY_RUN=true to only report
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+    const quota = process.env.RETENTION_QUOTA ? parseSize(process.env.RETENTION_QUOTA) : 0;
+    if (quota === null) {
+        console.warn(`Invalid RETENTION_QUOTA "${process.env.RETENTION_QUOTA}", no quota applied`);
+    }
+
+    return {
+        tempTtlMs: TEMP_FILE_TTL_MS,
+        fileTtlMs: secondsFromEnv('RETENTION_FILE_TTL_SECONDS', 0),
+        quotaBytes: quota ?? 0,
+        sweepIntervalMs: secondsFromEnv('RETENTION_SWEEP_INTERVAL_SECONDS', 15 * 60),
+        dryRun: process.env.RETENTION_DRY_RUN === 'true',
+    };
+}
+
+/**
+ * Chooses the stored files to remove
+ * - Files older than fileTtlMs go first
+ * - While the remaining files exceed the quota, the least recently accessed ones are evicted
+ * @param files - Every stored file
+ * @param policy - Retention policy to apply
+ * @param getLastAccess - Last access time of a file, if known
+ * @param now - Current time
+ */
+export function planStorageEviction(
+    files: StoredFile[],
+    policy: RetentionPolicy,
+    getLastAccess: (pathname: string) => number | undefined,
+    now: number = Date.now()
+): PlannedEviction[] {
+    const evictions: PlannedEviction[] = [];
+    const remaining: PlannedEviction[] = [];
+
+    for (const file of files) {
+        const uploadedAt = file.uploadedAt.getTime();
+        const candidate = { file, reason: 'expired' as EvictionReason, lastAccessedAt: getLastAccess(file.pathname) ?? uploadedAt };
+
+        if (policy.fileTtlMs > 0 && now - uploadedAt > policy.fileTtlMs) {
+            evictions.push(candidate);
+        } else {
+            remaining.push(candidate);
+        }
+    }
+
+    if (policy.quotaBytes > 0) {
+        let totalBytes = remaining.reduce((total, { file }) => total + file.size, 0);
+        const byAccess = [...remaining].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+        for (const candidate of byAccess) {
+            if (totalBytes <= policy.quotaBytes) break;
+            evictions.push({ ...candidate, reason: 'quota' });
+            totalBytes -= candidate.file.size;
+        }
+    }
+
+    return evictions;
+}
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { cleanTempDirectory, ensureDirExists } from '@/lib/file-system';
+import { getGlobalSingleton } from '@/lib/global';
+import { getStorage } from '@/lib/storage';
+import { invalidateCachedFile } from '@/lib/jobs/cache';
+import { forgetFileAccess, getLastFileAccess } from './access';
+import { EvictionReason, getRetentionPolicy, planStorageEviction, RetentionPolicy } from './policy';
+
+// Sweep reports are written as JSON files, the newest REPORTS_TO_KEEP are kept
+// Never under public/ (where the temp directory lives in development), reports list every stored file
+export const RETENTION_REPORT_DIR = process.env.RETENTION_REPORT_DIR || path.join(os.tmpdir(), 'retention-reports');
+const REPORTS_TO_KEEP = 20;
+
+export interface RemovedFile {
+    target: 'temp' | 'storage';
+    pathname: string;
+    size: number;
+    reason: EvictionReason;
+    lastAccessedAt?: string;    // Storage files only
+}
+
+export interface SweepReport {
+    startedAt: string;
+    finishedAt: string;
+    trigger: 'schedule' | 'manual';
+    dryRun: boolean;
+    policy: RetentionPolicy;
+    removed: RemovedFile[];
+    removedBytes: number;
+    kept: { files: number; bytes: number };  // Storage after the sweep
+    errors: { pathname: string; message: string }[];
+    reportPath?: string;
+}
+
+type SweeperState = {
+    timer: NodeJS.Timeout | null;
+    running: Map<boolean, Promise<SweepReport>>; // Sweeps in progress, keyed by dryRun
+    reports: SweepReport[];
+};
+
+// One per process, dev hot reloads never start a second timer
+function getState(): SweeperState {
+    return getGlobalSingleton<SweeperState>('sweeper', () => ({ timer: null, running: new Map(), reports: [] }));
+}
+
+/**
+ * Writes a report next to the previous ones and prunes the oldest
+ * - A failure to write only loses the file, the report stays in memory
+ */
+function writeReport(report: SweepReport): string | undefined {
+    try {
+        ensureDirExists(RETENTION_REPORT_DIR);
+        const reportPath = path.join(RETENTION_REPORT_DIR, `sweep_${report.startedAt.replace(/[:.]/g, '-')}.json`);
+        fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+        const previous = fs.readdirSync(RETENTION_REPORT_DIR)
+            .filter(file => file.startsWith('sweep_') && file.endsWith('.json'))
+            .sort();
+        for (const file of previous.slice(0, Math.max(previous.length - REPORTS_TO_KEEP, 0))) {
+            fs.rmSync(path.join(RETENTION_REPORT_DIR, file), { force: true });
+        }
+
+        return reportPath;
+    } catch (error) {
+        console.error('Could not write retention report:', error);
+        return undefined;
+    }
+}
+
+async function runSweep(policy: RetentionPolicy, trigger: SweepReport['trigger']): Promise<SweepReport> {
+    const startedAt = new Date();
+    const { dryRun } = policy;
+    const removed: RemovedFile[] = [];
+    const errors: SweepReport['errors'] = [];
+
+    console.log(`Retention sweep started (${trigger}${dryRun ? ', dry run' : ''})`);
+
+    // Temp directory: staging files of downloads and conversions
+    const tempFiles = await cleanTempDirectory({ maxAgeMs: policy.tempTtlMs, dryRun });
+    removed.push(...tempFiles.map(file => ({
+        target: 'temp' as const,
+        pathname: file.name,
+        size: file.size,
+        reason: 'expired' as const,
+    })));
+
+    // Stored files: TTL first, then quota by least recent access
+    const storage = getStorage();
+    let storedFiles: Awaited<ReturnType<typeof storage.list>> = [];
+    try {
+        storedFiles = await storage.list();
+    } catch (error) {
+        errors.push({ pathname: '*', message: `Could not list ${storage.name} storage: ${error instanceof Error ? error.message : String(error)}` });
+    }
+
+    const evictions = planStorageEviction(storedFiles, policy, getLastFileAccess, startedAt.getTime());
+    const evicted = new Set<string>();
+
+    for (const { file, reason, lastAccessedAt } of evictions) {
+        try {
+            if (!dryRun) {
+                await storage.delete(file.pathname);
+                invalidateCachedFile(file.pathname);
+                forgetFileAccess(file.pathname);
+            }
+            evicted.add(file.pathname);
+            removed.push({
+                target: 'storage',
+                pathname: file.pathname,
+                size: file.size,
+                reason,
+                lastAccessedAt: new Date(lastAccessedAt).toISOString(),
+            });
+            console.log(`${dryRun ? '[dry run] Would remove' : 'Removed'} stored file ${file.pathname} (${reason})`);
+        } catch (error) {
+            errors.push({ pathname: file.pathname, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    const keptFiles = storedFiles.filter(file => !evicted.has(file.pathname));
+
+    const report: SweepReport = {
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        trigger,
+        dryRun,
+        policy,
+        removed,
+        removedBytes: removed.reduce((total, file) => total + file.size, 0),
+        kept: {
+            files: keptFiles.length,
+            bytes: keptFiles.reduce((total, file) => total + file.size, 0),
+        },
+        errors,
+    };
+    report.reportPath = writeReport(report);
+
+    console.log(`Retention sweep finished: ${removed.length} file(s), ${report.removedBytes} bytes ${dryRun ? 'would be ' : ''}removed`);
+    return report;
+}
+
+/**
+ * Runs one retention sweep over the temp directory and the storage backend
+ * - A sweep of the same mode already in progress is reused instead of starting another one,
+ *   a dry run never reports a real sweep as its own result (nor the other way around)
+ * @param options - dryRun overrides the policy, trigger is recorded in the report
+ * @returns Report of what was (or would be) removed and why
+ */
+export async function sweepStorage(
+    { dryRun, trigger = 'manual' }: { dryRun?: boolean; trigger?: SweepReport['trigger'] } = {}
+): Promise<SweepReport> {
+    const state = getState();
+    const policy = getRetentionPolicy();
+    const mode = dryRun ?? policy.dryRun;
+
+    const running = state.running.get(mode);
+    if (running) return running;
+
+    const sweep = runSweep({ ...policy, dryRun: mode }, trigger);
+    state.running.set(mode, sweep);
+
+    try {
+        const report = await sweep;
+        state.reports = [report, ...state.reports].slice(0, REPORTS_TO_KEEP);
+        return report;
+    } finally {
+        state.running.delete(mode);
+    }
+}
+
+/**
+ * Reports of the latest sweeps of this process, newest first
+ */
+export function getSweepReports(): SweepReport[] {
+    return getState().reports;
+}
+
+/**
+ * Starts the periodic in-process sweeper
+ * - Does nothing when RETENTION_SWEEP_INTERVAL_SECONDS is 0 or the sweeper already runs
+ * - The timer never keeps the process alive
+ */
+export function startRetentionSweeper(): void {
+    const state = getState();
+    if (state.timer) return;
+
+    const { sweepIntervalMs, dryRun } = getRetentionPolicy();
+    if (sweepIntervalMs <= 0) {
+        console.log('Retention sweeper disabled');
+        return;
+    }
+
+    console.log(`Retention sweeper every ${Math.round(sweepIntervalMs / 1000)}s${dryRun ? ' (dry run)' : ''}`);
+
+    state.timer = setInterval(() => {
+        sweepStorage({ trigger: 'schedule' }).catch(error => {
+            console.error('Scheduled retention sweep failed:', error);
+        });
+    }, sweepIntervalMs);
+    state.timer.unref?.();
+}
@@ -0,0 +1,160 @@
+/**
+ * HMAC-signed, expiring capabilities for stored files
+ * - A token names one stored file, one action and the job that created the file
+ * - Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload))
+ */
+import crypto from 'crypto';
+import { getGlobalSingleton } from '@/lib/global';
+import { getRetentionPolicy } from '@/lib/retention/policy';
+
+// What a token allows on its file
+export type FileAction = 'read' | 'delete';
+
+export interface FileToken {
+    pathname: string;       // Stored file the token grants access to
+    action: FileAction;
+    jobId: string;          // Job that created the file
+    expiresAt: number;      // Epoch milliseconds
+}
+
+export type TokenVerification =
+    | { valid: true; token: FileToken }
+    | { valid: false; reason: 'malformed' | 'invalid-signature' | 'wrong-action' | 'expired' };
+
+// Lifetime of download links
+export const FILE_LINK_TTL_MS = (parseInt(process.env.FILE_LINK_TTL_SECONDS || '', 10) || 60 * 60) * 1000;
+
+// Lifetime of delete links when stored files are kept forever
+const KEPT_FILE_DELETE_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Lifetime of delete links
+ * - As long as stored files are kept (RETENTION_FILE_TTL_SECONDS), so the owner can delete a file until the sweeper does
+ * - Never shorter than the download links
+ */
+function getDeleteLinkTtlMs(): number {
+    const { fileTtlMs } = getRetentionPolicy();
+    return Math.max(fileTtlMs || KEPT_FILE_DELETE_TTL_MS, FILE_LINK_TTL_MS);
+}
+
+/**
+ * Secret used to sign tokens
+ * - FILE_SIGNING_SECRET must be set when several instances serve the same storage
+ * - Without it a random per-process secret is used, links stop working after a restart
+ */
+function getSigningSecret(): Buffer {
+    return getGlobalSingleton('signingSecret', () => {
+        const configured = process.env.FILE_SIGNING_SECRET;
+        if (!configured) {
+            console.warn('FILE_SIGNING_SECRET is not set, using a random secret: file links will not survive a restart');
+        }
+        return configured ? Buffer.from(configured, 'utf8') : crypto.randomBytes(32);
+    });
+}
+
+function sign(payload: string): Buffer {
+    return crypto.createHmac('sha256', getSigningSecret()).update(payload).digest();
+}
+
+/**
+ * Signs a file token
+ * @returns URL-safe token string
+ */
+export function signFileToken(token: FileToken): string {
+    const payload = Buffer.from(JSON.stringify({
+        p: token.pathname,
+        a: token.action,
+        j: token.jobId,
+        e: token.expiresAt,
+    })).toString('base64url');
+
+    return `${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Checks a token's signature, action and expiry
+ * - Signatures are compared in constant time
+ * @param value - Token string from the request
+ * @param action - Action the request performs
+ * @param now - Current time, for expiry checks
+ */
+export function verifyFileToken(value: string, action: FileAction, now: number = Date.now()): TokenVerification {
+    const [payload, signature, ...rest] = value.split('.');
+    if (!payload || !signature || rest.length > 0) {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    const expected = sign(payload);
+    const received = Buffer.from(signature, 'base64url');
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+        return { valid: false, reason: 'invalid-signature' };
+    }
+
+    let token: FileToken;
+    try {
+        const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        token = { pathname: data.p, action: data.a, jobId: data.j, expiresAt: data.e };
+    } catch {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    if (typeof token.pathname !== 'string' || typeof token.expiresAt !== 'number') {
+        return { valid: false, reason: 'malformed' };
+    }
+    if (token.action !== action) {
+        return { valid: false, reason: 'wrong-action' };
+    }
+    if (token.expiresAt <= now) {
+        return { valid: false, reason: 'expired' };
+    }
+
+    return { valid: true, token };
+}
+
+// Read links, handed out with every result that includes the file
+export interface ReadFileLinks {
+    url: string;            // Inline playback
+    downloadUrl: string;    // Forces a download (Content-Disposition: attachment)
+    expiresAt: string;      // ISO date after which the links stop working
+}
+
+// Links handed out to the job that created the file
+export interface SignedFileLinks extends ReadFileLinks {
+    deleteUrl: string;      // DELETE capability, tied to the job
+    deleteExpiresAt: string; // ISO date after which deleteUrl stops working, outlives the read links
+}
+
+/**
+ * Issues the read links of a stored file
+ * - Jobs reusing a file another job created (download cache) only get these
+ * @param pathname - Stored file pathname
+ * @param jobId - Job the links are issued to
+ */
+export function createReadLinks(pathname: string, jobId: string, now: number = Date.now()): ReadFileLinks {
+    const expiresAt = now + FILE_LINK_TTL_MS;
+    const readToken = encodeURIComponent(signFileToken({ pathname, action: 'read', jobId, expiresAt }));
+
+    return {
+        url: `/api/file?token=${readToken}`,
+        downloadUrl: `/api/file?token=${readToken}&download=1`,
+        expiresAt: new Date(expiresAt).toISOString(),
+    };
+}
+
+/**
+ * Issues the read and delete links for a file created by a job
+ * - The delete link lasts as long as the file is retained, not just as long as the read links
+ * @param pathname - Stored file pathname
+ * @param jobId - Job that created the file
+ */
+export function createFileLinks(pathname: string, jobId: string, now: number = Date.now()): SignedFileLinks {
+    const links = createReadLinks(pathname, jobId, now);
+    const deleteExpiresAt = now + getDeleteLinkTtlMs();
+    const deleteToken = encodeURIComponent(signFileToken({ pathname, action: 'delete', jobId, expiresAt: deleteExpiresAt }));
+
+    return {
+        ...links,
+        deleteUrl: `/api/file?token=${deleteToken}`,
+        deleteExpiresAt: new Date(deleteExpiresAt).toISOString(),
+    };
+}
@@ -0,0 +1,45 @@
+import { getGlobalSingleton } from '@/lib/global';
+import { createLocalStorage } from './local';
+import { withKeyPrefix } from './prefixed';
+import { createS3Storage } from './s3';
+import { createVercelBlobStorage } from './vercel-blob';
+import type { StorageBackend, StorageBackendName } from './types';
+
+export type { ByteRange, SignedUrlOptions, StorageBackend, StorageBackendName, StoredFile } from './types';
+
+const STORAGE_BACKENDS: Record<StorageBackendName, () => StorageBackend> = {
+    'local': () => createLocalStorage(),
+    // Shared stores are scoped to the app's key prefix, local disk has a directory of its own
+    's3': () => withKeyPrefix(createS3Storage()),
+    'vercel-blob': () => withKeyPrefix(createVercelBlobStorage()),
+};
+
+/**
+ * Resolves the configured backend name
+ * - STORAGE_BACKEND wins when set
+ * - Falls back to Vercel Blob when a blob token exists, local disk otherwise
+ */
+export function getStorageBackendName(): StorageBackendName {
+    const configured = process.env.STORAGE_BACKEND;
+
+    if (configured) {
+        if (!(configured in STORAGE_BACKENDS)) {
+            throw new Error(`Unknown STORAGE_BACKEND "${configured}". Expected one of: ${Object.keys(STORAGE_BACKENDS).join(', ')}`);
+        }
+        return configured as StorageBackendName;
+    }
+
+    return process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : 'local';
+}
+
+/**
+ * Returns the storage backend selected by configuration
+ * Instance is created once per process and shared by every route
+ */
+export function getStorage(): StorageBackend {
+    return getGlobalSingleton('storage', () => {
+        const storage = STORAGE_BACKENDS[getStorageBackendName()]();
+        console.log(`Using storage backend: ${storage.name}`);
+        return storage;
+    });
+}
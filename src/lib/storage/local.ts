@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { ensureDirExists, getContentTypeFromFilename, writeStreamToFile } from '@/lib/file-system';
+import type { ByteRange, ListOptions, PutOptions, StorageBackend, StoredFile } from './types';
+
+// Stored files stay out of public/, Next.js would serve them without a token, and out of TEMP_DIR, whose cleanup would remove them
+export const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || (process.env.NODE_ENV === 'production'
+    ? path.join(os.tmpdir(), 'app-storage')
+    : path.join(process.cwd(), '.storage'));
+
+/**
+ * Resolves a pathname inside the storage directory
+ * - Rejects pathnames that would escape the directory (path traversal)
+ */
+function resolvePath(root: string, pathname: string): string {
+    const filePath = path.resolve(root, pathname);
+    if (!filePath.startsWith(root + path.sep)) {
+        throw new Error(`Invalid storage pathname: ${pathname}`);
+    }
+    return filePath;
+}
+
+function toStoredFile(pathname: string, stats: fs.Stats): StoredFile {
+    return {
+        pathname,
+        size: stats.size,
+        contentType: getContentTypeFromFilename(pathname),
+        uploadedAt: stats.mtime,
+    };
+}
+
+/**
+ * Creates a storage backend writing to the local disk
+ * @param root - Directory holding the stored files
+ */
+export function createLocalStorage(root: string = LOCAL_STORAGE_DIR): StorageBackend {
+    const rootDir = path.resolve(root);
+
+    return {
+        name: 'local',
+
+        async put(pathname: string, body: ReadableStream<Uint8Array>, _options: PutOptions): Promise<StoredFile> {
+            ensureDirExists(rootDir);
+            const filePath = resolvePath(rootDir, pathname);
+
+            await writeStreamToFile(body, filePath);
+
+            return toStoredFile(pathname, await fs.promises.stat(filePath));
+        },
+
+        async head(pathname: string): Promise<StoredFile | null> {
+            try {
+                const stats = await fs.promises.stat(resolvePath(rootDir, pathname));
+                return stats.isFile() ? toStoredFile(pathname, stats) : null;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+
+        async list({ prefix = '', limit = Infinity }: ListOptions = {}): Promise<StoredFile[]> {
+            if (!fs.existsSync(rootDir)) return [];
+
+            const names = (await fs.promises.readdir(rootDir))
+                .filter(name => name.startsWith(prefix))
+                .sort()
+                .slice(0, limit);
+
+            const files: StoredFile[] = [];
+            for (const name of names) {
+                const stats = await fs.promises.stat(path.join(rootDir, name));
+                if (stats.isFile()) files.push(toStoredFile(name, stats));
+            }
+            return files;
+        },
+
+        async read(pathname: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+            const stream = fs.createReadStream(resolvePath(rootDir, pathname), range);
+            return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+        },
+
+        async delete(pathname: string): Promise<void> {
+            await fs.promises.rm(resolvePath(rootDir, pathname), { force: true });
+        },
+    };
+}
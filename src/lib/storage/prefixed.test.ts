@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { withKeyPrefix } from './prefixed';
+import type { StorageBackend, StoredFile } from './types';
+
+function storedFile(pathname: string): StoredFile {
+    return { pathname, size: 1, contentType: 'video/mp4', uploadedAt: new Date(0) };
+}
+
+// Bucket shared with keys another app wrote
+function createSharedBucket(keys: string[]) {
+    const deleted: string[] = [];
+    const backend: StorageBackend = {
+        name: 's3',
+        put: async pathname => { keys.push(pathname); return storedFile(pathname); },
+        head: async pathname => keys.includes(pathname) ? storedFile(pathname) : null,
+        // Loose prefix match, as some stores do
+        list: async ({ prefix = '' } = {}) => keys.filter(key => key.startsWith(prefix.replace(/\/$/, ''))).map(storedFile),
+        read: async () => new ReadableStream(),
+        delete: async pathname => { deleted.push(pathname); },
+        getSignedUrl: async pathname => `https://bucket.example/${pathname}`,
+    };
+    return { backend, deleted };
+}
+
+describe('withKeyPrefix', () => {
+    it('only lists the keys under the prefix, without the prefix', async () => {
+        const { backend } = createSharedBucket(['tubechain/1_a.mp4', 'tubechain-old/2_b.mp4', 'backups/db.sql']);
+        const storage = withKeyPrefix(backend, 'tubechain/');
+
+        expect((await storage.list()).map(file => file.pathname)).toEqual(['1_a.mp4']);
+    });
+
+    it('adds the prefix on the way to the backend', async () => {
+        const { backend, deleted } = createSharedBucket([]);
+        const storage = withKeyPrefix(backend, 'tubechain/');
+
+        expect((await storage.put('1_a.mp4', new ReadableStream(), { contentType: 'video/mp4' })).pathname).toBe('1_a.mp4');
+        expect((await storage.head('1_a.mp4'))?.pathname).toBe('1_a.mp4');
+        expect(await storage.getSignedUrl!('1_a.mp4', { expiresAt: new Date() })).toBe('https://bucket.example/tubechain/1_a.mp4');
+
+        await storage.delete('1_a.mp4');
+        expect(deleted).toEqual(['tubechain/1_a.mp4']);
+    });
+});
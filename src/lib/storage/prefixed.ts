@@ -0,0 +1,47 @@
+import type { ListOptions, StorageBackend, StoredFile } from './types';
+
+// Key prefix of the files this app writes to shared stores (S3 buckets, Vercel Blob stores)
+export const STORAGE_PREFIX = process.env.STORAGE_PREFIX ?? 'tubechain/';
+
+/**
+ * Scopes a backend to the keys under a prefix
+ * - Pathnames handed in and out stay relative, the prefix is added on the way to the backend
+ * - Listings only see the prefix, so retention sweeps never touch objects another app wrote to the same bucket
+ * @param backend - Backend over a shared store
+ * @param prefix - Key prefix, usually ending with '/'
+ */
+export function withKeyPrefix(backend: StorageBackend, prefix: string = STORAGE_PREFIX): StorageBackend {
+    if (!prefix) return backend;
+
+    const toKey = (pathname: string) => `${prefix}${pathname}`;
+    const fromKey = (file: StoredFile): StoredFile => ({ ...file, pathname: file.pathname.slice(prefix.length) });
+
+    return {
+        name: backend.name,
+
+        async put(pathname, body, options) {
+            return fromKey(await backend.put(toKey(pathname), body, options));
+        },
+
+        async head(pathname) {
+            const file = await backend.head(toKey(pathname));
+            return file && fromKey(file);
+        },
+
+        async list({ prefix: listPrefix = '', limit }: ListOptions = {}) {
+            const files = await backend.list({ prefix: toKey(listPrefix), limit });
+            // Stores may match the prefix loosely, only keys really under it are ours
+            return files.filter(file => file.pathname.startsWith(prefix)).map(fromKey);
+        },
+
+        read(pathname, range) {
+            return backend.read(toKey(pathname), range);
+        },
+
+        delete(pathname) {
+            return backend.delete(toKey(pathname));
+        },
+
+        getSignedUrl: backend.getSignedUrl && ((pathname, options) => backend.getSignedUrl!(toKey(pathname), options)),
+    };
+}
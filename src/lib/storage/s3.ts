@@ -0,0 +1,153 @@
+import { Readable } from 'stream';
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    NotFound,
+    S3Client,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { getContentTypeFromFilename } from '@/lib/file-system';
+import type { ByteRange, ListOptions, PutOptions, SignedUrlOptions, StorageBackend, StoredFile } from './types';
+
+// Longest lifetime S3 accepts for a presigned URL
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+// Most keys S3 returns per listing request
+const LIST_PAGE_SIZE = 1000;
+
+export interface S3StorageConfig {
+    bucket: string;
+    region: string;
+    endpoint?: string;        // Custom endpoint for S3-compatible stores (e.g. MinIO)
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle: boolean;  // Required by most self-hosted stores
+}
+
+/**
+ * Reads the S3 configuration from environment variables
+ */
+export function getS3ConfigFromEnv(): S3StorageConfig {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+        throw new Error('S3_BUCKET is required when STORAGE_BACKEND is "s3"');
+    }
+
+    return {
+        bucket,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    };
+}
+
+/**
+ * Creates a storage backend for S3-compatible object stores
+ * @param config - Bucket and connection settings
+ */
+export function createS3Storage(config: S3StorageConfig = getS3ConfigFromEnv()): StorageBackend {
+    const client = new S3Client({
+        region: config.region,
+        endpoint: config.endpoint,
+        forcePathStyle: config.forcePathStyle,
+        credentials: config.accessKeyId && config.secretAccessKey
+            ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+            : undefined,
+    });
+
+    const headObject = async (pathname: string): Promise<StoredFile | null> => {
+        try {
+            const result = await client.send(new HeadObjectCommand({ Bucket: config.bucket, Key: pathname }));
+            return {
+                pathname,
+                size: result.ContentLength ?? 0,
+                contentType: result.ContentType || getContentTypeFromFilename(pathname),
+                uploadedAt: result.LastModified ?? new Date(0),
+            };
+        } catch (error) {
+            if (error instanceof NotFound || (error as { name?: string }).name === 'NotFound') return null;
+            throw error;
+        }
+    };
+
+    return {
+        name: 's3',
+
+        async put(pathname: string, body: ReadableStream<Uint8Array>, { contentType }: PutOptions): Promise<StoredFile> {
+            // Multipart upload, since the stream length is not always known up front
+            const upload = new Upload({
+                client,
+                params: {
+                    Bucket: config.bucket,
+                    Key: pathname,
+                    Body: Readable.fromWeb(body as import('stream/web').ReadableStream),
+                    ContentType: contentType,
+                },
+            });
+            await upload.done();
+
+            const stored = await headObject(pathname);
+            if (!stored) {
+                throw new Error(`Upload of ${pathname} finished but the object is missing`);
+            }
+            return stored;
+        },
+
+        head: headObject,
+
+        async list({ prefix, limit = Infinity }: ListOptions = {}): Promise<StoredFile[]> {
+            const files: StoredFile[] = [];
+            let continuationToken: string | undefined;
+
+            do {
+                const result = await client.send(new ListObjectsV2Command({
+                    Bucket: config.bucket,
+                    Prefix: prefix,
+                    MaxKeys: Math.min(limit - files.length, LIST_PAGE_SIZE),
+                    ContinuationToken: continuationToken,
+                }));
+
+                files.push(...(result.Contents ?? []).map(object => ({
+                    pathname: object.Key!,
+                    size: object.Size ?? 0,
+                    contentType: getContentTypeFromFilename(object.Key!),
+                    uploadedAt: object.LastModified ?? new Date(0),
+                })));
+                continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+            } while (continuationToken && files.length < limit);
+
+            return files;
+        },
+
+        async read(pathname: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+            const result = await client.send(new GetObjectCommand({
+                Bucket: config.bucket,
+                Key: pathname,
+                Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+            }));
+
+            if (!result.Body) {
+                throw new Error(`Empty body returned for ${pathname}`);
+            }
+            return result.Body.transformToWebStream() as ReadableStream<Uint8Array>;
+        },
+
+        async delete(pathname: string): Promise<void> {
+            await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: pathname }));
+        },
+
+        async getSignedUrl(pathname: string, { expiresAt, contentDisposition }: SignedUrlOptions): Promise<string> {
+            const expiresIn = Math.min(Math.max(Math.floor((expiresAt.getTime() - Date.now()) / 1000), 1), MAX_PRESIGN_SECONDS);
+            return getSignedUrl(client, new GetObjectCommand({
+                Bucket: config.bucket,
+                Key: pathname,
+                ResponseContentDisposition: contentDisposition,
+            }), { expiresIn });
+        },
+    };
+}
@@ -0,0 +1,61 @@
+/**
+ * Storage backend contract shared by the local disk, S3 and Vercel Blob implementations
+ */
+
+export type StorageBackendName = 'local' | 's3' | 'vercel-blob';
+
+// Metadata describing a stored file, independent of the backend that holds it
+export interface StoredFile {
+    pathname: string;       // Key of the file inside the backend
+    size: number;           // File size in bytes
+    contentType: string;    // MIME type
+    uploadedAt: Date;       // When the file was written
+}
+
+// Inclusive byte range, as used by HTTP Range headers
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+export interface PutOptions {
+    contentType: string;
+}
+
+export interface SignedUrlOptions {
+    expiresAt: Date;                // The URL stops working after this
+    contentDisposition?: string;    // Content-Disposition the backend answers with
+}
+
+export interface ListOptions {
+    prefix?: string;
+    limit?: number;         // Most files returned, every file when missing
+}
+
+export interface StorageBackend {
+    readonly name: StorageBackendName;
+
+    /**
+     * Uploads a stream under the given pathname, replacing any existing file
+     * - The backend may store it under another pathname (Vercel Blob adds a random suffix), callers keep the returned one
+     */
+    put(pathname: string, body: ReadableStream<Uint8Array>, options: PutOptions): Promise<StoredFile>;
+
+    /** Returns file metadata, or null when the file does not exist */
+    head(pathname: string): Promise<StoredFile | null>;
+
+    /** Lists stored files, optionally filtered by pathname prefix, following every page of the backend's listing */
+    list(options?: ListOptions): Promise<StoredFile[]>;
+
+    /** Opens the file (or the requested byte range) as a stream */
+    read(pathname: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+
+    /** Removes the file; deleting a missing file is not an error */
+    delete(pathname: string): Promise<void>;
+
+    /**
+     * Issues a URL reading the file straight from the backend, until expiresAt
+     * - Only backends able to sign expiring URLs implement it, files of the others are proxied
+     */
+    getSignedUrl?(pathname: string, options: SignedUrlOptions): Promise<string>;
+}
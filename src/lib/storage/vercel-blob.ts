@@ -0,0 +1,97 @@
+import { del, head, list, put } from '@vercel/blob';
+import { getContentTypeFromFilename } from '@/lib/file-system';
+import type { ByteRange, ListOptions, PutOptions, StorageBackend, StoredFile } from './types';
+
+// Most blobs the store returns per listing request
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Creates a storage backend on top of Vercel Blob Storage
+ * - Requires BLOB_READ_WRITE_TOKEN in the environment
+ */
+export function createVercelBlobStorage(): StorageBackend {
+    /**
+     * Blob commands work with URLs, so pathnames are resolved through a prefix listing first
+     */
+    const findBlob = async (pathname: string) => {
+        const { blobs } = await list({ prefix: pathname, limit: 1 });
+        return blobs.find(blob => blob.pathname === pathname) ?? null;
+    };
+
+    return {
+        name: 'vercel-blob',
+
+        async put(pathname: string, body: ReadableStream<Uint8Array>, { contentType }: PutOptions): Promise<StoredFile> {
+            // Blob URLs are public, the random suffix keeps them from being guessed
+            const result = await put(pathname, body, {
+                access: 'public',
+                contentType,
+            });
+
+            const info = await head(result.url);
+            return {
+                pathname: result.pathname,
+                size: info.size,
+                contentType: result.contentType || contentType,
+                uploadedAt: info.uploadedAt,
+            };
+        },
+
+        async head(pathname: string): Promise<StoredFile | null> {
+            const blob = await findBlob(pathname);
+            if (!blob) return null;
+
+            const info = await head(blob.url);
+            return {
+                pathname: info.pathname,
+                size: info.size,
+                contentType: info.contentType || getContentTypeFromFilename(info.pathname),
+                uploadedAt: info.uploadedAt,
+            };
+        },
+
+        async list({ prefix, limit = Infinity }: ListOptions = {}): Promise<StoredFile[]> {
+            const files: StoredFile[] = [];
+            let cursor: string | undefined;
+
+            do {
+                const page = await list({ prefix, limit: Math.min(limit - files.length, LIST_PAGE_SIZE), cursor });
+                files.push(...page.blobs.map(blob => ({
+                    pathname: blob.pathname,
+                    size: blob.size,
+                    contentType: getContentTypeFromFilename(blob.pathname),
+                    uploadedAt: blob.uploadedAt,
+                })));
+                cursor = page.hasMore ? page.cursor : undefined;
+            } while (cursor && files.length < limit);
+
+            return files;
+        },
+
+        async read(pathname: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+            const blob = await findBlob(pathname);
+            if (!blob) {
+                throw new Error(`Blob not found: ${pathname}`);
+            }
+
+            const response = await fetch(blob.url, {
+                headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+            });
+
+            if (!response.ok || !response.body) {
+                throw new Error(`Failed to fetch blob: ${response.status} ${response.statusText}`);
+            }
+            if (range && response.status !== 206) {
+                throw new Error(`Blob store ignored range request for ${pathname}`);
+            }
+            return response.body;
+        },
+
+        async delete(pathname: string): Promise<void> {
+            const blob = await findBlob(pathname);
+            if (blob) {
+                await del(blob.url);
+            }
+        },
+    };
+}
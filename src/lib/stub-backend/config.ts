@@ -0,0 +1,70 @@
+/**
+ * Stub backend settings: whether it runs, how fast it streams and which failures it injects
+ */
+import path from 'path';
+import { parseSize } from '@/lib/retention/policy';
+
+// Failures the stub backend can inject, to exercise the error paths of the jobs and the UI
+export type StubFailure =
+    | 'private'         // 403 with YouTube's private video message
+    | 'removed'         // 404 with YouTube's removed video message
+    | 'geo-blocked'     // 403 with YouTube's country restriction message
+    | 'server-error'    // 500 without a recognizable cause
+    | 'unavailable'     // 503, as a backend that is restarting
+    | 'slow'            // Streams at slowBytesPerSecond
+    | 'truncated';      // Drops the connection halfway through the body
+
+export const STUB_FAILURES: StubFailure[] = ['private', 'removed', 'geo-blocked', 'server-error', 'unavailable', 'slow', 'truncated'];
+
+// Playable 30 second H.264 / AAC clip streamed as every fixture, small enough to ship with the code
+export const STUB_CLIP_FILE = path.join(process.cwd(), 'src/lib/stub-backend/media/stub-video.mp4');
+
+export interface StubBackendConfig {
+    enabled: boolean;
+    failure: StubFailure | null; // Injected into every download without a failure of its own
+    failureRate: number;        // Share of those downloads that get it, from 0 to 1
+    bytesPerSecond: number;     // Streaming speed of healthy downloads
+    slowBytesPerSecond: number; // Streaming speed of 'slow' downloads
+    mediaFile: string;          // Video streamed as every fixture, the bundled clip by default
+}
+
+function speedFromEnv(name: string, fallback: number): number {
+    const value = process.env[name];
+    const bytes = value ? parseSize(value) : null;
+    if (value && !bytes) {
+        console.warn(`Invalid ${name} "${value}", using ${fallback} bytes per second`);
+    }
+    return bytes || fallback;
+}
+
+/**
+ * Reads the stub backend settings from the environment
+ * - STUB_BACKEND=true serves POST /api/stub/youtube/download, the download backend when BACKEND_URL is not set
+ * - STUB_FAILURE (one of STUB_FAILURES) with STUB_FAILURE_RATE (1 = every download)
+ * - STUB_BYTES_PER_SECOND ("4MB"), STUB_SLOW_BYTES_PER_SECOND ("32KB")
+ * - STUB_MEDIA_FILE, path of a video file to stream instead of the bundled clip
+ */
+export function getStubBackendConfig(): StubBackendConfig {
+    const failure = process.env.STUB_FAILURE || null;
+    if (failure && !STUB_FAILURES.includes(failure as StubFailure)) {
+        console.warn(`Unknown STUB_FAILURE "${failure}". Expected one of: ${STUB_FAILURES.join(', ')}`);
+    }
+
+    const failureRate = parseFloat(process.env.STUB_FAILURE_RATE || '');
+
+    return {
+        enabled: process.env.STUB_BACKEND === 'true',
+        failure: STUB_FAILURES.includes(failure as StubFailure) ? failure as StubFailure : null,
+        failureRate: isNaN(failureRate) ? 1 : Math.min(Math.max(failureRate, 0), 1),
+        bytesPerSecond: speedFromEnv('STUB_BYTES_PER_SECOND', 4 * 1024 ** 2),
+        slowBytesPerSecond: speedFromEnv('STUB_SLOW_BYTES_PER_SECOND', 32 * 1024),
+        mediaFile: process.env.STUB_MEDIA_FILE || STUB_CLIP_FILE,
+    };
+}
+
+/**
+ * Base URL the remote downloader calls in offline mode, the stub route of this same server
+ */
+export function getStubBackendUrl(): string {
+    return `http://127.0.0.1:${process.env.PORT || 3000}/api/stub`;
+}
@@ -0,0 +1,157 @@
+import type { Chapter } from '@/lib/chapters';
+import type { BackendVideoInfo } from '@/lib/jobs/types';
+import type { StubFailure } from './config';
+
+// Video served by the stub backend
+export interface StubFixture {
+    id: string;                 // Video id, 11 characters so YouTube URLs accept it
+    title: string;
+    author: string;
+    duration: number;           // Seconds, the length of the bundled clip
+    viewCount: number;
+    uploadDate: string;         // YYYYMMDD, as yt-dlp reports it
+    quality: string;
+    chapters: Chapter[];
+    failure?: StubFailure;      // Always injected, whatever STUB_FAILURE says
+}
+
+// Length of the bundled clip every fixture streams (see STUB_MEDIA_FILE), chapters stay within it
+const CLIP_DURATION = 30;
+
+/**
+ * Videos known to the stub backend, reachable as https://www.youtube.com/watch?v=<id>
+ * - The stub-* failure fixtures demo every error state of the UI without restarting the server
+ */
+export const STUB_FIXTURES: StubFixture[] = [
+    {
+        id: 'stub-video1',
+        title: 'Big Buck Bunny (stub)',
+        author: 'Blender Foundation',
+        duration: CLIP_DURATION,
+        viewCount: 1250000,
+        uploadDate: '20080530',
+        quality: '1080p',
+        chapters: [
+            { title: 'Opening', start: 0, end: 8 },
+            { title: 'The bullies', start: 8, end: 20 },
+            { title: 'Revenge', start: 20, end: CLIP_DURATION },
+        ],
+    },
+    {
+        id: 'stub-video2',
+        title: 'Receta de paella valenciana (stub)',
+        author: 'Cocina Fácil',
+        duration: CLIP_DURATION,
+        viewCount: 48210,
+        uploadDate: '20231102',
+        quality: '720p',
+        chapters: [],
+    },
+    {
+        id: 'stub-privat',
+        title: 'Private video (stub)',
+        author: 'Stub Channel',
+        duration: CLIP_DURATION,
+        viewCount: 0,
+        uploadDate: '20240101',
+        quality: '720p',
+        chapters: [],
+        failure: 'private',
+    },
+    {
+        id: 'stub-remove',
+        title: 'Removed video (stub)',
+        author: 'Stub Channel',
+        duration: CLIP_DURATION,
+        viewCount: 0,
+        uploadDate: '20240101',
+        quality: '720p',
+        chapters: [],
+        failure: 'removed',
+    },
+    {
+        id: 'stub-region',
+        title: 'Geo-blocked video (stub)',
+        author: 'Stub Channel',
+        duration: CLIP_DURATION,
+        viewCount: 0,
+        uploadDate: '20240101',
+        quality: '720p',
+        chapters: [],
+        failure: 'geo-blocked',
+    },
+    {
+        id: 'stub-server',
+        title: 'Backend crash (stub)',
+        author: 'Stub Channel',
+        duration: CLIP_DURATION,
+        viewCount: 0,
+        uploadDate: '20240101',
+        quality: '720p',
+        chapters: [],
+        failure: 'server-error',
+    },
+    {
+        id: 'stub-slowly',
+        title: 'Slow stream (stub)',
+        author: 'Stub Channel',
+        duration: CLIP_DURATION,
+        viewCount: 0,
+        uploadDate: '20240101',
+        quality: '720p',
+        chapters: [],
+        failure: 'slow',
+    },
+    {
+        id: 'stub-broken',
+        title: 'Truncated stream (stub)',
+        author: 'Stub Channel',
+        duration: CLIP_DURATION,
+        viewCount: 0,
+        uploadDate: '20240101',
+        quality: '720p',
+        chapters: [],
+        failure: 'truncated',
+    },
+];
+
+/**
+ * Finds the fixture of a video id
+ * - Unknown ids get a generated fixture, so any video URL of a supported site downloads
+ */
+export function findFixture(videoId: string): StubFixture {
+    return STUB_FIXTURES.find(fixture => fixture.id === videoId) ?? {
+        id: videoId,
+        title: `Stub video ${videoId}`,
+        author: 'Stub Channel',
+        duration: CLIP_DURATION,
+        viewCount: 0,
+        uploadDate: '20240101',
+        quality: '720p',
+        chapters: [],
+    };
+}
+
+/**
+ * Metadata of a fixture as the NestJS backend sends it in X-Video-Info
+ */
+export function toBackendVideoInfo(fixture: StubFixture, fileSize: number, format: string): BackendVideoInfo {
+    const minutes = Math.floor(fixture.duration / 60);
+    const seconds = String(fixture.duration % 60).padStart(2, '0');
+
+    return {
+        id: fixture.id,
+        title: fixture.title,
+        description: `Fixture served by the TubeChain stub backend (${fixture.id})`,
+        duration: fixture.duration,
+        durationFormatted: `${minutes}:${seconds}`,
+        thumbnail: '',
+        author: { name: fixture.author, channelId: 'UCstub' },
+        viewCount: fixture.viewCount,
+        uploadDate: fixture.uploadDate,
+        quality: fixture.quality,
+        format,
+        fileSize,
+        chapters: fixture.chapters,
+    };
+}
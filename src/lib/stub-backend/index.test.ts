@@ -0,0 +1,33 @@
+import fs from 'fs';
+import { describe, expect, it } from 'vitest';
+import { handleStubDownload, STUB_CLIP_FILE } from './index';
+
+const clip = fs.readFileSync(STUB_CLIP_FILE);
+
+describe('stub backend', () => {
+    it('streams the bundled MP4 clip with the fixture metadata', async () => {
+        const response = await handleStubDownload({ url: 'https://www.youtube.com/watch?v=stub-video1', format: 'best' });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('video/mp4');
+        expect(response.headers.get('Content-Length')).toBe(String(clip.length));
+        expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="Big Buck Bunny (stub).mp4"');
+        expect(JSON.parse(response.headers.get('X-Video-Info')!)).toMatchObject({ duration: 30, fileSize: clip.length });
+
+        const body = Buffer.from(await response.arrayBuffer());
+        expect(body.subarray(4, 8).toString('ascii')).toBe('ftyp');
+        expect(body.equals(clip)).toBe(true);
+    });
+
+    it('drops the connection halfway through truncated fixtures', async () => {
+        const response = await handleStubDownload({ url: 'https://www.youtube.com/watch?v=stub-broken' });
+        await expect(response.arrayBuffer()).rejects.toThrow('Stub backend dropped the connection');
+    });
+
+    it('answers failure fixtures in the NestJS error format', async () => {
+        const response = await handleStubDownload({ url: 'https://www.youtube.com/watch?v=stub-privat' });
+
+        expect(response.status).toBe(403);
+        expect(await response.json()).toMatchObject({ statusCode: 403, error: 'Forbidden' });
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * Stub of the NestJS download backend, for offline development and demos
+ * - Same contract as POST {BACKEND_URL}/youtube/download: the video stream, X-Video-Info and Content-Disposition
+ * - Serves fixtures as a playable clip, with the failures of STUB_FAILURE (or of the fixture) injected
+ */
+import fs from 'fs';
+import path from 'path';
+import { getContentTypeFromFilename } from '@/lib/file-system';
+import { parseVideoUrl } from '@/lib/urls';
+import { getStubBackendConfig, STUB_CLIP_FILE, StubFailure } from './config';
+import { findFixture, toBackendVideoInfo } from './fixtures';
+
+export type { StubBackendConfig, StubFailure } from './config';
+export type { StubFixture } from './fixtures';
+export { getStubBackendConfig, getStubBackendUrl, STUB_CLIP_FILE, STUB_FAILURES } from './config';
+export { findFixture, STUB_FIXTURES } from './fixtures';
+
+// Size of the chunks the body is streamed in
+const CHUNK_SIZE = 64 * 1024;
+
+type StubError = Exclude<StubFailure, 'slow' | 'truncated'>;
+
+// Errors as the NestJS backend reports them, the messages are the ones classifyError recognizes
+const STUB_ERRORS: Record<StubError, { status: number; error: string; message: string }> = {
+    'private': { status: 403, error: 'Forbidden', message: "Private video. Sign in if you've been granted access to this video" },
+    'removed': { status: 404, error: 'Not Found', message: 'Video unavailable. This video has been removed by the uploader' },
+    'geo-blocked': { status: 403, error: 'Forbidden', message: 'The uploader has not made this video available in your country' },
+    'server-error': { status: 500, error: 'Internal Server Error', message: 'Internal server error' },
+    'unavailable': { status: 503, error: 'Service Unavailable', message: 'Service Unavailable' },
+};
+
+/**
+ * Error response in the NestJS format: { statusCode, message, error }
+ */
+function errorResponse(status: number, error: string, message: string): Response {
+    return Response.json({ statusCode: status, message, error }, { status });
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Header values must be ASCII, non-ASCII characters of the JSON are escaped (JSON.parse restores them)
+ */
+function toAsciiJson(value: unknown): string {
+    return JSON.stringify(value).replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+/**
+ * Streams a fixture body at a given speed
+ * - Reads the media file, the bundled clip unless STUB_MEDIA_FILE names another one
+ * - With truncateAt, the stream errors at that byte, as a backend dropping the connection
+ */
+function createFixtureStream(
+    { size, bytesPerSecond, truncateAt, filePath = STUB_CLIP_FILE }: { size: number; bytesPerSecond: number; truncateAt: number | null; filePath?: string }
+): ReadableStream<Uint8Array> {
+    let offset = 0;
+    let file: fs.promises.FileHandle | null = null;
+    const end = truncateAt ?? size;
+
+    const closeFile = async () => {
+        const handle = file;
+        file = null;
+        await handle?.close();
+    };
+
+    return new ReadableStream<Uint8Array>({
+        async start() {
+            file = await fs.promises.open(filePath, 'r');
+        },
+        async pull(controller) {
+            if (offset >= end) {
+                await closeFile();
+                if (truncateAt === null) {
+                    controller.close();
+                } else {
+                    controller.error(new Error('Stub backend dropped the connection'));
+                }
+                return;
+            }
+
+            const length = Math.min(CHUNK_SIZE, end - offset);
+            await delay((length / bytesPerSecond) * 1000);
+
+            const chunk = new Uint8Array(length);
+            await file!.read(chunk, 0, length, offset);
+            offset += length;
+            controller.enqueue(chunk);
+        },
+        async cancel() {
+            await closeFile();
+        },
+    });
+}
+
+/**
+ * Media file to stream and its size
+ * - Falls back to the bundled clip when STUB_MEDIA_FILE cannot be read
+ */
+async function openMediaFile(filePath: string): Promise<{ filePath: string; size: number }> {
+    try {
+        return { filePath, size: (await fs.promises.stat(filePath)).size };
+    } catch (error) {
+        if (filePath === STUB_CLIP_FILE) throw error;
+        console.warn(`[stub backend] STUB_MEDIA_FILE "${filePath}" cannot be read, streaming the bundled clip instead:`, error instanceof Error ? error.message : error);
+        return openMediaFile(STUB_CLIP_FILE);
+    }
+}
+
+/**
+ * Answers a download request like the NestJS backend
+ * @param body - Request body: { url, format }
+ */
+export async function handleStubDownload(body: unknown): Promise<Response> {
+    const config = getStubBackendConfig();
+    const { url, format } = (body ?? {}) as { url?: unknown; format?: unknown };
+
+    if (typeof url !== 'string') {
+        return errorResponse(400, 'Bad Request', 'url must be a string');
+    }
+
+    const video = parseVideoUrl(url);
+    if (!video) {
+        return errorResponse(400, 'Bad Request', 'Invalid video URL');
+    }
+
+    const fixture = findFixture(video.videoId);
+    const failure = fixture.failure
+        ?? (config.failure && Math.random() < config.failureRate ? config.failure : null);
+
+    console.log(`[stub backend] ${fixture.id}${failure ? ` with failure "${failure}"` : ''}`);
+
+    if (failure && failure !== 'slow' && failure !== 'truncated') {
+        const { status, error, message } = STUB_ERRORS[failure];
+        return errorResponse(status, error, message);
+    }
+
+    const { filePath, size } = await openMediaFile(config.mediaFile);
+    const extension = path.extname(filePath).slice(1).toLowerCase() || 'mp4';
+    const filename = `${fixture.title.replace(/[^\x20-\x7e]|["\\]/g, '')}.${extension}`;
+
+    const stream = createFixtureStream({
+        size,
+        bytesPerSecond: failure === 'slow' ? config.slowBytesPerSecond : config.bytesPerSecond,
+        truncateAt: failure === 'truncated' ? Math.floor(size / 2) : null,
+        filePath,
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': getContentTypeFromFilename(filename, 'video/mp4'),
+            'Content-Length': String(size),
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'X-Video-Info': toAsciiJson(toBackendVideoInfo(fixture, size, typeof format === 'string' ? format : 'best')),
+        },
+    });
+}
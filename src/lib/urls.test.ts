@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { createTranslator } from '@/lib/i18n';
+import { checkVideoUrl, describeUrlError, findSite, getYoutubeVideoId, parseStartTime, parseVideoUrl } from './urls';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+const WATCH_URL = `https://www.youtube.com/watch?v=${VIDEO_ID}`;
+
+function refusal(input: string) {
+    const check = checkVideoUrl(input);
+    if (check.valid) throw new Error(`${input} was accepted`);
+    return check;
+}
+
+describe('parseVideoUrl', () => {
+    describe('YouTube', () => {
+        it.each([
+            ['watch pages', `https://www.youtube.com/watch?v=${VIDEO_ID}`],
+            ['URLs without a scheme', `youtube.com/watch?v=${VIDEO_ID}`],
+            ['short links', `https://youtu.be/${VIDEO_ID}`],
+            ['shorts', `https://www.youtube.com/shorts/${VIDEO_ID}`],
+            ['embeds', `https://www.youtube.com/embed/${VIDEO_ID}`],
+            ['privacy-enhanced embeds', `https://www.youtube-nocookie.com/embed/${VIDEO_ID}`],
+            ['live pages', `https://www.youtube.com/live/${VIDEO_ID}`],
+            ['the music host', `https://music.youtube.com/watch?v=${VIDEO_ID}`],
+            ['the mobile host', `https://m.youtube.com/watch?v=${VIDEO_ID}`],
+        ])('accepts %s', (_, input) => {
+            expect(parseVideoUrl(input)).toEqual({ site: 'youtube', videoId: VIDEO_ID, url: WATCH_URL, startTime: null });
+        });
+
+        it('drops tracking and playlist parameters from the canonical URL', () => {
+            const video = parseVideoUrl(`https://www.youtube.com/watch?v=${VIDEO_ID}&si=abc123&feature=share&list=PL123&index=2`);
+            expect(video?.url).toBe(WATCH_URL);
+        });
+
+        it('refuses ids that are not 11 characters long', () => {
+            expect(parseVideoUrl('https://www.youtube.com/watch?v=short')).toBeNull();
+            expect(parseVideoUrl(`https://youtu.be/${VIDEO_ID}x`)).toBeNull();
+        });
+    });
+
+    describe('start time', () => {
+        it.each([
+            ['t= in seconds', `https://youtu.be/${VIDEO_ID}?t=42`, 42],
+            ['t= with a unit', `https://youtu.be/${VIDEO_ID}?t=42s`, 42],
+            ['t= in minutes and seconds', `${WATCH_URL}&t=1m30s`, 90],
+            ['start= on embeds', `https://www.youtube.com/embed/${VIDEO_ID}?start=75`, 75],
+            ['#t= in the fragment', `${WATCH_URL}#t=1:02:03`, 3723],
+        ])('reads %s', (_, input, seconds) => {
+            const video = parseVideoUrl(input);
+            expect(video?.startTime).toBe(seconds);
+            expect(video?.url).toBe(WATCH_URL);
+        });
+
+        it('ignores t=0 and values that are no time', () => {
+            expect(parseVideoUrl(`${WATCH_URL}&t=0`)?.startTime).toBeNull();
+            expect(parseVideoUrl(`${WATCH_URL}&t=soon`)?.startTime).toBeNull();
+        });
+    });
+
+    describe('Vimeo', () => {
+        it('accepts video pages and player URLs', () => {
+            const expected = { site: 'vimeo', videoId: '123456789', url: 'https://vimeo.com/123456789', startTime: null };
+
+            expect(parseVideoUrl('https://vimeo.com/123456789')).toEqual(expected);
+            expect(parseVideoUrl('https://vimeo.com/channels/staffpicks/123456789')).toEqual(expected);
+            expect(parseVideoUrl('https://player.vimeo.com/video/123456789')).toEqual(expected);
+        });
+
+        it('keeps the hash of unlisted videos', () => {
+            const url = 'https://vimeo.com/123456789/abcdef1234';
+
+            expect(parseVideoUrl('https://vimeo.com/123456789/abcdef1234?share=copy')?.url).toBe(url);
+            expect(parseVideoUrl('https://player.vimeo.com/video/123456789?h=abcdef1234')?.url).toBe(url);
+        });
+
+        it('refuses pages that are no video', () => {
+            expect(parseVideoUrl('https://vimeo.com/channels/staffpicks')).toBeNull();
+        });
+    });
+
+    describe('Dailymotion', () => {
+        it('accepts video pages, embeds, players and short links', () => {
+            const expected = { site: 'dailymotion', videoId: 'x8abc12', url: 'https://www.dailymotion.com/video/x8abc12', startTime: null };
+
+            expect(parseVideoUrl('https://www.dailymotion.com/video/x8abc12')).toEqual(expected);
+            expect(parseVideoUrl('https://www.dailymotion.com/embed/video/x8abc12')).toEqual(expected);
+            expect(parseVideoUrl('https://geo.dailymotion.com/player.html?video=x8abc12')).toEqual(expected);
+            expect(parseVideoUrl('https://dai.ly/x8abc12')).toEqual(expected);
+        });
+    });
+});
+
+describe('checkVideoUrl', () => {
+    it('refuses empty input', () => {
+        expect(refusal('   ')).toEqual({ valid: false, reason: 'empty', site: null });
+    });
+
+    it.each([
+        ['other sites', `https://example.com/watch?v=${VIDEO_ID}`],
+        ['hosts that only look like a supported one', `https://youtube.com.example.com/watch?v=${VIDEO_ID}`],
+        ['text with spaces', 'my favourite video'],
+        ['other schemes', `ftp://youtube.com/watch?v=${VIDEO_ID}`],
+    ])('refuses %s as unsupported', (_, input) => {
+        expect(refusal(input).reason).toBe('unsupported-site');
+    });
+
+    it('tells apart supported sites with no video in the URL', () => {
+        const check = refusal('https://www.youtube.com/feed/subscriptions');
+        expect(check.reason).toBe('invalid-video');
+        expect(check.site?.id).toBe('youtube');
+    });
+});
+
+describe('findSite', () => {
+    it('finds the site of any page, video or not', () => {
+        expect(findSite('https://www.youtube.com/@channel')?.id).toBe('youtube');
+        expect(findSite('https://www.dailymotion.com/')?.id).toBe('dailymotion');
+        expect(findSite('https://example.com/')).toBeNull();
+    });
+});
+
+describe('getYoutubeVideoId', () => {
+    it('only returns ids of YouTube videos', () => {
+        expect(getYoutubeVideoId(`https://youtu.be/${VIDEO_ID}`)).toBe(VIDEO_ID);
+        expect(getYoutubeVideoId('https://vimeo.com/123456789')).toBeNull();
+    });
+});
+
+describe('parseStartTime', () => {
+    it('reads seconds, units and clock times', () => {
+        expect(parseStartTime('90')).toBe(90);
+        expect(parseStartTime('1h2m3s')).toBe(3723);
+        expect(parseStartTime('1:30')).toBe(90);
+        expect(parseStartTime('')).toBeNull();
+        expect(parseStartTime('1:3')).toBeNull();
+    });
+});
+
+describe('describeUrlError', () => {
+    it('names the supported sites and the site of an invalid video', () => {
+        const t = createTranslator('en');
+
+        expect(describeUrlError(refusal('https://example.com/'), t)).toContain('YouTube, Vimeo, Dailymotion');
+        expect(describeUrlError(refusal('https://vimeo.com/channels/staffpicks'), t)).toContain('Vimeo');
+    });
+});
@@ -0,0 +1,192 @@
+import type { Translator } from '@/lib/i18n';
+
+export type SiteId = 'youtube' | 'vimeo' | 'dailymotion';
+
+// Video URL reduced to what identifies the video
+export interface VideoUrl {
+    site: SiteId;
+    videoId: string;            // Site's own id (11 characters on YouTube)
+    url: string;                // Canonical URL, tracking and playback parameters removed
+    startTime: number | null;   // Seconds, from t= / start= / #t=, kept apart from the URL
+}
+
+// Site yt-dlp can download from, recognized by its hosts
+interface SiteDefinition {
+    id: SiteId;
+    name: string;               // Shown in messages
+    hosts: string[];            // Without www. or m.
+    /**
+     * Finds the video in a URL of one of the site's hosts
+     * @returns The canonical URL and video id, or null when the URL is no video page of the site
+     */
+    parse(url: URL, host: string): { videoId: string; url: string } | null;
+}
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+const VIMEO_ID = /^\d{6,12}$/;
+const VIMEO_HASH = /^[0-9a-f]{6,20}$/i;
+const DAILYMOTION_ID = /^x[0-9a-z]{4,10}$/i;
+
+/**
+ * Sites videos can be downloaded from
+ * - YouTube also has playlists and channels, listed through '@/lib/playlists'
+ */
+export const SITES: SiteDefinition[] = [
+    {
+        id: 'youtube',
+        name: 'YouTube',
+        hosts: ['youtube.com', 'music.youtube.com', 'youtube-nocookie.com', 'youtu.be'],
+        parse(url, host) {
+            const id = host === 'youtu.be'
+                ? url.pathname.split('/')[1]
+                : url.searchParams.get('v') ?? url.pathname.match(/^\/(?:shorts|embed|live|v)\/([^/?#]+)/)?.[1];
+
+            return id && YOUTUBE_ID.test(id) ? { videoId: id, url: `https://www.youtube.com/watch?v=${id}` } : null;
+        },
+    },
+    {
+        id: 'vimeo',
+        name: 'Vimeo',
+        hosts: ['vimeo.com', 'player.vimeo.com'],
+        parse(url, host) {
+            // vimeo.com/123, /channels/x/123, /groups/x/videos/123, /showcase/x/video/123, player.vimeo.com/video/123
+            const segments = url.pathname.split('/').filter(Boolean);
+            const index = host === 'player.vimeo.com'
+                ? (segments[0] === 'video' ? 1 : -1)
+                : segments.findIndex(segment => VIMEO_ID.test(segment));
+            const id = segments[index];
+            if (!id || !VIMEO_ID.test(id)) return null;
+
+            // Unlisted videos need their hash: vimeo.com/123/abcdef or player.vimeo.com/video/123?h=abcdef
+            const hash = url.searchParams.get('h') ?? segments[index + 1];
+            return {
+                videoId: id,
+                url: hash && VIMEO_HASH.test(hash) ? `https://vimeo.com/${id}/${hash}` : `https://vimeo.com/${id}`,
+            };
+        },
+    },
+    {
+        id: 'dailymotion',
+        name: 'Dailymotion',
+        hosts: ['dailymotion.com', 'geo.dailymotion.com', 'dai.ly'],
+        parse(url, host) {
+            // dailymotion.com/video/x8abc12, /embed/video/x8abc12, dai.ly/x8abc12, geo.dailymotion.com/player.html?video=x8abc12
+            const id = host === 'dai.ly'
+                ? url.pathname.split('/')[1]
+                : url.searchParams.get('video') ?? url.pathname.match(/^\/(?:embed\/)?video\/([^/?#_]+)/)?.[1];
+
+            return id && DAILYMOTION_ID.test(id) ? { videoId: id, url: `https://www.dailymotion.com/video/${id}` } : null;
+        },
+    },
+];
+
+/**
+ * Parses a URL typed by a user, the scheme is optional
+ * @returns The URL and its host without www. / m., or null when it is not a web URL
+ */
+function toWebUrl(input: string): { url: URL; host: string } | null {
+    const value = input.trim();
+    if (!value || /\s/.test(value)) return null;
+
+    try {
+        const url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+        return { url, host: url.hostname.toLowerCase().replace(/^(www|m)\./, '') };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Finds the supported site a URL belongs to, whether or not it points to a video
+ */
+export function findSite(input: string): SiteDefinition | null {
+    const parsed = toWebUrl(input);
+    return parsed ? SITES.find(site => site.hosts.includes(parsed.host)) ?? null : null;
+}
+
+/**
+ * Parses a start time: 90, 90s, 1m30s, 1h2m3s or 1:30
+ * @returns Seconds, or null when the value is no start time
+ */
+export function parseStartTime(value: string | null | undefined): number | null {
+    if (!value) return null;
+
+    const clock = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+    if (clock) {
+        return parseInt(clock[1] ?? '0', 10) * 3600 + parseInt(clock[2], 10) * 60 + parseInt(clock[3], 10);
+    }
+
+    const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/i);
+    if (!units || !units.slice(1).some(Boolean)) return null;
+
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+}
+
+/**
+ * Reads the start time of a video URL: t= or start= in the query, or #t= in the fragment
+ */
+function getStartTime(url: URL): number | null {
+    const fragment = new URLSearchParams(url.hash.slice(1));
+    const value = url.searchParams.get('t') ?? url.searchParams.get('start') ?? fragment.get('t');
+    const seconds = parseStartTime(value);
+    return seconds ? seconds : null;
+}
+
+export type UrlCheck =
+    | { valid: true; video: VideoUrl }
+    | { valid: false; reason: 'empty' | 'unsupported-site' | 'invalid-video'; site: SiteDefinition | null };
+
+/**
+ * Validates and canonicalizes a video URL of any supported site
+ * - Accepts the URL forms each site uses (watch, shorts, embed, live, mobile and music hosts on YouTube...)
+ * - The canonical URL drops tracking and playback parameters (si=, feature=, list=, t=...), the start time is returned apart
+ */
+export function checkVideoUrl(input: string): UrlCheck {
+    if (!input.trim()) return { valid: false, reason: 'empty', site: null };
+
+    const parsed = toWebUrl(input);
+    const site = parsed ? SITES.find(candidate => candidate.hosts.includes(parsed.host)) ?? null : null;
+    if (!parsed || !site) return { valid: false, reason: 'unsupported-site', site: null };
+
+    const video = site.parse(parsed.url, parsed.host);
+    if (!video) return { valid: false, reason: 'invalid-video', site };
+
+    return {
+        valid: true,
+        video: { site: site.id, ...video, startTime: getStartTime(parsed.url) },
+    };
+}
+
+/**
+ * Validates and canonicalizes a video URL
+ * @returns The video, or null when the URL is not a video of a supported site
+ */
+export function parseVideoUrl(input: string): VideoUrl | null {
+    const check = checkVideoUrl(input);
+    return check.valid ? check.video : null;
+}
+
+/**
+ * Extracts the YouTube video id, for the lookups only YouTube supports (preview, live status)
+ * @returns The id, or null for other sites and invalid URLs
+ */
+export function getYoutubeVideoId(input: string): string | null {
+    const video = parseVideoUrl(input);
+    return video?.site === 'youtube' ? video.videoId : null;
+}
+
+/**
+ * Explains why a URL was refused, in the language of the translator
+ */
+export function describeUrlError(check: Extract<UrlCheck, { valid: false }>, t: Translator): string {
+    switch (check.reason) {
+        case 'empty':
+            return t('validation.urlRequired');
+        case 'unsupported-site':
+            return t('validation.unsupportedSite', { sites: SITES.map(site => site.name).join(', ') });
+        case 'invalid-video':
+            return t('validation.invalidVideo', { site: check.site?.name ?? '' });
+    }
+}
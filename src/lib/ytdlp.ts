@@ -0,0 +1,56 @@
+import youtubeDl from 'youtube-dl-exec';
+import { getCollectionType, toListingUrl, toPlaylist, Playlist } from '@/lib/playlists';
+
+// Upper bound of entries listed for a single playlist or channel
+export const MAX_PLAYLIST_ENTRIES = parseInt(process.env.MAX_PLAYLIST_ENTRIES || '', 10) || 200;
+
+/**
+ * yt-dlp binary used for metadata lookups and local downloads
+ * - YTDLP_PATH points to a custom binary (system install, fake binary in tests)
+ * - Falls back to the binary bundled with youtube-dl-exec
+ */
+export const YTDLP_BINARY = process.env.YTDLP_PATH || youtubeDl.constants.YOUTUBE_DL_PATH;
+
+export const ytdlp = youtubeDl.create(YTDLP_BINARY);
+
+/**
+ * Fetches the full metadata of a video without downloading it
+ * @param url - Video URL
+ * @returns Parsed dumpSingleJson output
+ */
+export async function getVideoMetadata(url: string): Promise<youtubeDl.Response> {
+    const result = await ytdlp(url, {
+        dumpSingleJson: true,
+        noWarnings: true,
+        skipDownload: true,
+    });
+
+    if (typeof result === 'string') {
+        throw new Error('Unexpected non-JSON output from yt-dlp');
+    }
+    return result;
+}
+
+/**
+ * Lists the entries of a playlist or channel without downloading anything
+ * @param url - Playlist or channel URL
+ */
+export async function getPlaylist(url: string): Promise<Playlist> {
+    const type = getCollectionType(url);
+    if (!type) {
+        throw new Error('URL is not a playlist or channel');
+    }
+
+    const result = await ytdlp(toListingUrl(url, type), {
+        dumpSingleJson: true,
+        flatPlaylist: true,
+        noWarnings: true,
+        // One extra entry tells us whether the listing was cut
+        playlistEnd: MAX_PLAYLIST_ENTRIES + 1,
+    });
+
+    if (typeof result === 'string') {
+        throw new Error('Unexpected non-JSON output from yt-dlp');
+    }
+    return toPlaylist(result, type, MAX_PLAYLIST_ENTRIES);
+}
@@ -13,7 +13,41 @@ declare module 'youtube-dl-exec' {
         [key: string]: any;
     }
 
+    // Entry of the `formats` list returned by dumpSingleJson
+    interface YoutubeDlFormat {
+        format_id: string;
+        format_note?: string;
+        ext: string;
+        protocol?: string;
+        width?: number | null;
+        height?: number | null;
+        resolution?: string;
+        fps?: number | null;
+        vcodec?: string;        // 'none' for audio-only formats
+        acodec?: string;        // 'none' for video-only formats
+        tbr?: number | null;    // Total bitrate in KBit/s
+        vbr?: number | null;
+        abr?: number | null;
+        filesize?: number | null;
+        filesize_approx?: number | null;
+    }
+
+    // Subtitle or caption track, keyed by language in `subtitles` / `automatic_captions`
+    interface YoutubeDlSubtitle {
+        ext: string;            // 'vtt', 'srv3', 'json3', 'ttml'...
+        url: string;
+        name?: string;          // Display name, e.g. 'English (auto-generated)'
+    }
+
+    // Entry of the `chapters` list, times in seconds
+    interface YoutubeDlChapter {
+        title?: string;
+        start_time: number;
+        end_time?: number;
+    }
+
     interface YoutubeDlResponse {
+        id?: string;
         title?: string;
         thumbnail?: string;
         thumbnails?: Array<{
@@ -24,10 +58,30 @@ declare module 'youtube-dl-exec' {
         duration?: number;
         uploader?: string;
         channel?: string;
+        formats?: YoutubeDlFormat[];
+        subtitles?: Record<string, YoutubeDlSubtitle[]>;
+        automatic_captions?: Record<string, YoutubeDlSubtitle[]>;
+        chapters?: YoutubeDlChapter[] | null;
         [key: string]: any;
     }
 
     function youtubeDl(url: string, options?: YoutubeDlOptions): Promise<YoutubeDlResponse | string>;
-    
+
+    namespace youtubeDl {
+        export type Options = YoutubeDlOptions;
+        export type Response = YoutubeDlResponse;
+        export type Format = YoutubeDlFormat;
+        export type Subtitle = YoutubeDlSubtitle;
+        export type Chapter = YoutubeDlChapter;
+
+        // Builds an instance bound to a specific yt-dlp binary
+        export function create(binaryPath: string): typeof youtubeDl;
+
+        // Location of the binary bundled with the package
+        export const constants: {
+            YOUTUBE_DL_PATH: string;
+        };
+    }
+
     export = youtubeDl;
-}
\ No newline at end of file
+}